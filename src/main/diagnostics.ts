@@ -0,0 +1,93 @@
+// Stages of the connection test ("Test" in the connection dialog) and the hints shown when one
+// fails. The test itself runs in main.ts (ssh:test), next to the connect plumbing it reuses.
+
+export type DiagnosticStageId = 'dns' | 'tcp' | 'banner' | 'algorithms' | 'hostKey' | 'authMethods' | 'auth';
+
+export type DiagnosticStatus = 'pending' | 'running' | 'pass' | 'warn' | 'fail' | 'skipped';
+
+export interface DiagnosticStage {
+  id: DiagnosticStageId;
+  label: string;
+  status: DiagnosticStatus;
+  detail?: string;
+  hint?: string;
+  durationMs?: number;
+}
+
+const STAGE_LABELS: Record<DiagnosticStageId, string> = {
+  dns: 'DNS resolution',
+  tcp: 'TCP connection',
+  banner: 'SSH banner',
+  algorithms: 'Algorithm negotiation',
+  hostKey: 'Host key',
+  authMethods: 'Authentication methods',
+  auth: 'Authentication',
+};
+
+export function createDiagnosticStages(): DiagnosticStage[] {
+  return (Object.keys(STAGE_LABELS) as DiagnosticStageId[]).map((id) => ({ id, label: STAGE_LABELS[id], status: 'pending' }));
+}
+
+// DNS lookups and TCP connects (error codes from Node's net/dns)
+export function getNetworkHint(err: NodeJS.ErrnoException, host: string, port: number): string | undefined {
+  switch (err.code) {
+    case 'ENOTFOUND':
+    case 'EAI_AGAIN':
+    case 'EAI_NONAME':
+      return `"${host}" could not be resolved. Check the host name for typos, or connect to the VPN if it is an internal name.`;
+    case 'ECONNREFUSED':
+      return `Nothing is accepting connections on port ${port}. Check that sshd is running and the port is right.`;
+    case 'ETIMEDOUT':
+      return 'No answer from the server. A firewall may be dropping the traffic, or the host is down.';
+    case 'EHOSTUNREACH':
+    case 'ENETUNREACH':
+      return 'No route to the host. Check your network connection or VPN.';
+    case 'ECONNRESET':
+      return 'The connection was reset. A firewall or an intrusion blocker such as fail2ban may be refusing you.';
+    default:
+      return undefined;
+  }
+}
+
+// Failures between the TCP connect and authentication
+export function getHandshakeHint(message: string, sawBanner: boolean): string | undefined {
+  if (!sawBanner) {
+    return /timed out/i.test(message)
+      ? 'The port accepted the connection but never sent an SSH banner. Check that this port really is SSH.'
+      : 'The server closed the connection before identifying itself. It may not be an SSH server, or it is refusing your address.';
+  }
+  if (/key exchange/i.test(message)) {
+    return 'The server only offers key exchange algorithms that are disabled by default. Allow one under Advanced > Key Exchange, e.g. "+diffie-hellman-group14-sha1".';
+  }
+  if (/host key format|host key algorithm/i.test(message)) {
+    return 'The server only offers older host key types. Allow one under Advanced > Host Key Algorithms, e.g. "+ssh-rsa".';
+  }
+  if (/cipher/i.test(message)) {
+    return 'No common cipher. Allow an older one under Advanced > Ciphers, e.g. "+aes128-cbc".';
+  }
+  if (/mac|hmac/i.test(message)) {
+    return 'No common MAC. Allow an older one under Advanced > MACs, e.g. "+hmac-sha1".';
+  }
+  if (/verification failed|host denied/i.test(message)) {
+    return 'The host key was not trusted. If the server was reinstalled, remove its old key under Preferences > Known Hosts.';
+  }
+  return undefined;
+}
+
+const AUTH_METHOD_LABELS: Record<string, string> = {
+  password: 'password',
+  publickey: 'key',
+  agent: 'agent',
+  'keyboard-interactive': 'keyboard-interactive',
+};
+
+export function getAuthHint(configured: string[], offered: string[] | null): string {
+  if (offered) {
+    const usable = configured.filter((method) => offered.includes(method === 'agent' ? 'publickey' : method));
+    if (usable.length === 0) {
+      const wanted = configured.map((method) => AUTH_METHOD_LABELS[method] || method).join(', ');
+      return `The server does not accept ${wanted || 'any configured'} authentication. It offers: ${offered.join(', ')}.`;
+    }
+  }
+  return 'Check the username and credentials. The server may also refuse this user (AllowUsers, PermitRootLogin, an expired account).';
+}
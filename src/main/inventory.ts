@@ -0,0 +1,691 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Bulk import of hosts from CMDB exports (CSV, JSON arrays) and Ansible inventories (INI, YAML,
+// or `ansible-inventory --list` JSON). Every format is read into flat records: a column -> value
+// map plus the inventory groups the host is in. Records are then mapped onto connection fields
+// and compared with the saved connections; nothing is saved here.
+
+export type InventoryFormat = 'csv' | 'json' | 'ansible-ini' | 'ansible-yaml' | 'ansible-json';
+
+export interface InventoryRecord {
+  label: string; // Where the record came from, for the preview ("line 4", host name)
+  fields: Record<string, string>; // Column (or inventory var) -> value
+  groups: string[]; // Group paths, parent first ("prod/web"); empty for flat files
+}
+
+export interface ParsedInventory {
+  format: InventoryFormat;
+  columns: string[];
+  records: InventoryRecord[];
+}
+
+export type ImportField = 'name' | 'host' | 'port' | 'username' | 'privateKey' | 'folder' | 'tags';
+
+export type ImportMapping = Partial<Record<ImportField, string>>; // Field -> source column
+
+export interface ImportOptions {
+  mapping: ImportMapping;
+  groupsAs: 'folders' | 'tags' | 'none';
+  parentFolder?: string; // Prepended to every imported folder
+}
+
+// A record mapped onto connection fields. Unset fields are left alone when updating.
+export interface ImportedHost {
+  name: string;
+  host: string;
+  port?: number;
+  username?: string;
+  privateKey?: string;
+  folder?: string;
+  tags?: string[];
+}
+
+export interface ImportChange {
+  field: ImportField;
+  from?: string;
+  to?: string;
+}
+
+// The dry run for one record: add it, update the saved connection it matches, or skip it
+export interface ImportPlanEntry<T> {
+  label: string;
+  action: 'add' | 'update' | 'unchanged' | 'skip';
+  host?: ImportedHost;
+  existing?: T;
+  changes?: ImportChange[];
+  reason?: string; // Why the record is skipped
+}
+
+// Inventory variables and column names that map onto each field, in order of preference
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  name: ['inventory_hostname', 'name', 'alias', 'label', 'hostname'],
+  host: ['ansible_host', 'ansible_ssh_host', 'host', 'hostname', 'ip', 'ip_address', 'ipaddress', 'address', 'fqdn'],
+  port: ['ansible_port', 'ansible_ssh_port', 'port', 'ssh_port'],
+  username: ['ansible_user', 'ansible_ssh_user', 'user', 'username', 'login', 'ssh_user'],
+  privateKey: ['ansible_ssh_private_key_file', 'private_key', 'private_key_file', 'identity_file', 'identityfile', 'key', 'key_file'],
+  folder: ['folder', 'group', 'path'],
+  tags: ['tags', 'tag', 'labels'],
+};
+
+const INVENTORY_HOSTNAME = 'inventory_hostname';
+
+function expandHome(p: string): string {
+  if (p === '~' || p.startsWith('~/') || p.startsWith('~\\')) {
+    return path.join(os.homedir(), p.slice(1));
+  }
+  return p;
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.length >= 2 && (trimmed[0] === '"' || trimmed[0] === "'") && trimmed[trimmed.length - 1] === trimmed[0]) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Scalars become strings; lists of scalars are joined (handy for tags); nested objects are dropped
+function toFieldValue(value: unknown): string | undefined {
+  if (value === null || value === undefined) return undefined;
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value) && value.every((item) => typeof item !== 'object' || item === null)) {
+    return value.filter((item) => item !== null).join(',');
+  }
+  return undefined;
+}
+
+function toFields(vars: unknown): Record<string, string> {
+  const fields: Record<string, string> = {};
+  if (isObject(vars)) {
+    for (const [key, value] of Object.entries(vars)) {
+      const fieldValue = toFieldValue(value);
+      if (fieldValue !== undefined) fields[key] = fieldValue;
+    }
+  }
+  return fields;
+}
+
+function collectColumns(records: InventoryRecord[]): string[] {
+  const columns = new Set<string>();
+  records.forEach((record) => Object.keys(record.fields).forEach((key) => columns.add(key)));
+  return Array.from(columns);
+}
+
+// CSV (RFC 4180 quoting). The delimiter - comma, semicolon or tab - is picked from the header.
+function parseCsv(text: string): ParsedInventory {
+  const headerLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = [',', ';', '\t'].reduce((best, d) => (headerLine.split(d).length > headerLine.split(best).length ? d : best), ',');
+
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === '\n') line++;
+        cell += ch;
+      }
+    } else if (ch === '"' && cell.trim() === '') {
+      quoted = true;
+      cell = '';
+    } else if (ch === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      cells.push(cell);
+      rows.push({ line: rowLine, cells });
+      cells = [];
+      cell = '';
+      rowLine = ++line;
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || cells.length > 0) {
+    cells.push(cell);
+    rows.push({ line: rowLine, cells });
+  }
+
+  const nonEmpty = rows.filter((row) => row.cells.some((c) => c.trim() !== ''));
+  if (nonEmpty.length === 0) {
+    throw new Error('The file is empty');
+  }
+  const columns = nonEmpty[0].cells.map((c) => c.trim());
+  const records = nonEmpty.slice(1).map((row) => {
+    const fields: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      const value = (row.cells[index] || '').trim();
+      if (column && value) fields[column] = value;
+    });
+    return { label: `line ${row.line}`, fields, groups: [] };
+  });
+  return { format: 'csv', columns: columns.filter(Boolean), records };
+}
+
+// Ansible inventory model shared by the INI, YAML and JSON readers
+class AnsibleInventory {
+  private readonly groups = new Map<string, { hosts: string[]; vars: Record<string, string>; children: string[] }>();
+  private readonly hostVars = new Map<string, Record<string, string>>();
+
+  group(name: string) {
+    let group = this.groups.get(name);
+    if (!group) {
+      group = { hosts: [], vars: {}, children: [] };
+      this.groups.set(name, group);
+    }
+    return group;
+  }
+
+  addHost(host: string, groupName: string, vars: Record<string, string> = {}): void {
+    const group = this.group(groupName);
+    if (!group.hosts.includes(host)) group.hosts.push(host);
+    this.hostVars.set(host, { ...this.hostVars.get(host), ...vars });
+  }
+
+  setHostVars(host: string, vars: Record<string, string>): void {
+    this.hostVars.set(host, { ...this.hostVars.get(host), ...vars });
+  }
+
+  addChild(parent: string, child: string): void {
+    const group = this.group(parent);
+    if (!group.children.includes(child)) group.children.push(child);
+    this.group(child);
+  }
+
+  // Parent chain of a group below 'all', root first. A group with several parents follows the first.
+  private groupPath(name: string, seen = new Set<string>()): string[] {
+    if (name === 'all' || name === 'ungrouped' || seen.has(name)) return [];
+    seen.add(name);
+    const parent = Array.from(this.groups.entries()).find(([, g]) => g.children.includes(name))?.[0];
+    return [...(parent ? this.groupPath(parent, seen) : []), name];
+  }
+
+  toRecords(): InventoryRecord[] {
+    const hostGroups = new Map<string, string[]>();
+    for (const [name, group] of this.groups) {
+      for (const host of group.hosts) {
+        hostGroups.set(host, [...(hostGroups.get(host) || []), name]);
+      }
+    }
+    // Hosts that only have vars (_meta.hostvars) still count
+    for (const host of this.hostVars.keys()) {
+      if (!hostGroups.has(host)) hostGroups.set(host, []);
+    }
+
+    return Array.from(hostGroups.entries()).map(([host, groupNames]) => {
+      const paths = groupNames.map((name) => this.groupPath(name)).filter((p) => p.length > 0);
+      // Variable precedence: all < parent groups < child groups < host
+      const fields: Record<string, string> = { ...this.groups.get('all')?.vars };
+      for (const groupPath of paths) {
+        for (const name of groupPath) {
+          Object.assign(fields, this.groups.get(name)?.vars);
+        }
+      }
+      Object.assign(fields, this.hostVars.get(host), { [INVENTORY_HOSTNAME]: host });
+      return { label: host, fields, groups: paths.map((p) => p.join('/')) };
+    });
+  }
+}
+
+// Host patterns with ranges: web[01:03].example.com, db-[a:c]
+function expandHostPattern(pattern: string): string[] {
+  const match = pattern.match(/^(.*?)\[([0-9a-zA-Z]+):([0-9a-zA-Z]+)(?::(\d+))?\](.*)$/);
+  if (!match) return [pattern];
+  const [, prefix, start, end, step, suffix] = match;
+  const stride = step ? Math.max(1, parseInt(step, 10)) : 1;
+  const values: string[] = [];
+  if (/^\d+$/.test(start) && /^\d+$/.test(end)) {
+    const width = start.length > 1 && start.startsWith('0') ? start.length : 0;
+    for (let n = parseInt(start, 10); n <= parseInt(end, 10); n += stride) {
+      values.push(String(n).padStart(width, '0'));
+    }
+  } else if (start.length === 1 && end.length === 1) {
+    for (let c = start.charCodeAt(0); c <= end.charCodeAt(0); c += stride) {
+      values.push(String.fromCharCode(c));
+    }
+  } else {
+    return [pattern];
+  }
+  return values.flatMap((value) => expandHostPattern(`${prefix}${value}${suffix}`));
+}
+
+// Split "host key=value key2='a b'" into its host and vars
+function parseHostLine(line: string): { host: string; vars: Record<string, string> } {
+  const tokens = line.match(/(?:[^\s"']+|"[^"]*"|'[^']*')+/g) || [];
+  const vars: Record<string, string> = {};
+  for (const token of tokens.slice(1)) {
+    const eq = token.indexOf('=');
+    if (eq > 0) vars[token.slice(0, eq)] = unquote(token.slice(eq + 1));
+  }
+  let host = tokens[0] || '';
+  // host:port, but not a bare IPv6 address
+  const portMatch = host.match(/^([^:]+):(\d+)$/);
+  if (portMatch) {
+    host = portMatch[1];
+    vars.ansible_port = vars.ansible_port || portMatch[2];
+  }
+  return { host, vars };
+}
+
+function parseAnsibleIni(text: string): ParsedInventory {
+  const inventory = new AnsibleInventory();
+  let group = 'ungrouped';
+  let section: 'hosts' | 'vars' | 'children' = 'hosts';
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) continue;
+
+    const header = line.match(/^\[([^\]:]+)(?::(vars|children))?\]$/);
+    if (header) {
+      group = header[1].trim();
+      section = (header[2] as 'vars' | 'children') || 'hosts';
+      inventory.group(group);
+      continue;
+    }
+
+    if (section === 'vars') {
+      const eq = line.indexOf('=');
+      if (eq > 0) inventory.group(group).vars[line.slice(0, eq).trim()] = unquote(line.slice(eq + 1));
+    } else if (section === 'children') {
+      inventory.addChild(group, line.split(/\s+/)[0]);
+    } else {
+      const { host, vars } = parseHostLine(line);
+      for (const name of expandHostPattern(host)) {
+        inventory.addHost(name, group, vars);
+      }
+    }
+  }
+
+  const records = inventory.toRecords();
+  return { format: 'ansible-ini', columns: collectColumns(records), records };
+}
+
+// Groups in the YAML layout (also valid as JSON): hosts/vars/children are mappings.
+// `ansible-inventory --list` output uses lists for hosts and children instead.
+function loadAnsibleGroup(inventory: AnsibleInventory, name: string, value: unknown): void {
+  const group = inventory.group(name);
+  if (!isObject(value)) return;
+
+  if (Array.isArray(value.hosts)) {
+    value.hosts.forEach((host) => typeof host === 'string' && expandHostPattern(host).forEach((h) => inventory.addHost(h, name)));
+  } else if (isObject(value.hosts)) {
+    for (const [host, vars] of Object.entries(value.hosts)) {
+      expandHostPattern(host).forEach((h) => inventory.addHost(h, name, toFields(vars)));
+    }
+  }
+  Object.assign(group.vars, toFields(value.vars));
+
+  if (Array.isArray(value.children)) {
+    value.children.forEach((child) => typeof child === 'string' && inventory.addChild(name, child));
+  } else if (isObject(value.children)) {
+    for (const [child, childValue] of Object.entries(value.children)) {
+      inventory.addChild(name, child);
+      loadAnsibleGroup(inventory, child, childValue);
+    }
+  }
+}
+
+function loadAnsibleStructure(data: Record<string, unknown>, format: InventoryFormat): ParsedInventory {
+  const inventory = new AnsibleInventory();
+  for (const [name, value] of Object.entries(data)) {
+    if (name === '_meta') {
+      const hostVars = isObject(value) && isObject(value.hostvars) ? value.hostvars : {};
+      for (const [host, vars] of Object.entries(hostVars)) {
+        inventory.setHostVars(host, toFields(vars));
+      }
+    } else {
+      loadAnsibleGroup(inventory, name, value);
+    }
+  }
+  const records = inventory.toRecords();
+  return { format, columns: collectColumns(records), records };
+}
+
+function looksLikeAnsible(data: Record<string, unknown>): boolean {
+  return Object.entries(data).some(([key, value]) => key === '_meta' || key === 'all' || (isObject(value) && ('hosts' in value || 'children' in value)));
+}
+
+function parseJson(text: string): ParsedInventory {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err: any) {
+    throw new Error(`Invalid JSON: ${err.message}`);
+  }
+  // A bare array, or an export that wraps one ({ "hosts": [...] })
+  const list = Array.isArray(data) ? data : isObject(data) ? Object.values(data).find(Array.isArray) : undefined;
+  if (isObject(data) && looksLikeAnsible(data)) {
+    return loadAnsibleStructure(data, 'ansible-json');
+  }
+  if (!list) {
+    throw new Error('Expected a list of hosts or an Ansible inventory');
+  }
+  const records = list.filter(isObject).map((item, index) => ({ label: `item ${index + 1}`, fields: toFields(item), groups: [] }));
+  return { format: 'json', columns: collectColumns(records), records };
+}
+
+// Minimal YAML reader for inventories: block mappings and sequences, plain/quoted scalars,
+// flow lists and literal blocks. Anchors, tags and multi-document files are not supported.
+type YamlValue = string | null | YamlValue[] | { [key: string]: YamlValue };
+
+interface YamlLine {
+  indent: number;
+  text: string;
+  number: number;
+}
+
+function stripYamlComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+function parseYamlScalar(text: string): YamlValue {
+  const value = text.trim();
+  if (value === '' || value === '~' || value === 'null') return null;
+  if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+    return value.slice(1, -1).replace(/\\(["\\nt])/g, (_m, c) => (c === 'n' ? '\n' : c === 't' ? '\t' : c));
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (value.startsWith('[') && value.endsWith(']')) {
+    const inner = value.slice(1, -1).trim();
+    return inner ? inner.split(',').map((item) => parseYamlScalar(item)) : [];
+  }
+  if (value === '{}') return {};
+  return value;
+}
+
+// Split "key: value" outside quotes; null when the line is not a mapping entry
+function splitYamlKey(text: string): [string, string] | null {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === ':' && (i === text.length - 1 || text[i + 1] === ' ')) {
+      return [unquote(text.slice(0, i)), text.slice(i + 1).trim()];
+    }
+  }
+  return null;
+}
+
+class YamlReader {
+  private index = 0;
+
+  constructor(private readonly lines: YamlLine[]) {}
+
+  parse(): YamlValue {
+    if (this.lines.length === 0) return null;
+    const value = this.block(this.lines[0].indent);
+    if (this.index < this.lines.length) {
+      throw new Error(`Unexpected indentation on line ${this.lines[this.index].number}`);
+    }
+    return value;
+  }
+
+  private block(indent: number): YamlValue {
+    const first = this.lines[this.index];
+    return first.text === '-' || first.text.startsWith('- ') ? this.sequence(indent) : this.mapping(indent);
+  }
+
+  private sequence(indent: number): YamlValue[] {
+    const items: YamlValue[] = [];
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.indent !== indent || !(line.text === '-' || line.text.startsWith('- '))) break;
+      const rest = line.text.slice(1).trim();
+      if (!rest) {
+        this.index++;
+        items.push(this.nested(indent));
+      } else if (splitYamlKey(rest)) {
+        // "- key: value" starts a mapping whose keys line up with "key"
+        line.indent = indent + line.text.indexOf(rest);
+        line.text = rest;
+        items.push(this.mapping(line.indent));
+      } else {
+        this.index++;
+        items.push(parseYamlScalar(rest));
+      }
+    }
+    return items;
+  }
+
+  private mapping(indent: number): { [key: string]: YamlValue } {
+    const result: { [key: string]: YamlValue } = {};
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.indent < indent) break;
+      if (line.indent > indent) {
+        throw new Error(`Unexpected indentation on line ${line.number}`);
+      }
+      const entry = splitYamlKey(line.text);
+      if (!entry) {
+        if (line.text === '-' || line.text.startsWith('- ')) break;
+        throw new Error(`Expected "key: value" on line ${line.number}`);
+      }
+      const [key, rest] = entry;
+      this.index++;
+      if (rest === '|' || rest === '>' || /^[|>][-+]?$/.test(rest)) {
+        result[key] = this.literal(indent, rest.startsWith('>') ? ' ' : '\n');
+      } else if (rest) {
+        result[key] = parseYamlScalar(rest);
+      } else {
+        const next = this.lines[this.index];
+        // Sequences may sit at the same indent as their key
+        const sameIndentList = next && next.indent === indent && (next.text === '-' || next.text.startsWith('- '));
+        result[key] = sameIndentList ? this.sequence(indent) : this.nested(indent);
+      }
+    }
+    return result;
+  }
+
+  private nested(parentIndent: number): YamlValue {
+    const next = this.lines[this.index];
+    return next && next.indent > parentIndent ? this.block(next.indent) : null;
+  }
+
+  private literal(parentIndent: number, joiner: string): string {
+    const parts: string[] = [];
+    while (this.index < this.lines.length && this.lines[this.index].indent > parentIndent) {
+      parts.push(this.lines[this.index++].text);
+    }
+    return parts.join(joiner);
+  }
+}
+
+function parseYaml(text: string): YamlValue {
+  const lines: YamlLine[] = [];
+  text.split(/\r?\n/).forEach((raw, i) => {
+    if (/^ *\t/.test(raw)) {
+      throw new Error(`Tabs are not allowed for indentation (line ${i + 1})`);
+    }
+    const stripped = stripYamlComment(raw).replace(/\s+$/, '');
+    const textPart = stripped.trim();
+    if (!textPart || textPart === '---' || textPart === '...') return;
+    lines.push({ indent: stripped.length - stripped.trimStart().length, text: textPart, number: i + 1 });
+  });
+  return new YamlReader(lines).parse();
+}
+
+function parseAnsibleYaml(text: string): ParsedInventory {
+  const data = parseYaml(text);
+  if (!isObject(data)) {
+    throw new Error('Expected an Ansible inventory (a mapping of groups)');
+  }
+  return loadAnsibleStructure(data, 'ansible-yaml');
+}
+
+// Read a host list, picking the format from the extension (and the content for inventories
+// without one, like Ansible's "hosts")
+export function parseInventoryFile(filePath: string): ParsedInventory {
+  const text = fs.readFileSync(filePath, 'utf-8').replace(/^\uFEFF/, '');
+  const ext = path.extname(filePath).toLowerCase();
+  if (ext === '.csv' || ext === '.tsv') return parseCsv(text);
+  if (ext === '.json') return parseJson(text);
+  if (ext === '.yml' || ext === '.yaml') return parseAnsibleYaml(text);
+
+  const start = text.trimStart();
+  if (start.startsWith('{') || start.startsWith('[{')) return parseJson(text);
+  if (/^(---|[\w.-]+:\s*$)/.test(start.split(/\r?\n/)[0])) return parseAnsibleYaml(text);
+  return parseAnsibleIni(text);
+}
+
+// Best guess at the source column for each field (case-insensitive alias match)
+export function suggestMapping(columns: string[]): ImportMapping {
+  const mapping: ImportMapping = {};
+  const used = new Set<string>();
+  for (const field of Object.keys(FIELD_ALIASES) as ImportField[]) {
+    for (const alias of FIELD_ALIASES[field]) {
+      const column = columns.find((c) => c.toLowerCase().replace(/[\s-]+/g, '_') === alias && !used.has(c));
+      if (column) {
+        mapping[field] = column;
+        used.add(column);
+        break;
+      }
+    }
+  }
+  return mapping;
+}
+
+function joinFolder(...parts: (string | undefined)[]): string | undefined {
+  const folder = parts
+    .flatMap((part) => (part || '').split('/'))
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .join('/');
+  return folder || undefined;
+}
+
+// Map a record onto connection fields. Returns an error message for records that can't be used.
+export function mapRecord(record: InventoryRecord, options: ImportOptions): ImportedHost | string {
+  const get = (field: ImportField) => {
+    const column = options.mapping[field];
+    const value = column ? record.fields[column]?.trim() : undefined;
+    return value || undefined;
+  };
+
+  const host = get('host') || get('name');
+  if (!host) {
+    return 'No host';
+  }
+  const imported: ImportedHost = { name: get('name') || host, host };
+
+  const port = get('port');
+  if (port !== undefined) {
+    const parsed = Number(port);
+    if (!Number.isInteger(parsed) || parsed < 1 || parsed > 65535) {
+      return `Invalid port "${port}"`;
+    }
+    imported.port = parsed;
+  }
+  imported.username = get('username');
+  const privateKey = get('privateKey');
+  if (privateKey) {
+    imported.privateKey = expandHome(privateKey);
+  }
+
+  const groupFolder = options.groupsAs === 'folders' ? record.groups[0] : undefined;
+  imported.folder = joinFolder(options.parentFolder, groupFolder || get('folder'));
+
+  const tags = (get('tags') || '').split(/[,;\s]+/).filter(Boolean);
+  if (options.groupsAs === 'tags') {
+    record.groups.forEach((group) => tags.push(group.split('/').pop()!));
+  }
+  if (tags.length > 0) {
+    imported.tags = Array.from(new Set(tags));
+  }
+  return imported;
+}
+
+interface ImportTarget {
+  name: string;
+  host: string;
+  port: number;
+  username: string;
+  privateKey?: string;
+  folder?: string;
+  tags?: string[];
+}
+
+// Field changes an update would make. Tags are merged, never removed.
+function diffHost(existing: ImportTarget, imported: ImportedHost): ImportChange[] {
+  const changes: ImportChange[] = [];
+  const compare = (field: ImportField, from: string | undefined, to: string | undefined) => {
+    if (to !== undefined && from !== to) changes.push({ field, from, to });
+  };
+  compare('host', existing.host, imported.host);
+  compare('port', String(existing.port), imported.port !== undefined ? String(imported.port) : undefined);
+  compare('username', existing.username, imported.username);
+  compare('privateKey', existing.privateKey, imported.privateKey);
+  compare('folder', existing.folder, imported.folder);
+  if (imported.tags) {
+    const merged = Array.from(new Set([...(existing.tags || []), ...imported.tags]));
+    if (merged.length !== (existing.tags || []).length) {
+      changes.push({ field: 'tags', from: existing.tags?.join(', '), to: merged.join(', ') });
+    }
+  }
+  return changes;
+}
+
+// Dry run: match each record against the saved connections by host, port and user (falling
+// back to the name) and work out what importing it would do
+export function planImport<T extends ImportTarget>(records: InventoryRecord[], options: ImportOptions, existing: T[], defaultUser: string): ImportPlanEntry<T>[] {
+  const seen = new Map<string, string>(); // host:port:user -> label of the first record
+  const matched = new Set<T>();
+
+  return records.map((record): ImportPlanEntry<T> => {
+    const mapped = mapRecord(record, options);
+    if (typeof mapped === 'string') {
+      return { label: record.label, action: 'skip', reason: mapped };
+    }
+
+    const key = `${mapped.host}:${mapped.port ?? 22}:${mapped.username ?? ''}`.toLowerCase();
+    const first = seen.get(key);
+    if (first) {
+      return { label: record.label, action: 'skip', host: mapped, reason: `Same host as ${first}` };
+    }
+    seen.set(key, record.label);
+
+    const match = existing.find((c) =>
+      !matched.has(c) && c.host === mapped.host && c.port === (mapped.port ?? 22) && (!mapped.username || c.username === mapped.username)
+    ) || existing.find((c) => !matched.has(c) && c.name.toLowerCase() === mapped.name.toLowerCase());
+
+    if (!match) {
+      return { label: record.label, action: 'add', host: { ...mapped, port: mapped.port ?? 22, username: mapped.username || defaultUser } };
+    }
+    matched.add(match);
+    const changes = diffHost(match, mapped);
+    return { label: record.label, action: changes.length > 0 ? 'update' : 'unchanged', host: mapped, existing: match, changes };
+  });
+}
@@ -0,0 +1,51 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Local Console profiles: the program a local tab runs, with its arguments, extra environment
+// and starting folder. A profile without a command runs the platform's default shell.
+
+export interface LocalProfile {
+  id: string;
+  name: string;
+  command?: string; // Program to run; empty for $SHELL (cmd.exe on Windows)
+  args?: string[];
+  env?: Record<string, string>; // Added to the app's environment
+  cwd?: string; // Starting folder unless one was saved from the console; ~ is expanded
+}
+
+export interface LocalLaunch {
+  file: string;
+  args: string[];
+  cwd: string;
+  env: Record<string, string>;
+}
+
+export const DEFAULT_LOCAL_PROFILE_ID = 'default';
+
+export const defaultLocalProfiles: LocalProfile[] = [
+  { id: DEFAULT_LOCAL_PROFILE_ID, name: 'Default Shell' },
+];
+
+export function expandHome(dir: string): string {
+  if (dir === '~') return os.homedir();
+  if (dir.startsWith('~/') || dir.startsWith('~\\')) return path.join(os.homedir(), dir.slice(2));
+  return dir;
+}
+
+// savedPath is the folder last saved from a console running this profile, and wins over the
+// profile's own cwd; folders that no longer exist fall through to the home directory
+export function resolveLocalLaunch(profile: LocalProfile, savedPath?: string): LocalLaunch {
+  const isWindows = process.platform === 'win32';
+  const file = profile.command?.trim() || (isWindows ? 'cmd.exe' : (process.env.SHELL || '/bin/bash'));
+  const candidates = [savedPath, profile.cwd?.trim() ? expandHome(profile.cwd.trim()) : undefined];
+  const cwd = candidates.find((dir): dir is string => !!dir && fs.existsSync(dir)) || os.homedir();
+
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries(process.env)) {
+    if (value !== undefined) env[key] = value;
+  }
+  Object.assign(env, { TERM: 'xterm-256color', COLORTERM: 'truecolor' }, profile.env);
+
+  return { file, args: profile.args || [], cwd, env };
+}
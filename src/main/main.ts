@@ -1,11 +1,25 @@
-import { app, BrowserWindow, ipcMain, dialog, shell, nativeImage, clipboard } from 'electron';
+import { app, BrowserWindow, ipcMain, dialog, shell, nativeImage, clipboard, safeStorage } from 'electron';
 import * as path from 'path';
-import { Client, SFTPWrapper } from 'ssh2';
+import { AlgorithmList, Algorithms, AnyAuthMethod, AuthenticationType, AuthHandlerMiddleware, Client, ClientCallback, ClientChannel, ConnectConfig, SFTPWrapper, utils as sshUtils } from 'ssh2';
 import Store from 'electron-store';
 import * as fs from 'fs';
 import * as net from 'net';
+import * as dns from 'dns';
+import * as crypto from 'crypto';
+import * as os from 'os';
 import * as dotenv from 'dotenv';
-import { spawn, ChildProcess } from 'child_process';
+import * as pty from 'node-pty';
+import { Duplex } from 'stream';
+import { parseSshConfig, parseJumpSpec, formatSshConfig } from './sshConfig';
+import { ProxySettings, openProxySocket } from './proxy';
+import { TelnetSession } from './telnet';
+import { CastRecorder, CastRecording, parseCast, readCastHeader, timestampedFileName, fileSafeName } from './recording';
+import { SessionLog, SessionLogSettings } from './sessionLog';
+import { LocalProfile, DEFAULT_LOCAL_PROFILE_ID, defaultLocalProfiles, resolveLocalLaunch } from './localProfiles';
+import { ParsedCertificate, CertificateInfo, readCertificate, describeCertificate, getCertificateProblem, certificateMatchesKey, useCertificates } from './sshCert';
+import { ParsedInventory, ImportOptions, ImportChange, parseInventoryFile, suggestMapping, planImport } from './inventory';
+import { DiagnosticStage, DiagnosticStageId, createDiagnosticStages, getNetworkHint, getHandshakeHint, getAuthHint } from './diagnostics';
+import { VaultData, VaultMode, createSalt, deriveKey, seal, unseal, createCheck, verifyCheck, createSecretId } from './vault';
 
 // Load .env file from app root
 dotenv.config({ path: path.join(app.getAppPath(), '.env') });
@@ -16,10 +30,52 @@ interface Connection {
   host: string;
   port: number;
   username: string;
-  password?: string;
+  protocol?: 'ssh' | 'telnet'; // Defaults to 'ssh'
+  password?: string; // Only in transit from the renderer (or legacy stores) - persisted in the vault
+  passwordSecretId?: string;
   privateKey?: string;
+  certificate?: string; // OpenSSH certificate for privateKey (e.g. id_ed25519-cert.pub)
   avatarIcon?: string;
   avatarColor?: string;
+  jumpHosts?: string[]; // IDs of saved connections to hop through, in order
+  authMethod?: 'password' | 'key' | 'agent' | 'multiple'; // Defaults to 'key' when privateKey is set, else 'password'
+  authMethods?: AuthMethodEntry[]; // Tried in order when authMethod is 'multiple'
+  agentPath?: string; // Agent socket/pipe; falls back to SSH_AUTH_SOCK
+  agentForward?: boolean;
+  totpSecret?: string; // Base32 secret; auto-answers "Verification code" prompts. Persisted in the vault
+  totpSecretId?: string;
+  folder?: string; // Sidebar folder path, nested with '/' (e.g. "Prod/EU")
+  tags?: string[]; // Free-form labels such as env:prod or role:db
+  advanced?: AdvancedSettings;
+  proxy?: ProxySettings; // Unset = use the default proxy from Preferences, type 'none' = direct
+  proxyPassword?: string; // Persisted in the vault, like password
+  proxyPasswordSecretId?: string;
+  env?: Record<string, string>; // Sent with the shell request; the server must allow them via AcceptEnv
+  startupScript?: string; // Typed into new shells once the prompt appears
+  defaultDirectory?: string; // Working directory for new shells when no path is requested
+  persistentSession?: 'tmux' | 'screen'; // Run each terminal inside a named session it can reattach to
+  sessionLog?: SessionLogSettings; // Unset = no logging; each terminal gets its own text log
+}
+
+// One step of a connection's ordered auth list. Keys carry their own path (and certificate);
+// password and agent use the connection's saved password and agent path.
+type AuthMethodEntry =
+  | { type: 'key'; privateKey: string; certificate?: string }
+  | { type: 'agent' }
+  | { type: 'password' }
+  | { type: 'keyboard-interactive' };
+
+// Per-connection transport tuning. Algorithm lists use OpenSSH syntax: a plain comma-separated
+// list replaces ssh2's defaults, a leading '+' appends, '-' removes and '^' moves to the front.
+interface AdvancedSettings {
+  kexAlgorithms?: string;
+  ciphers?: string;
+  macs?: string;
+  hostKeyAlgorithms?: string;
+  compression?: boolean;
+  keepaliveInterval?: number; // Seconds, 0 disables keepalives
+  keepaliveCountMax?: number;
+  readyTimeout?: number; // Seconds to wait for the handshake to complete
 }
 
 interface Shortcut {
@@ -52,6 +108,27 @@ interface StoreSchema {
   lastPaths: Record<string, string>;
   packageShortcuts: PackageShortcut[];
   tabGroups: TabGroup[];
+  keyPassphrases: Record<string, string>; // keyPath -> safeStorage-encrypted passphrase (base64)
+  knownHosts: Record<string, KnownHostKey[]>; // "host:port" -> trusted host keys
+  vault: VaultData;
+  defaultProxy: DefaultProxy | null;
+  localProfiles: LocalProfile[];
+  localConsolePaths: Record<string, string>; // Local profile id -> starting folder saved from the console
+  /** @deprecated Single Local Console folder from before profiles; moved by migrateLocalConsolePath */
+  lastLocalConsolePath?: string;
+}
+
+// Proxy used by connections without their own proxy setting
+interface DefaultProxy extends ProxySettings {
+  password?: string; // Only before the vault is usable
+  passwordSecretId?: string;
+}
+
+interface KnownHostKey {
+  keyType: string;
+  fingerprint: string; // SHA256:<base64>, as printed by ssh-keygen -l
+  addedAt: number;
+  source?: 'app' | 'known_hosts';
 }
 
 const defaultPackageShortcuts: PackageShortcut[] = [
@@ -163,6 +240,12 @@ const store = new Store<StoreSchema>({
     lastPaths: {},
     packageShortcuts: defaultPackageShortcuts,
     tabGroups: [],
+    keyPassphrases: {},
+    knownHosts: {},
+    vault: { secrets: {} },
+    defaultProxy: null,
+    localProfiles: defaultLocalProfiles,
+    localConsolePaths: {},
   },
 });
 
@@ -181,25 +264,39 @@ interface Tunnel {
 }
 
 interface ShellSession {
-  stream: any;
+  stream: any; // ssh2 channel, or a TelnetSession for telnet connections
   connectionId: string;
+  persistentSession?: { tool: 'tmux' | 'screen'; name: string };
+  telnet?: boolean;
+}
+
+// How the renderer wants a shell opened. resume is set when a terminal reopens after a drop.
+interface ShellOpenOptions {
+  initialPath?: string;
+  cols?: number;
+  rows?: number;
+  sessionName?: string; // tmux/screen session for this pane, when the connection uses one
+  resume?: boolean;
 }
 
-const activeConnections: Map<string, { client: Client; sftp?: SFTPWrapper; pendingChannels?: number; tunnels?: Tunnel[] }> = new Map();
+const activeConnections: Map<string, { client: Client; sftp?: SFTPWrapper; pendingChannels?: number; tunnels?: Tunnel[]; jumpClients?: Client[] }> = new Map();
 const activeTunnels: Map<string, Tunnel> = new Map();
 const activeShells: Map<string, ShellSession> = new Map(); // shellId -> ShellSession
 const activeUploads: Map<string, { cancelled: boolean }> = new Map(); // uploadId -> upload state
 
 // Local shell sessions (personal console)
 interface LocalShellSession {
-  process: ChildProcess;
-  cols: number;
-  rows: number;
+  process: pty.IPty;
 }
 const activeLocalShells: Map<string, LocalShellSession> = new Map(); // shellId -> LocalShellSession
 
 // Channel limiter to prevent too many concurrent channels
 const MAX_CONCURRENT_CHANNELS = 5;
+
+// Transport defaults, overridable per connection (Connection.advanced)
+const DEFAULT_READY_TIMEOUT = 15; // seconds
+const DEFAULT_KEEPALIVE_INTERVAL = 10; // seconds
+const DEFAULT_KEEPALIVE_COUNT_MAX = 3;
 const channelQueue: Map<string, Array<() => void>> = new Map();
 
 async function waitForChannel(connectionId: string): Promise<void> {
@@ -272,404 +369,2215 @@ async function isConnectionAlive(connectionId: string): Promise<boolean> {
   });
 }
 
-// Reconnect a stale connection
-async function reconnectConnection(connectionId: string): Promise<boolean> {
-  const connections = store.get('connections');
-  const connection = connections.find((c) => c.id === connectionId);
+// Locate the local SSH agent: per-connection path, then SSH_AUTH_SOCK, then the Windows OpenSSH agent pipe
+function resolveAgentPath(connection: Connection): string | undefined {
+  if (connection.agentPath) return connection.agentPath;
+  if (process.env.SSH_AUTH_SOCK) return process.env.SSH_AUTH_SOCK;
+  if (process.platform === 'win32') return '\\\\.\\pipe\\openssh-ssh-agent';
+  return undefined;
+}
 
-  if (!connection) {
-    return false;
+// Pending prompts sent to the renderer (key unlock, ...), resolved via 'prompt:respond'
+const pendingPrompts: Map<string, (response: any) => void> = new Map();
+
+// Ask the focused window for input and wait for the answer. Resolves null if the window goes away.
+function requestFromRenderer<T>(channel: string, payload: Record<string, unknown>): Promise<T | null> {
+  const win = BrowserWindow.getFocusedWindow() || mainWindow || Array.from(allWindows)[0];
+  if (!win || win.isDestroyed()) {
+    return Promise.resolve(null);
   }
 
-  // Clean up old connection
-  const oldConn = activeConnections.get(connectionId);
-  if (oldConn) {
+  const requestId = `prompt-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  return new Promise((resolve) => {
+    const onDestroyed = () => {
+      pendingPrompts.delete(requestId);
+      resolve(null);
+    };
+    pendingPrompts.set(requestId, (response) => {
+      win.webContents.removeListener('destroyed', onDestroyed);
+      resolve(response);
+    });
+    win.webContents.once('destroyed', onDestroyed);
+    win.webContents.send(channel, { requestId, ...payload });
+  });
+}
+
+// Passphrases cached for this app session only (keyPath -> passphrase)
+const sessionPassphrases: Map<string, string> = new Map();
+
+type PassphraseRemember = 'none' | 'session' | 'store';
+
+function getRememberedPassphrase(keyPath: string): string | undefined {
+  const cached = sessionPassphrases.get(keyPath);
+  if (cached !== undefined) return cached;
+
+  const stored = store.get('keyPassphrases')[keyPath];
+  if (stored && safeStorage.isEncryptionAvailable()) {
     try {
-      oldConn.client.end();
+      return safeStorage.decryptString(Buffer.from(stored, 'base64'));
     } catch (e) {
-      // Ignore errors when closing stale connection
+      // Encrypted with another OS user/keychain - ignore and prompt again
     }
-    activeConnections.delete(connectionId);
   }
+  return undefined;
+}
 
-  // Clear any pending channel queues
-  channelQueue.delete(connectionId);
-
-  // Close all shells associated with this connection
-  for (const [shellId, shell] of activeShells.entries()) {
-    if (shell.connectionId === connectionId) {
-      try {
-        shell.stream.end();
-      } catch (e) {
-        // Ignore
-      }
-      activeShells.delete(shellId);
-    }
+function rememberPassphrase(keyPath: string, passphrase: string, remember: PassphraseRemember): void {
+  if (remember === 'none') return;
+  sessionPassphrases.set(keyPath, passphrase);
+  if (remember === 'store' && safeStorage.isEncryptionAvailable()) {
+    const encrypted = safeStorage.encryptString(passphrase).toString('base64');
+    store.set('keyPassphrases', { ...store.get('keyPassphrases'), [keyPath]: encrypted });
   }
+}
 
-  // Establish new connection
-  return new Promise((resolve) => {
-    const client = new Client();
+function forgetPassphrase(keyPath: string): void {
+  sessionPassphrases.delete(keyPath);
+  const stored = store.get('keyPassphrases');
+  if (stored[keyPath]) {
+    const { [keyPath]: _removed, ...rest } = stored;
+    store.set('keyPassphrases', rest);
+  }
+}
 
-    const timeout = setTimeout(() => {
-      client.end();
-      resolve(false);
-    }, 10000);
+// Credential vault - connection passwords and TOTP secrets are stored sealed, connections
+// only keep the secret IDs. In master-password mode the derived key is held while unlocked;
+// safeStorage vaults are unlocked at startup when the OS can decrypt them.
+let vaultKey: Buffer | null = null;
+let vaultUnlocked = false;
+
+type SecretField = 'password' | 'totpSecret' | 'proxyPassword';
+const SECRET_FIELDS: { field: SecretField; idField: 'passwordSecretId' | 'totpSecretId' | 'proxyPasswordSecretId' }[] = [
+  { field: 'password', idField: 'passwordSecretId' },
+  { field: 'totpSecret', idField: 'totpSecretId' },
+  { field: 'proxyPassword', idField: 'proxyPasswordSecretId' },
+];
 
-    client.on('ready', () => {
-      clearTimeout(timeout);
-      activeConnections.set(connectionId, { client, pendingChannels: 0 });
-      console.log(`Reconnected to ${connection.name} (${connectionId})`);
-      resolve(true);
-    });
+function hasPlaintextSecrets(connection: Connection): boolean {
+  return SECRET_FIELDS.some(({ field }) => connection[field]);
+}
 
-    client.on('error', (err) => {
-      clearTimeout(timeout);
-      console.error(`Reconnection failed for ${connection.name}:`, err.message);
-      resolve(false);
-    });
+function isVaultLocked(): boolean {
+  return !!store.get('vault').mode && !vaultUnlocked;
+}
 
-    const config: any = {
-      host: connection.host,
-      port: connection.port,
-      username: connection.username,
-      readyTimeout: 10000,
-      keepaliveInterval: 10000,
-      keepaliveCountMax: 3,
-    };
+function getVaultStatus() {
+  const vault = store.get('vault');
+  return {
+    mode: vault.mode || null,
+    locked: isVaultLocked(),
+    safeStorageAvailable: safeStorage.isEncryptionAvailable(),
+    secretCount: Object.keys(vault.secrets).length,
+    plaintextCount: store.get('connections').filter(hasPlaintextSecrets).length + (store.get('defaultProxy')?.password ? 1 : 0),
+  };
+}
 
-    if (connection.privateKey) {
-      try {
-        config.privateKey = fs.readFileSync(connection.privateKey);
-      } catch (err) {
-        clearTimeout(timeout);
-        resolve(false);
-        return;
-      }
-    } else if (connection.password) {
-      config.password = connection.password;
+function broadcastVaultStatus(): void {
+  const status = getVaultStatus();
+  allWindows.forEach((win) => {
+    if (!win.isDestroyed()) {
+      win.webContents.send('vault:status', status);
     }
-
-    client.connect(config);
   });
 }
 
-function createWindow(): void {
-  // Icon path differs between dev and production
-  const iconPath = app.isPackaged
-    ? path.join(process.resourcesPath, 'icon.ico')
-    : path.join(__dirname, '../../build/icon.ico');
+function sealSecret(mode: VaultMode, value: string): string {
+  if (mode === 'safeStorage') {
+    return safeStorage.encryptString(value).toString('base64');
+  }
+  return seal(vaultKey!, value);
+}
 
-  mainWindow = new BrowserWindow({
-    width: 1400,
-    height: 900,
-    minWidth: 1000,
-    minHeight: 700,
-    frame: false,
-    backgroundColor: '#1a1b26',
-    icon: iconPath,
-    webPreferences: {
-      nodeIntegration: false,
-      contextIsolation: true,
-      preload: path.join(__dirname, 'preload.js'),
-    },
-  });
+function unsealSecret(mode: VaultMode, sealed: string): string {
+  if (mode === 'safeStorage') {
+    return safeStorage.decryptString(Buffer.from(sealed, 'base64'));
+  }
+  return unseal(vaultKey!, sealed);
+}
 
-  allWindows.add(mainWindow);
+function unlockVault(masterPassword?: string): boolean {
+  const vault = store.get('vault');
+  if (vault.mode === 'master') {
+    if (!masterPassword || !vault.salt || !vault.check) return false;
+    const key = deriveKey(masterPassword, vault.salt);
+    if (!verifyCheck(key, vault.check)) return false;
+    vaultKey = key;
+  } else if (vault.mode === 'safeStorage' && !safeStorage.isEncryptionAvailable()) {
+    return false;
+  }
+  vaultUnlocked = true;
+  migrateConnectionSecrets();
+  broadcastVaultStatus();
+  return true;
+}
 
-  if (process.env.NODE_ENV === 'development') {
-    mainWindow.loadURL('http://localhost:3000');
-  } else {
-    mainWindow.loadFile(path.join(__dirname, '../renderer/index.html'));
+function lockVault(): void {
+  vaultKey = null;
+  vaultUnlocked = false;
+  broadcastVaultStatus();
+}
+
+// Set up the vault, or switch an unlocked vault to another mode (re-sealing every secret)
+function configureVault(mode: VaultMode, masterPassword?: string): void {
+  const vault = store.get('vault');
+  if (isVaultLocked()) {
+    throw new Error('Unlock the vault first');
+  }
+  if (mode === 'safeStorage' && !safeStorage.isEncryptionAvailable()) {
+    throw new Error('OS-level encryption is not available on this system');
+  }
+  if (mode === 'master' && !masterPassword) {
+    throw new Error('A master password is required');
   }
 
-  // Open DevTools if ENV is set to development in .env
-  if (process.env.ENV === 'development') {
-    mainWindow.webContents.openDevTools();
+  const plain: Record<string, string> = {};
+  if (vault.mode) {
+    for (const [id, sealed] of Object.entries(vault.secrets)) {
+      plain[id] = unsealSecret(vault.mode, sealed);
+    }
   }
 
-  mainWindow.on('closed', () => {
-    allWindows.delete(mainWindow!);
-    mainWindow = null;
-  });
+  const next: VaultData = { mode, secrets: {} };
+  if (mode === 'master') {
+    next.salt = createSalt();
+    vaultKey = deriveKey(masterPassword!, next.salt);
+    next.check = createCheck(vaultKey);
+  } else {
+    vaultKey = null;
+  }
+  for (const [id, value] of Object.entries(plain)) {
+    next.secrets[id] = sealSecret(mode, value);
+  }
 
-  // Intercept Ctrl+Shift+C to prevent DevTools inspect element and allow terminal copy
-  mainWindow.webContents.on('before-input-event', (event, input) => {
-    if (input.control && input.shift && input.key.toLowerCase() === 'c') {
-      // Don't prevent - let the renderer handle it
-      // But we need to prevent DevTools from capturing it
-      event.preventDefault();
-      // Send to renderer to handle copy
-      mainWindow?.webContents.send('terminal-copy');
+  store.set('vault', next);
+  vaultUnlocked = true;
+  migrateConnectionSecrets();
+  broadcastVaultStatus();
+}
+
+// Ask the user to unlock the vault when a secret is needed while it's locked
+async function ensureVaultUnlocked(onUserPrompt?: () => void): Promise<void> {
+  let error: string | undefined;
+  while (isVaultLocked()) {
+    onUserPrompt?.();
+    const response = await requestFromRenderer<{ masterPassword?: string }>('vault:unlockPrompt', {
+      mode: store.get('vault').mode,
+      error,
+    });
+    if (!response) {
+      throw new Error('Credential vault is locked');
     }
-  });
+    if (!unlockVault(response.masterPassword)) {
+      error = 'Incorrect master password';
+    }
+  }
 }
 
-function createDetachedWindow(connectionId: string, mode: string = 'terminal'): BrowserWindow {
-  const iconPath = app.isPackaged
-    ? path.join(process.resourcesPath, 'icon.ico')
-    : path.join(__dirname, '../../build/icon.ico');
+// Resolve a connection's password / TOTP secret from the vault (or a not yet migrated plaintext value)
+async function getConnectionSecret(connection: Connection, field: SecretField, onUserPrompt?: () => void): Promise<string | undefined> {
+  const { idField } = SECRET_FIELDS.find((f) => f.field === field)!;
+  const secretId = connection[idField];
+  if (!secretId) {
+    return connection[field];
+  }
+  return readSecret(secretId, onUserPrompt);
+}
 
-  const newWindow = new BrowserWindow({
-    width: 1200,
-    height: 800,
-    minWidth: 800,
-    minHeight: 600,
-    frame: false,
-    backgroundColor: '#1a1b26',
-    icon: iconPath,
-    webPreferences: {
-      nodeIntegration: false,
-      contextIsolation: true,
-      preload: path.join(__dirname, 'preload.js'),
-    },
-  });
+async function readSecret(secretId: string, onUserPrompt?: () => void): Promise<string | undefined> {
+  const vault = store.get('vault');
+  const sealed = vault.secrets[secretId];
+  if (!sealed || !vault.mode) {
+    return undefined;
+  }
+  await ensureVaultUnlocked(onUserPrompt);
+  return unsealSecret(vault.mode, sealed);
+}
 
-  allWindows.add(newWindow);
+// True when new secrets can be sealed right now. A fresh vault uses safeStorage when available.
+function canSealSecrets(): boolean {
+  const vault = store.get('vault');
+  if (!vault.mode) {
+    if (!safeStorage.isEncryptionAvailable()) return false;
+    store.set('vault', { mode: 'safeStorage', secrets: vault.secrets });
+    vaultUnlocked = true;
+    return true;
+  }
+  return !isVaultLocked();
+}
 
-  // Pass connection info via query params
-  const queryParams = `?connectionId=${encodeURIComponent(connectionId)}&mode=${encodeURIComponent(mode)}&detached=true`;
+// Move plaintext secrets of a connection into the vault. Secrets the previous version of the
+// connection referenced but this one doesn't are deleted.
+function storeConnectionSecrets(connection: Connection, previous?: Connection): Connection {
+  const result: Connection = { ...connection };
+  const sealable = SECRET_FIELDS.some(({ field }) => result[field]) && canSealSecrets();
+  const vault = store.get('vault');
+
+  for (const { field, idField } of SECRET_FIELDS) {
+    const value = result[field];
+    if (value && sealable && vault.mode) {
+      const secretId = result[idField] || previous?.[idField] || createSecretId();
+      vault.secrets[secretId] = sealSecret(vault.mode, value);
+      result[idField] = secretId;
+      delete result[field];
+    } else if (value) {
+      // No usable vault yet - keep the legacy plaintext value until one is set up
+      delete result[idField];
+    }
 
-  if (process.env.NODE_ENV === 'development') {
-    newWindow.loadURL(`http://localhost:3000${queryParams}`);
-  } else {
-    newWindow.loadFile(path.join(__dirname, '../renderer/index.html'), {
-      query: { connectionId, mode, detached: 'true' }
-    });
+    const previousId = previous?.[idField];
+    if (previousId && previousId !== result[idField]) {
+      delete vault.secrets[previousId];
+    }
   }
 
-  if (process.env.ENV === 'development') {
-    newWindow.webContents.openDevTools();
+  store.set('vault', vault);
+  return result;
+}
+
+function deleteConnectionSecrets(connection: Connection): void {
+  const vault = store.get('vault');
+  for (const { idField } of SECRET_FIELDS) {
+    const secretId = connection[idField];
+    if (secretId) delete vault.secrets[secretId];
   }
+  store.set('vault', vault);
+}
 
-  newWindow.on('closed', () => {
-    allWindows.delete(newWindow);
-  });
+// Secret ids in a pulled config point into the vault of the machine that pushed it. Connections
+// that exist here keep their local ids; ids this vault doesn't hold are dropped. A plaintext
+// value in the pulled entry (older configs) wins and gets sealed by migrateConnectionSecrets.
+function mergePulledSecretIds(pulled: Connection, local?: Connection): Connection {
+  const result: Connection = { ...pulled };
+  const { secrets } = store.get('vault');
+  for (const { field, idField } of SECRET_FIELDS) {
+    if (result[field]) continue;
+    const pulledId = result[idField] && secrets[result[idField]!] ? result[idField] : undefined;
+    const secretId = local?.[idField] || pulledId;
+    if (secretId) {
+      result[idField] = secretId;
+    } else {
+      delete result[idField];
+    }
+  }
+  return result;
+}
 
-  // Intercept Ctrl+Shift+C to prevent DevTools inspect element and allow terminal copy
-  newWindow.webContents.on('before-input-event', (event, input) => {
-    if (input.control && input.shift && input.key.toLowerCase() === 'c') {
-      event.preventDefault();
-      newWindow.webContents.send('terminal-copy');
+// Delete vault entries no connection (or the default proxy) refers to any more
+function pruneUnusedSecrets(): void {
+  const used = new Set<string>();
+  for (const connection of store.get('connections')) {
+    for (const { idField } of SECRET_FIELDS) {
+      const secretId = connection[idField];
+      if (secretId) used.add(secretId);
     }
-  });
+  }
+  const proxySecretId = store.get('defaultProxy')?.passwordSecretId;
+  if (proxySecretId) used.add(proxySecretId);
+
+  const vault = store.get('vault');
+  const unused = Object.keys(vault.secrets).filter((secretId) => !used.has(secretId));
+  if (unused.length === 0) return;
+  for (const secretId of unused) delete vault.secrets[secretId];
+  store.set('vault', vault);
+}
 
-  return newWindow;
+// Migration for stores written before the vault existed: seal any plaintext secrets
+function migrateConnectionSecrets(): void {
+  const connections = store.get('connections');
+  const defaultProxy = store.get('defaultProxy');
+  if ((!connections.some(hasPlaintextSecrets) && !defaultProxy?.password) || !canSealSecrets()) {
+    return;
+  }
+  store.set('connections', connections.map((c) => storeConnectionSecrets(c, c)));
+  if (defaultProxy?.password) {
+    store.set('defaultProxy', storeDefaultProxySecret(defaultProxy, defaultProxy));
+  }
 }
 
-app.whenReady().then(createWindow);
+// Seal the default proxy's password, same rules as storeConnectionSecrets
+function storeDefaultProxySecret(proxy: DefaultProxy, previous?: DefaultProxy | null): DefaultProxy {
+  const result: DefaultProxy = { ...proxy };
+  const sealable = !!result.password && canSealSecrets();
+  const vault = store.get('vault');
+
+  if (result.password && sealable && vault.mode) {
+    const secretId = result.passwordSecretId || previous?.passwordSecretId || createSecretId();
+    vault.secrets[secretId] = sealSecret(vault.mode, result.password);
+    result.passwordSecretId = secretId;
+    delete result.password;
+  } else if (result.password) {
+    delete result.passwordSecretId;
+  }
 
-app.on('window-all-closed', () => {
-  // Close all SSH connections
-  activeConnections.forEach((conn) => {
-    conn.client.end();
-  });
-  activeConnections.clear();
+  if (previous?.passwordSecretId && previous.passwordSecretId !== result.passwordSecretId) {
+    delete vault.secrets[previous.passwordSecretId];
+  }
+  store.set('vault', vault);
+  return result;
+}
 
-  if (process.platform !== 'darwin') {
-    app.quit();
+// Read a private key, unlocking it with a cached passphrase or by prompting the user. With
+// canRemember off (connection test) the prompt offers no remembering and nothing is cached or forgotten.
+async function loadPrivateKey(connection: Connection, keyPath: string, onUserPrompt?: () => void, canRemember = true): Promise<{ privateKey: Buffer; passphrase?: string }> {
+  let privateKey: Buffer;
+  try {
+    privateKey = fs.readFileSync(keyPath);
+  } catch (err) {
+    throw new Error('Failed to read private key file');
   }
-});
 
-app.on('activate', () => {
-  if (mainWindow === null) {
-    createWindow();
+  const parsed = sshUtils.parseKey(privateKey);
+  if (!(parsed instanceof Error)) {
+    return { privateKey };
+  }
+  if (!/no passphrase given/i.test(parsed.message)) {
+    throw new Error(`Invalid private key: ${parsed.message}`);
   }
-});
 
-// Window controls - use sender window, not mainWindow
-ipcMain.handle('window:minimize', (event) => {
-  const window = BrowserWindow.fromWebContents(event.sender);
-  window?.minimize();
-});
+  let passphrase = getRememberedPassphrase(keyPath);
+  let remember: PassphraseRemember = 'none';
+  let error: string | undefined;
 
-ipcMain.handle('window:maximize', (event) => {
-  const window = BrowserWindow.fromWebContents(event.sender);
-  if (window?.isMaximized()) {
-    window.unmaximize();
-  } else {
-    window?.maximize();
+  while (true) {
+    if (passphrase !== undefined) {
+      if (!(sshUtils.parseKey(privateKey, passphrase) instanceof Error)) {
+        if (canRemember) rememberPassphrase(keyPath, passphrase, remember);
+        return { privateKey, passphrase };
+      }
+      if (canRemember) forgetPassphrase(keyPath);
+      error = 'Incorrect passphrase. Please try again.';
+    }
+
+    onUserPrompt?.();
+    const response = await requestFromRenderer<{ passphrase: string; remember: PassphraseRemember }>('auth:passphrasePrompt', {
+      connectionName: connection.name,
+      keyPath,
+      error,
+      canStore: safeStorage.isEncryptionAvailable(),
+      canRemember,
+    });
+    if (!response) {
+      throw new Error('Private key is encrypted and no passphrase was entered');
+    }
+    passphrase = response.passphrase;
+    remember = canRemember ? response.remember : 'none';
   }
-});
+}
 
-ipcMain.handle('window:close', (event) => {
-  const window = BrowserWindow.fromWebContents(event.sender);
-  window?.close();
-});
+// Decode an RFC 4648 base32 string (as shown by Google Authenticator setup)
+function decodeBase32(input: string): Buffer {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = alphabet.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid TOTP secret');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
 
-ipcMain.handle('window:createNew', (_event, connectionId: string, mode: string = 'terminal') => {
-  const newWindow = createDetachedWindow(connectionId, mode);
-  return { success: true, windowId: newWindow.id };
-});
+// Current 6-digit TOTP code (RFC 6238, SHA-1, 30s step)
+function generateTotp(secret: string): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(Math.floor(Date.now() / 1000 / 30)));
 
-// Connection management
-ipcMain.handle('connections:getAll', () => {
-  return store.get('connections');
-});
+  const hmac = crypto.createHmac('sha1', decodeBase32(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 1000000;
+  return code.toString().padStart(6, '0');
+}
 
-ipcMain.handle('connections:save', (_event, connection: Connection) => {
-  const connections = store.get('connections');
-  const existingIndex = connections.findIndex((c) => c.id === connection.id);
+// Keyboard-interactive prompts asking for a TOTP code. Specific phrases only - a bare "token"
+// would also catch hardware token PIN prompts.
+const TOTP_PROMPT = /verification code|one[- ]time|\botp\b|authenticator/i;
 
-  if (existingIndex >= 0) {
-    connections[existingIndex] = connection;
-  } else {
-    connections.push(connection);
-  }
+function knownHostKey(host: string, port: number): string {
+  return `${host}:${port}`;
+}
 
-  store.set('connections', connections);
-  return connections;
-});
+function hostKeyFingerprint(key: Buffer): string {
+  return `SHA256:${crypto.createHash('sha256').update(key).digest('base64').replace(/=+$/, '')}`;
+}
 
-ipcMain.handle('connections:delete', (_event, id: string) => {
-  const connections = store.get('connections').filter((c) => c.id !== id);
-  store.set('connections', connections);
+// The key blob starts with its type as an SSH string (uint32 length + name)
+function hostKeyType(key: Buffer): string {
+  try {
+    const length = key.readUInt32BE(0);
+    return key.subarray(4, 4 + length).toString('ascii');
+  } catch (err) {
+    return 'unknown';
+  }
+}
+
+function trustHostKey(host: string, port: number, keyType: string, fingerprint: string, source: KnownHostKey['source'] = 'app'): boolean {
+  const knownHosts = store.get('knownHosts');
+  const id = knownHostKey(host, port);
+  const keys = knownHosts[id] || [];
+  if (keys.some((k) => k.keyType === keyType && k.fingerprint === fingerprint)) {
+    return false;
+  }
+  knownHosts[id] = [...keys.filter((k) => k.keyType !== keyType), { keyType, fingerprint, addedAt: Date.now(), source }];
+  store.set('knownHosts', knownHosts);
+  return true;
+}
+
+interface HostKeyCheck {
+  keyType: string;
+  fingerprint: string;
+  status: 'trusted' | 'new' | 'changed';
+  knownFingerprint?: string; // Trusted fingerprint for this key type, when it changed
+}
+
+// Compare the server's host key with the known-hosts store, without changing it
+function checkHostKey(connection: Connection, key: Buffer): HostKeyCheck {
+  const keyType = hostKeyType(key);
+  const fingerprint = hostKeyFingerprint(key);
+  const known = store.get('knownHosts')[knownHostKey(connection.host, connection.port)] || [];
+
+  if (known.some((k) => k.keyType === keyType && k.fingerprint === fingerprint)) {
+    return { keyType, fingerprint, status: 'trusted' };
+  }
+  const previous = known.find((k) => k.keyType === keyType);
+  return previous
+    ? { keyType, fingerprint, status: 'changed', knownFingerprint: previous.fingerprint }
+    : { keyType, fingerprint, status: 'new' };
+}
+
+// What a handshake may store. Both default to on; the connection test turns them off.
+interface HandshakeOptions {
+  trustHostKeys?: boolean; // Save host keys the user accepts to known hosts
+  rememberPassphrases?: boolean; // Offer to remember key passphrases
+}
+
+// Check the server's host key against the known-hosts store. Unknown keys are shown to the
+// user for trust-on-first-use; a key that differs from the trusted one for its type is refused.
+// With trustHostKeys off an accepted key is used for this handshake only.
+async function verifyHostKey(connection: Connection, key: Buffer, onUserPrompt: () => void, options: HandshakeOptions = {}): Promise<boolean> {
+  const { keyType, fingerprint, status, knownFingerprint } = checkHostKey(connection, key);
+  if (status === 'trusted') {
+    return true;
+  }
+
+  onUserPrompt();
+
+  if (status === 'changed') {
+    console.error(`HOST KEY CHANGED for ${connection.host}:${connection.port} - expected ${knownFingerprint}, got ${fingerprint}`);
+    await requestFromRenderer<boolean>('auth:hostKeyPrompt', {
+      connectionName: connection.name,
+      host: connection.host,
+      port: connection.port,
+      keyType,
+      fingerprint,
+      status: 'changed',
+      knownFingerprint,
+    });
+    return false;
+  }
+
+  const trusted = await requestFromRenderer<boolean>('auth:hostKeyPrompt', {
+    connectionName: connection.name,
+    host: connection.host,
+    port: connection.port,
+    keyType,
+    fingerprint,
+    status: 'new',
+  });
+  if (trusted && options.trustHostKeys !== false) {
+    trustHostKey(connection.host, connection.port, keyType, fingerprint);
+  }
+  return !!trusted;
+}
+
+// The user may take a while to answer a prompt - stop ssh2's handshake timer so it doesn't time
+// out under them. The timer lives on a private Client field that @types/ssh2 doesn't declare.
+function pauseReadyTimeout(client: Client): void {
+  clearTimeout((client as unknown as { _readyTimeout?: NodeJS.Timeout })._readyTimeout);
+}
+
+// The server software from its identification line (e.g. "OpenSSH_9.6"), once received. Also a
+// private Client field.
+function getRemoteVersion(client: Client): string | undefined {
+  return (client as unknown as { _remoteVer?: string })._remoteVer;
+}
+
+// Hook up everything that may need the user mid-handshake: host key verification and
+// keyboard-interactive auth (PAM, 2FA). Saved password and TOTP secret fill the prompts
+// they match; anything else is forwarded to the renderer.
+function attachUserPrompts(client: Client, config: ConnectConfig, connection: Connection, onUserPrompt?: () => void, options: HandshakeOptions = {}): void {
+  const pauseTimeouts = () => {
+    pauseReadyTimeout(client);
+    onUserPrompt?.();
+  };
+
+  config.hostVerifier = (key: Buffer, verify: (valid: boolean) => void) => {
+    verifyHostKey(connection, key, pauseTimeouts, options)
+      .then(verify)
+      .catch(() => verify(false));
+  };
+
+  client.on('keyboard-interactive', async (name, instructions, _lang, prompts, finish) => {
+    let password: string | undefined;
+    let totpSecret: string | undefined;
+    try {
+      password = await getConnectionSecret(connection, 'password', pauseTimeouts);
+      totpSecret = await getConnectionSecret(connection, 'totpSecret', pauseTimeouts);
+    } catch (err) {
+      // Vault stayed locked - fall back to asking for everything
+    }
+
+    const answers: (string | undefined)[] = prompts.map(({ prompt }) => {
+      if (totpSecret && TOTP_PROMPT.test(prompt)) {
+        try {
+          return generateTotp(totpSecret);
+        } catch (err) {
+          return undefined;
+        }
+      }
+      if (password && /password/i.test(prompt)) {
+        return password;
+      }
+      return undefined;
+    });
+
+    const unanswered = prompts
+      .map((p, index) => ({ index, prompt: p.prompt, echo: !!p.echo }))
+      .filter(({ index }) => answers[index] === undefined);
+
+    if (unanswered.length > 0) {
+      pauseTimeouts();
+
+      const response = await requestFromRenderer<string[]>('auth:keyboardInteractive', {
+        connectionName: connection.name,
+        name,
+        instructions,
+        prompts: unanswered.map(({ prompt, echo }) => ({ prompt, echo })),
+      });
+      if (!response) {
+        // Cancelled - empty answers make the server reject this attempt
+        finish(prompts.map(() => ''));
+        return;
+      }
+      unanswered.forEach(({ index }, i) => {
+        answers[index] = response[i] ?? '';
+      });
+    }
+
+    finish(answers.map((a) => a ?? ''));
+  });
+}
+
+// Turn an OpenSSH-style algorithm list into ssh2's AlgorithmList form (undefined = defaults)
+function parseAlgorithmList(value?: string): AlgorithmList<any> | undefined {
+  const trimmed = (value || '').trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  const op = trimmed[0];
+  const names = (/[+\-^]/.test(op) ? trimmed.slice(1) : trimmed)
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  if (names.length === 0) {
+    return undefined;
+  }
+
+  // ssh2 accepts any subset of append/prepend/remove, its typings want all three
+  switch (op) {
+    case '+': return { append: names } as AlgorithmList<any>;
+    case '-': return { remove: names } as AlgorithmList<any>;
+    case '^': return { prepend: names } as AlgorithmList<any>;
+    default: return names;
+  }
+}
+
+// Timeouts, keepalives and algorithm preferences shared by every connect path
+function buildTransportConfig(advanced: AdvancedSettings = {}): ConnectConfig {
+  const config: ConnectConfig = {
+    readyTimeout: (advanced.readyTimeout ?? DEFAULT_READY_TIMEOUT) * 1000,
+    keepaliveInterval: (advanced.keepaliveInterval ?? DEFAULT_KEEPALIVE_INTERVAL) * 1000,
+    keepaliveCountMax: advanced.keepaliveCountMax ?? DEFAULT_KEEPALIVE_COUNT_MAX,
+  };
+
+  const algorithms: Algorithms = {};
+  const kex = parseAlgorithmList(advanced.kexAlgorithms);
+  const cipher = parseAlgorithmList(advanced.ciphers);
+  const hmac = parseAlgorithmList(advanced.macs);
+  const serverHostKey = parseAlgorithmList(advanced.hostKeyAlgorithms);
+  if (kex) algorithms.kex = kex;
+  if (cipher) algorithms.cipher = cipher;
+  if (hmac) algorithms.hmac = hmac;
+  if (serverHostKey) algorithms.serverHostKey = serverHostKey;
+  if (advanced.compression) {
+    algorithms.compress = ['zlib@openssh.com', 'zlib', 'none'];
+  }
+  if (Object.keys(algorithms).length > 0) {
+    config.algorithms = algorithms;
+  }
+
+  return config;
+}
+
+// ssh2 config plus the certificates (by path) to offer with their keys; attachAuthSequence()
+// sets up both
+// ssh2 calls the authHandler with null on the first round and takes false for "no methods
+// left". @types/ssh2 allows neither, so the handler is typed with this and cast when assigned.
+type AuthHandler = (
+  methodsLeft: AuthenticationType[] | null,
+  partialSuccess: boolean | null,
+  callback: (method: AuthenticationType | AnyAuthMethod | false) => void,
+) => void;
+
+interface SshConnectConfig extends ConnectConfig {
+  certificates?: Map<string, ParsedCertificate>;
+}
+
+// Load a certificate and make sure it can be used right now
+function loadCertificate(certPath: string): ParsedCertificate {
+  let cert: ParsedCertificate;
+  try {
+    cert = readCertificate(certPath);
+  } catch (err: any) {
+    throw new Error(`Invalid certificate: ${err.message}`);
+  }
+  const problem = getCertificateProblem(cert);
+  if (problem) {
+    throw new Error(problem);
+  }
+  return cert;
+}
+
+// The auth methods to try, in order. Single-method connections try their method, then the agent
+// (when forwarding) and keyboard-interactive, as ssh2's default handler did.
+function getAuthSequence(connection: Connection): AuthMethodEntry[] {
+  if (connection.authMethod === 'multiple') {
+    return connection.authMethods || [];
+  }
+  const authMethod = connection.authMethod || (connection.privateKey ? 'key' : 'password');
+  const sequence: AuthMethodEntry[] = [];
+  if (authMethod === 'key') {
+    if (connection.privateKey) {
+      sequence.push({ type: 'key', privateKey: connection.privateKey, certificate: connection.certificate });
+    }
+  } else {
+    sequence.push({ type: authMethod });
+  }
+  if (connection.agentForward && authMethod !== 'agent') {
+    sequence.push({ type: 'agent' });
+  }
+  sequence.push({ type: 'keyboard-interactive' });
+  return sequence;
+}
+
+function describeAuthMethod(entry: AuthMethodEntry): string {
+  return entry.type === 'key' ? `key ${path.basename(entry.privateKey)}` : entry.type;
+}
+
+// Name the server uses for the method in its "can continue" list
+function getServerAuthMethod(entry: AuthMethodEntry): string {
+  return entry.type === 'key' || entry.type === 'agent' ? 'publickey' : entry.type;
+}
+
+// Credentials for one attempt, loaded only when its turn comes so a passphrase is asked for
+// only if the key is actually tried
+async function prepareAuthMethod(client: Client, config: SshConnectConfig, connection: Connection, entry: AuthMethodEntry, onUserPrompt: () => void, canRemember: boolean): Promise<AnyAuthMethod> {
+  const username = connection.username;
+  switch (entry.type) {
+    case 'key': {
+      const key = await loadPrivateKey(connection, entry.privateKey, onUserPrompt, canRemember);
+      const cert = entry.certificate ? config.certificates?.get(entry.certificate) : undefined;
+      if (cert && !certificateMatchesKey(cert, key.privateKey, key.passphrase)) {
+        throw new Error('Certificate was not issued for this private key');
+      }
+      return { type: 'publickey', username, key: key.privateKey, passphrase: key.passphrase };
+    }
+    case 'agent': {
+      const agent = resolveAgentPath(connection);
+      if (!agent) {
+        throw new Error('No SSH agent found');
+      }
+      return { type: 'agent', username, agent };
+    }
+    case 'password': {
+      const password = await getConnectionSecret(connection, 'password', onUserPrompt);
+      if (password === undefined) {
+        throw new Error('No password saved');
+      }
+      return { type: 'password', username, password };
+    }
+    case 'keyboard-interactive':
+      // Answered by the 'keyboard-interactive' listener from attachUserPrompts
+      return { type: 'keyboard-interactive', username, prompt: (...args) => client.emit('keyboard-interactive', ...args) };
+  }
+}
+
+interface AuthProgress {
+  current: AuthMethodEntry | null; // Method being tried - the one that succeeded once ready
+  tried: AuthMethodEntry[];
+  problems: string[]; // Methods skipped because their credentials couldn't be loaded
+}
+
+// Walk the connection's auth sequence through ssh2's authHandler, skipping methods the server
+// doesn't offer. Call before client.connect(); start it with connectClient() so certificates are applied.
+function attachAuthSequence(
+  client: Client,
+  config: SshConnectConfig,
+  connection: Connection,
+  hooks: {
+    onMethodsOffered?: (methods: string[]) => void;
+    onAttempt?: (entry: AuthMethodEntry) => void;
+    rememberPassphrases?: boolean; // false for the connection test, default true
+  } = {},
+): AuthProgress {
+  const sequence = getAuthSequence(connection);
+  const progress: AuthProgress = { current: null, tried: [], problems: [] };
+  const pauseTimeouts = () => pauseReadyTimeout(client);
+  let next = 0;
+  let offered = false;
+
+  const authHandler: AuthHandler = (methodsLeft, _partialSuccess, callback) => {
+    // First round is 'none', which makes the server list what it accepts
+    if (!methodsLeft) {
+      callback('none');
+      return;
+    }
+    if (!offered) {
+      offered = true;
+      hooks.onMethodsOffered?.(methodsLeft);
+    }
+
+    (async () => {
+      while (next < sequence.length) {
+        const entry = sequence[next++];
+        if (!(methodsLeft as string[]).includes(getServerAuthMethod(entry))) continue;
+        try {
+          const method = await prepareAuthMethod(client, config, connection, entry, pauseTimeouts, hooks.rememberPassphrases !== false);
+          progress.current = entry;
+          progress.tried.push(entry);
+          hooks.onAttempt?.(entry);
+          callback(method);
+          return;
+        } catch (err: any) {
+          progress.problems.push(`${describeAuthMethod(entry)}: ${err.message}`);
+        }
+      }
+      progress.current = null;
+      callback(false);
+    })();
+  };
+  config.authHandler = authHandler as AuthHandlerMiddleware;
+  return progress;
+}
+
+// Start the handshake: connect, then hook in the certificates (they need the live protocol)
+function connectClient(client: Client, config: SshConnectConfig): void {
+  client.connect(config);
+  if (config.certificates && config.certificates.size > 0) {
+    try {
+      useCertificates(client, [...config.certificates.values()]);
+    } catch (err) {
+      // Don't leave the handshake running without the certificate
+      client.destroy();
+      throw err;
+    }
+  }
+}
+
+// ssh2 only says "All configured authentication methods failed"; add why methods were skipped
+function explainAuthFailure(err: Error & { level?: string }, progress: AuthProgress): Error {
+  if (err.level === 'client-authentication' && progress.problems.length > 0) {
+    err.message = `${err.message} (${progress.problems.join('; ')})`;
+  }
+  return err;
+}
+
+// Build the ssh2 connect config (host + transport) for a saved connection. Credentials are
+// loaded by attachAuthSequence as each method gets its turn.
+async function buildSshConfig(connection: Connection): Promise<SshConnectConfig> {
+  const config: SshConnectConfig = {
+    host: connection.host,
+    port: connection.port,
+    username: connection.username,
+    ...buildTransportConfig(connection.advanced),
+  };
+
+  if (connection.agentForward) {
+    const agent = resolveAgentPath(connection);
+    if (!agent) {
+      throw new Error('No SSH agent found. Start ssh-agent or set the agent socket path for this connection.');
+    }
+    config.agent = agent;
+    // Forwarding is requested on every shell/exec channel opened over this connection
+    config.agentForward = true;
+  }
+
+  // Expired certificates fail before dialing
+  for (const entry of getAuthSequence(connection)) {
+    if (entry.type === 'key' && entry.certificate) {
+      config.certificates = config.certificates || new Map();
+      config.certificates.set(entry.certificate, loadCertificate(entry.certificate));
+    }
+  }
+
+  return config;
+}
+
+// Connect a single jump host over the stream opened by the previous hop. The first hop is
+// dialed directly or through its proxy.
+async function connectJumpHost(hop: Connection, sock?: ClientChannel, options: HandshakeOptions = {}): Promise<Client> {
+  const config = await buildSshConfig(hop);
+  config.sock = sock || await openProxiedSocket(hop);
+
+  return new Promise((resolve, reject) => {
+    const client = new Client();
+    attachUserPrompts(client, config, hop, undefined, options);
+    const auth = attachAuthSequence(client, config, hop, { rememberPassphrases: options.rememberPassphrases });
+
+    client.on('ready', () => resolve(client));
+    client.on('error', (err) => reject(new Error(`Jump host ${hop.name}: ${explainAuthFailure(err, auth).message}`)));
+
+    connectClient(client, config);
+  });
+}
+
+// Open a forwarded TCP stream from a connected hop to the next host in the chain
+function forwardToNextHop(client: Client, host: string, port: number): Promise<ClientChannel> {
+  return new Promise((resolve, reject) => {
+    client.forwardOut('127.0.0.1', 0, host, port, (err, stream) => {
+      if (err) {
+        reject(new Error(`Failed to reach ${host}:${port} through jump host: ${err.message}`));
+        return;
+      }
+      resolve(stream);
+    });
+  });
+}
+
+// The proxy a connection dials through: its own setting, else the default from Preferences
+async function resolveProxy(connection: Connection): Promise<{ proxy: ProxySettings; password?: string } | null> {
+  if (connection.proxy) {
+    if (connection.proxy.type === 'none') {
+      return null;
+    }
+    return { proxy: connection.proxy, password: await getConnectionSecret(connection, 'proxyPassword') };
+  }
+
+  const defaultProxy = store.get('defaultProxy');
+  if (!defaultProxy || defaultProxy.type === 'none') {
+    return null;
+  }
+  const password = defaultProxy.passwordSecretId ? await readSecret(defaultProxy.passwordSecretId) : defaultProxy.password;
+  return { proxy: defaultProxy, password };
+}
+
+// Open a socket to the connection's host through its proxy (undefined = connect directly)
+async function openProxiedSocket(connection: Connection): Promise<net.Socket | undefined> {
+  const resolved = await resolveProxy(connection);
+  if (!resolved) {
+    return undefined;
+  }
+  const timeout = (connection.advanced?.readyTimeout ?? DEFAULT_READY_TIMEOUT) * 1000;
+  return openProxySocket(resolved.proxy, resolved.password, connection.host, connection.port, timeout);
+}
+
+// Return the socket to dial the connection over: through its jump host chain (ProxyJump) or
+// its proxy. Jump hop clients are returned so they can be closed with the final connection.
+async function openConnectionSocket(connection: Connection, options: HandshakeOptions = {}): Promise<{ sock?: ConnectConfig['sock']; jumpClients: Client[] }> {
+  const jumpHostIds = connection.jumpHosts || [];
+  if (jumpHostIds.length === 0) {
+    return { sock: await openProxiedSocket(connection), jumpClients: [] };
+  }
+
+  const connections = store.get('connections');
+  const hops = jumpHostIds.map((id) => {
+    const hop = connections.find((c) => c.id === id);
+    if (!hop) {
+      throw new Error('Jump host not found. It may have been deleted.');
+    }
+    if (hop.id === connection.id) {
+      throw new Error('A connection cannot use itself as a jump host');
+    }
+    return hop;
+  });
+
+  const jumpClients: Client[] = [];
+  let sock: ClientChannel | undefined;
+
+  try {
+    for (let i = 0; i < hops.length; i++) {
+      const client = await connectJumpHost(hops[i], sock, options);
+      jumpClients.push(client);
+
+      const next = i + 1 < hops.length ? hops[i + 1] : connection;
+      sock = await forwardToNextHop(client, next.host, next.port);
+    }
+  } catch (err) {
+    closeJumpClients(jumpClients);
+    throw err;
+  }
+
+  return { sock, jumpClients };
+}
+
+// Close jump host clients, innermost hop first
+function closeJumpClients(jumpClients: Client[]): void {
+  for (const client of [...jumpClients].reverse()) {
+    try {
+      client.end();
+    } catch (e) {
+      // Ignore errors when closing hops
+    }
+  }
+}
+
+// Connection lifecycle. Every SSH connection is dialed here, so state changes reach all windows
+// from one place: connecting -> ready, ready <-> degraded when channels start failing, and
+// reconnecting (with backoff) -> ready or lost after an unexpected drop.
+type ConnectionState = 'connecting' | 'ready' | 'degraded' | 'reconnecting' | 'lost' | 'disconnected';
+
+interface ConnectionStatus {
+  connectionId: string;
+  state: ConnectionState;
+  attempt?: number; // Reconnect attempt, while reconnecting
+  nextRetryAt?: number; // Epoch ms of the next attempt, while reconnecting
+  error?: string; // Why the connection is degraded, reconnecting or lost
+  authMethod?: string; // Auth method that succeeded, e.g. "key id_ed25519", once ready
+}
+
+const RECONNECT_BASE_DELAY = 1000; // ms
+const RECONNECT_MAX_DELAY = 30000; // ms
+const RECONNECT_MAX_ATTEMPTS = 8;
+// Errors that retrying won't fix (and that would prompt the user again on every attempt)
+const NON_RETRYABLE_ERROR_LEVELS = ['client-authentication', 'client-config'];
+
+const connectionStatuses: Map<string, ConnectionStatus> = new Map(); // connectionId -> status
+const pendingConnects: Map<string, Promise<void>> = new Map(); // connectionId -> attempt in flight
+const reconnectTimers: Map<string, NodeJS.Timeout> = new Map();
+
+function setConnectionState(connectionId: string, state: ConnectionState, details: Partial<ConnectionStatus> = {}): void {
+  const status: ConnectionStatus = { connectionId, state, ...details };
+  if (state === 'disconnected') {
+    connectionStatuses.delete(connectionId);
+  } else {
+    connectionStatuses.set(connectionId, status);
+  }
+  allWindows.forEach((win) => {
+    if (!win.isDestroyed()) {
+      win.webContents.send('connection:state', status);
+    }
+  });
+}
+
+// Channels failing on a live transport: flag it, and clear the flag on the next success
+function markConnectionDegraded(connectionId: string, reason: string): void {
+  if (connectionStatuses.get(connectionId)?.state === 'ready') {
+    setConnectionState(connectionId, 'degraded', { error: reason, authMethod: connectionStatuses.get(connectionId)?.authMethod });
+  }
+}
+
+function markConnectionHealthy(connectionId: string): void {
+  const status = connectionStatuses.get(connectionId);
+  if (status?.state === 'degraded') {
+    setConnectionState(connectionId, 'ready', { authMethod: status.authMethod });
+  }
+}
+
+// Exponential backoff with equal jitter: half the delay is fixed, half is random
+function getReconnectDelay(attempt: number): number {
+  const delay = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** (attempt - 1));
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+// Open the transport (jump hosts, proxy) and authenticate. Resolves once the client is ready.
+// authMethod names the method that got in.
+async function dialConnection(connection: Connection): Promise<{ client: Client; jumpClients: Client[]; authMethod?: string }> {
+  let config: SshConnectConfig;
+  try {
+    config = await buildSshConfig(connection);
+  } catch (err: any) {
+    // Missing key, cancelled passphrase, locked vault...
+    err.level = err.level || 'client-config';
+    throw err;
+  }
+
+  const { sock, jumpClients } = await openConnectionSocket(connection);
+  if (sock) {
+    config.sock = sock;
+  }
+
+  return new Promise((resolve, reject) => {
+    const client = new Client();
+    let ready = false;
+    attachUserPrompts(client, config, connection);
+    const auth = attachAuthSequence(client, config, connection);
+
+    client.once('ready', () => {
+      ready = true;
+      resolve({ client, jumpClients, authMethod: auth.current ? describeAuthMethod(auth.current) : undefined });
+    });
+
+    client.on('error', (err) => {
+      if (!ready) {
+        closeJumpClients(jumpClients);
+        reject(explainAuthFailure(err, auth));
+      }
+    });
+
+    client.once('close', () => {
+      if (!ready) {
+        closeJumpClients(jumpClients);
+        reject(new Error('Connection closed during handshake'));
+      }
+    });
+
+    connectClient(client, config);
+  });
+}
+
+// Follow a ready client: on an unexpected close, clean up its shells and start reconnecting
+function watchConnection(connectionId: string, client: Client, jumpClients: Client[]): void {
+  let lastError: string | undefined;
+  client.on('error', (err) => {
+    lastError = err.message;
+  });
+
+  client.on('close', () => {
+    closeJumpClients(jumpClients);
+    // Closed on purpose (disconnect) or already replaced by a newer client
+    if (activeConnections.get(connectionId)?.client !== client) return;
+
+    console.log(`Connection ${connectionId} closed`);
+    activeConnections.delete(connectionId);
+    channelQueue.delete(connectionId);
+    // State first, so terminals know the drop is being handled when their shell closes
+    scheduleReconnect(connectionId, 1, lastError || 'Connection closed');
+    dropConnectionShells(connectionId);
+  });
+}
+
+// Close every shell of a dead connection; terminals reopen them once it's back ('dropped')
+function dropConnectionShells(connectionId: string): void {
+  for (const [shellId, shell] of activeShells.entries()) {
+    if (shell.connectionId === connectionId) {
+      activeShells.delete(shellId);
+      try {
+        shell.stream.end();
+      } catch (e) {
+        // Stream already gone with the connection
+      }
+      allWindows.forEach(win => {
+        if (!win.isDestroyed()) {
+          win.webContents.send(`ssh:close:${shellId}`, { reason: 'dropped' });
+        }
+      });
+    }
+  }
+}
+
+// Dial a saved connection unless it's already up. Concurrent callers share one attempt.
+function openManagedConnection(connectionId: string): Promise<void> {
+  const pending = pendingConnects.get(connectionId);
+  if (pending) return pending;
+  if (activeConnections.has(connectionId)) return Promise.resolve();
+
+  const attempt = (async () => {
+    const connection = store.get('connections').find((c) => c.id === connectionId);
+    if (!connection) {
+      throw new Error('Connection not found');
+    }
+    // A connection that dropped earlier (lost, or waiting out a backoff) counts as reconnecting
+    const status = connectionStatuses.get(connectionId);
+    if (!status) {
+      setConnectionState(connectionId, 'connecting');
+    } else if (status.state !== 'reconnecting') {
+      setConnectionState(connectionId, 'reconnecting', { attempt: 1 });
+    }
+
+    const { client, jumpClients, authMethod } = await dialConnection(connection);
+    // Disconnected while the attempt was running
+    if (!connectionStatuses.has(connectionId)) {
+      client.end();
+      closeJumpClients(jumpClients);
+      throw new Error('Disconnected');
+    }
+    activeConnections.set(connectionId, { client, pendingChannels: 0, jumpClients });
+    watchConnection(connectionId, client, jumpClients);
+    setConnectionState(connectionId, 'ready', { authMethod });
+  })();
+
+  pendingConnects.set(connectionId, attempt);
+  attempt.then(
+    () => pendingConnects.delete(connectionId),
+    () => pendingConnects.delete(connectionId),
+  );
+  return attempt;
+}
+
+function cancelReconnect(connectionId: string): void {
+  const timer = reconnectTimers.get(connectionId);
+  if (timer) {
+    clearTimeout(timer);
+    reconnectTimers.delete(connectionId);
+  }
+}
+
+function scheduleReconnect(connectionId: string, attempt: number, error: string): void {
+  cancelReconnect(connectionId);
+  if (attempt > RECONNECT_MAX_ATTEMPTS) {
+    setConnectionState(connectionId, 'lost', { error });
+    return;
+  }
+
+  const delay = getReconnectDelay(attempt);
+  setConnectionState(connectionId, 'reconnecting', { attempt, nextRetryAt: Date.now() + delay, error });
+  reconnectTimers.set(connectionId, setTimeout(async () => {
+    reconnectTimers.delete(connectionId);
+    try {
+      await openManagedConnection(connectionId);
+      console.log(`Reconnected ${connectionId} after ${attempt} attempt(s)`);
+    } catch (err: any) {
+      if (!connectionStatuses.has(connectionId)) return;
+      if (NON_RETRYABLE_ERROR_LEVELS.includes(err.level)) {
+        setConnectionState(connectionId, 'lost', { error: err.message });
+      } else {
+        scheduleReconnect(connectionId, attempt + 1, err.message);
+      }
+    }
+  }, delay));
+}
+
+// Connect now, skipping any backoff wait. Used when the user opens a tab or asks to reconnect.
+async function connectNow(connectionId: string): Promise<void> {
+  cancelReconnect(connectionId);
+  try {
+    await openManagedConnection(connectionId);
+  } catch (err: any) {
+    const status = connectionStatuses.get(connectionId);
+    // A first connect that fails just goes away; a dropped connection keeps retrying
+    if (status?.state === 'connecting') {
+      setConnectionState(connectionId, 'disconnected');
+    } else if (status && NON_RETRYABLE_ERROR_LEVELS.includes(err.level)) {
+      setConnectionState(connectionId, 'lost', { error: err.message });
+    } else if (status) {
+      scheduleReconnect(connectionId, (status.attempt || 0) + 1, err.message);
+    }
+    throw err;
+  }
+}
+
+function disconnectManaged(connectionId: string): void {
+  cancelReconnect(connectionId);
+  const conn = activeConnections.get(connectionId);
+  if (conn) {
+    activeConnections.delete(connectionId);
+    channelQueue.delete(connectionId);
+    conn.client.end();
+    closeJumpClients(conn.jumpClients || []);
+  }
+  for (const [shellId, shell] of activeShells.entries()) {
+    if (shell.telnet && shell.connectionId === connectionId) {
+      activeShells.delete(shellId);
+      shell.stream.end();
+    }
+  }
+  setConnectionState(connectionId, 'disconnected');
+}
+
+// Replace a stale connection (channels failing, liveness check failed) with a fresh one
+async function reconnectConnection(connectionId: string): Promise<boolean> {
+  const oldConn = activeConnections.get(connectionId);
+  if (oldConn) {
+    activeConnections.delete(connectionId);
+    try {
+      oldConn.client.end();
+    } catch (e) {
+      // Ignore errors when closing stale connection
+    }
+    closeJumpClients(oldConn.jumpClients || []);
+  }
+
+  // Clear any pending channel queues
+  channelQueue.delete(connectionId);
+
+  setConnectionState(connectionId, 'reconnecting', { attempt: 1 });
+  dropConnectionShells(connectionId);
+  try {
+    await connectNow(connectionId);
+    return true;
+  } catch (err: any) {
+    console.error(`Reconnection failed for ${connectionId}:`, err.message);
+    return false;
+  }
+}
+
+function createWindow(): void {
+  // Icon path differs between dev and production
+  const iconPath = app.isPackaged
+    ? path.join(process.resourcesPath, 'icon.ico')
+    : path.join(__dirname, '../../build/icon.ico');
+
+  mainWindow = new BrowserWindow({
+    width: 1400,
+    height: 900,
+    minWidth: 1000,
+    minHeight: 700,
+    frame: false,
+    backgroundColor: '#1a1b26',
+    icon: iconPath,
+    webPreferences: {
+      nodeIntegration: false,
+      contextIsolation: true,
+      preload: path.join(__dirname, 'preload.js'),
+    },
+  });
+
+  allWindows.add(mainWindow);
+
+  if (process.env.NODE_ENV === 'development') {
+    mainWindow.loadURL('http://localhost:3000');
+  } else {
+    mainWindow.loadFile(path.join(__dirname, '../renderer/index.html'));
+  }
+
+  // Open DevTools if ENV is set to development in .env
+  if (process.env.ENV === 'development') {
+    mainWindow.webContents.openDevTools();
+  }
+
+  mainWindow.on('closed', () => {
+    allWindows.delete(mainWindow!);
+    mainWindow = null;
+  });
+
+  // Intercept Ctrl+Shift+C to prevent DevTools inspect element and allow terminal copy
+  mainWindow.webContents.on('before-input-event', (event, input) => {
+    if (input.control && input.shift && input.key.toLowerCase() === 'c') {
+      // Don't prevent - let the renderer handle it
+      // But we need to prevent DevTools from capturing it
+      event.preventDefault();
+      // Send to renderer to handle copy
+      mainWindow?.webContents.send('terminal-copy');
+    }
+  });
+}
+
+function createDetachedWindow(connectionId: string, mode: string = 'terminal'): BrowserWindow {
+  const iconPath = app.isPackaged
+    ? path.join(process.resourcesPath, 'icon.ico')
+    : path.join(__dirname, '../../build/icon.ico');
+
+  const newWindow = new BrowserWindow({
+    width: 1200,
+    height: 800,
+    minWidth: 800,
+    minHeight: 600,
+    frame: false,
+    backgroundColor: '#1a1b26',
+    icon: iconPath,
+    webPreferences: {
+      nodeIntegration: false,
+      contextIsolation: true,
+      preload: path.join(__dirname, 'preload.js'),
+    },
+  });
+
+  allWindows.add(newWindow);
+
+  // Pass connection info via query params
+  const queryParams = `?connectionId=${encodeURIComponent(connectionId)}&mode=${encodeURIComponent(mode)}&detached=true`;
+
+  if (process.env.NODE_ENV === 'development') {
+    newWindow.loadURL(`http://localhost:3000${queryParams}`);
+  } else {
+    newWindow.loadFile(path.join(__dirname, '../renderer/index.html'), {
+      query: { connectionId, mode, detached: 'true' }
+    });
+  }
+
+  if (process.env.ENV === 'development') {
+    newWindow.webContents.openDevTools();
+  }
+
+  newWindow.on('closed', () => {
+    allWindows.delete(newWindow);
+  });
+
+  // Intercept Ctrl+Shift+C to prevent DevTools inspect element and allow terminal copy
+  newWindow.webContents.on('before-input-event', (event, input) => {
+    if (input.control && input.shift && input.key.toLowerCase() === 'c') {
+      event.preventDefault();
+      newWindow.webContents.send('terminal-copy');
+    }
+  });
+
+  return newWindow;
+}
+
+app.whenReady().then(() => {
+  // safeStorage is only usable once the app is ready
+  // An OS-protected vault has no password to ask for, so it starts unlocked
+  vaultUnlocked = store.get('vault').mode === 'safeStorage' && safeStorage.isEncryptionAvailable();
+  migrateConnectionSecrets();
+  migrateLocalConsolePath();
+  createWindow();
+});
+
+app.on('window-all-closed', () => {
+  // Close all SSH connections
+  activeConnections.forEach((conn) => {
+    conn.client.end();
+    closeJumpClients(conn.jumpClients || []);
+  });
+  activeConnections.clear();
+  activeRecordings.forEach((recorder) => recorder.close());
+  activeRecordings.clear();
+  activeLocalShells.forEach((localShell) => localShell.process.kill());
+  activeLocalShells.clear();
+  reconnectTimers.forEach((timer) => clearTimeout(timer));
+  reconnectTimers.clear();
+  connectionStatuses.clear();
+
+  if (process.platform !== 'darwin') {
+    app.quit();
+  }
+});
+
+app.on('activate', () => {
+  if (mainWindow === null) {
+    createWindow();
+  }
+});
+
+// Window controls - use sender window, not mainWindow
+ipcMain.handle('window:minimize', (event) => {
+  const window = BrowserWindow.fromWebContents(event.sender);
+  window?.minimize();
+});
+
+ipcMain.handle('window:maximize', (event) => {
+  const window = BrowserWindow.fromWebContents(event.sender);
+  if (window?.isMaximized()) {
+    window.unmaximize();
+  } else {
+    window?.maximize();
+  }
+});
+
+ipcMain.handle('window:close', (event) => {
+  const window = BrowserWindow.fromWebContents(event.sender);
+  window?.close();
+});
+
+ipcMain.handle('window:createNew', (_event, connectionId: string, mode: string = 'terminal') => {
+  const newWindow = createDetachedWindow(connectionId, mode);
+  return { success: true, windowId: newWindow.id };
+});
+
+// Connection management
+ipcMain.handle('connections:getAll', () => {
+  return store.get('connections');
+});
+
+ipcMain.handle('connections:save', async (_event, connection: Connection) => {
+  if (hasPlaintextSecrets(connection)) {
+    await ensureVaultUnlocked();
+  }
+
+  const connections = store.get('connections');
+  const existingIndex = connections.findIndex((c) => c.id === connection.id);
+
+  if (existingIndex >= 0) {
+    connections[existingIndex] = storeConnectionSecrets(connection, connections[existingIndex]);
+  } else {
+    connections.push(storeConnectionSecrets(connection));
+  }
+
+  store.set('connections', connections);
+  broadcastVaultStatus();
+  return connections;
+});
+
+ipcMain.handle('connections:delete', (_event, id: string) => {
+  const all = store.get('connections');
+  const removed = all.find((c) => c.id === id);
+  if (removed) {
+    deleteConnectionSecrets(removed);
+  }
+  const connections = all.filter((c) => c.id !== id);
+  store.set('connections', connections);
   return connections;
 });
 
 // Save all connections (for reordering)
-ipcMain.handle('connections:saveAll', (_event, newConnections: Connection[]) => {
-  store.set('connections', newConnections);
-  return newConnections;
+ipcMain.handle('connections:saveAll', async (_event, newConnections: Connection[]) => {
+  if (newConnections.some(hasPlaintextSecrets)) {
+    await ensureVaultUnlocked();
+  }
+
+  const previous = store.get('connections');
+  const saved = newConnections.map((c) => storeConnectionSecrets(c, previous.find((p) => p.id === c.id)));
+  previous
+    .filter((p) => !newConnections.some((c) => c.id === p.id))
+    .forEach(deleteConnectionSecrets);
+
+  store.set('connections', saved);
+  return saved;
 });
 
-// SSH connection
-ipcMain.handle('ssh:connect', async (_event, connectionId: string) => {
-  const connections = store.get('connections');
-  const connection = connections.find((c) => c.id === connectionId);
+// Credential vault
+ipcMain.handle('vault:status', () => getVaultStatus());
 
-  if (!connection) {
-    throw new Error('Connection not found');
+ipcMain.handle('vault:setup', (_event, mode: VaultMode, masterPassword?: string) => {
+  try {
+    configureVault(mode, masterPassword);
+    return { success: true };
+  } catch (error: any) {
+    return { success: false, error: error.message };
   }
+});
 
-  return new Promise((resolve, reject) => {
-    const client = new Client();
+ipcMain.handle('vault:unlock', (_event, masterPassword?: string) => {
+  if (!unlockVault(masterPassword)) {
+    return { success: false, error: 'Incorrect master password' };
+  }
+  return { success: true };
+});
+
+ipcMain.handle('vault:lock', () => {
+  lockVault();
+  return { success: true };
+});
+
+// Default proxy for connections without their own proxy setting (Preferences)
+ipcMain.handle('proxy:getDefault', () => {
+  const defaultProxy = store.get('defaultProxy');
+  if (!defaultProxy) {
+    return null;
+  }
+  const { password: _password, ...rest } = defaultProxy;
+  return rest;
+});
+
+ipcMain.handle('proxy:setDefault', async (_event, proxy: DefaultProxy | null) => {
+  if (proxy?.password) {
+    await ensureVaultUnlocked();
+  }
+
+  const previous = store.get('defaultProxy');
+  const next = proxy && proxy.type !== 'none' ? storeDefaultProxySecret(proxy, previous) : null;
+  if (!next && previous?.passwordSecretId) {
+    const vault = store.get('vault');
+    delete vault.secrets[previous.passwordSecretId];
+    store.set('vault', vault);
+  }
+  store.set('defaultProxy', next);
+  broadcastVaultStatus();
+  return { success: true };
+});
+
+// Import hosts from an OpenSSH config file. Nothing is saved here - the renderer previews the
+// result and stores the chosen entries through connections:saveAll.
+ipcMain.handle('sshConfig:parse', (_event, filePath?: string) => {
+  const configPath = filePath || path.join(os.homedir(), '.ssh', 'config');
+  if (!fs.existsSync(configPath)) {
+    return { success: false, filePath: configPath, entries: [], error: `${configPath} not found` };
+  }
+
+  const existing = store.get('connections');
+  const hosts = parseSshConfig(configPath);
+  const defaultUser = os.userInfo().username;
+
+  const findExisting = (host: string, port: number, username?: string) =>
+    existing.find((c) => c.host === host && c.port === port && (!username || c.username === username));
+
+  const entries: { connection: Connection; duplicateOf?: string; viaProxyJump?: boolean }[] = hosts.map((h) => {
+    const hasKey = !!h.identityFile && fs.existsSync(h.identityFile);
+    // Like ssh, pick up <key>-cert.pub next to the key when no CertificateFile is set
+    const certificate = h.certificateFile || (hasKey ? `${h.identityFile}-cert.pub` : undefined);
+    const connection: Connection = {
+      id: crypto.randomUUID(),
+      name: h.alias,
+      host: h.hostName,
+      port: h.port,
+      username: h.user || defaultUser,
+      authMethod: hasKey ? 'key' : 'agent',
+      privateKey: hasKey ? h.identityFile : undefined,
+      certificate: hasKey && certificate && fs.existsSync(certificate) ? certificate : undefined,
+      advanced: h.advanced,
+    };
+    const duplicate = findExisting(connection.host, connection.port, connection.username)
+      || existing.find((c) => c.name.toLowerCase() === connection.name.toLowerCase());
+    return { connection, duplicateOf: duplicate?.name };
+  });
+
+  // Point each ProxyJump hop at a saved connection, another imported host, or a new entry
+  const resolveHop = (spec: string): string => {
+    const aliasIndex = hosts.findIndex((h) => h.alias === spec);
+    if (aliasIndex >= 0) {
+      const entry = entries[aliasIndex];
+      const duplicate = entry.duplicateOf
+        ? findExisting(entry.connection.host, entry.connection.port, entry.connection.username)
+        : undefined;
+      return duplicate ? duplicate.id : entry.connection.id;
+    }
+
+    const { user, host, port = 22 } = parseJumpSpec(spec);
+    const saved = findExisting(host, port, user);
+    if (saved) return saved.id;
+
+    const imported = entries.find((e) =>
+      e.connection.host === host && e.connection.port === port && (!user || e.connection.username === user)
+    );
+    if (imported) return imported.connection.id;
+
+    const created: Connection = {
+      id: crypto.randomUUID(),
+      name: spec,
+      host,
+      port,
+      username: user || defaultUser,
+      authMethod: 'agent',
+    };
+    entries.push({ connection: created, viaProxyJump: true });
+    return created.id;
+  };
+
+  hosts.forEach((h, index) => {
+    if (h.proxyJump) {
+      entries[index].connection.jumpHosts = h.proxyJump.map(resolveHop);
+    }
+  });
+
+  return { success: true, filePath: configPath, entries };
+});
+
+// Bulk import from CSV/JSON host lists and Ansible inventories. Like sshConfig:parse this is a
+// dry run: each record comes back as the connection it would add or update, and the renderer
+// saves the chosen ones through connections:saveAll. Without options, the column mapping is
+// guessed from the headers (ansible_host, ansible_user, ...).
+interface InventoryImportEntry {
+  label: string;
+  action: 'add' | 'update' | 'unchanged' | 'skip';
+  connection?: Connection; // As it would be saved (existing ID kept for updates)
+  existingName?: string;
+  changes?: ImportChange[];
+  reason?: string;
+}
+
+ipcMain.handle('inventory:preview', (_event, filePath: string, options?: ImportOptions) => {
+  let parsed: ParsedInventory;
+  try {
+    parsed = parseInventoryFile(filePath);
+  } catch (err: any) {
+    return { success: false, filePath, columns: [], entries: [], error: err.code === 'ENOENT' ? `${filePath} not found` : err.message };
+  }
+
+  const hasGroups = parsed.records.some((r) => r.groups.length > 0);
+  const effective: ImportOptions = options || { mapping: suggestMapping(parsed.columns), groupsAs: hasGroups ? 'folders' : 'none' };
+  const plan = planImport(parsed.records, effective, store.get('connections'), os.userInfo().username);
+
+  const entries: InventoryImportEntry[] = plan.map((entry) => {
+    const { label, action, host, existing, changes, reason } = entry;
+    if (!host || action === 'skip') {
+      return { label, action, reason };
+    }
+    if (!existing) {
+      const connection: Connection = {
+        id: crypto.randomUUID(),
+        name: host.name,
+        host: host.host,
+        port: host.port ?? 22,
+        username: host.username || os.userInfo().username,
+        authMethod: host.privateKey ? 'key' : 'agent',
+        privateKey: host.privateKey,
+        folder: host.folder,
+        tags: host.tags,
+      };
+      return { label, action, connection };
+    }
+
+    const updated: Connection = { ...existing };
+    for (const change of changes || []) {
+      switch (change.field) {
+        case 'port':
+          updated.port = Number(change.to);
+          break;
+        case 'tags':
+          updated.tags = change.to ? change.to.split(', ') : undefined;
+          break;
+        case 'privateKey':
+          // A key from the inventory replaces password or agent auth
+          updated.privateKey = change.to;
+          if (updated.authMethod !== 'multiple') updated.authMethod = 'key';
+          break;
+        case 'name':
+        case 'host':
+        case 'username':
+          if (change.to) updated[change.field] = change.to;
+          break;
+        case 'folder':
+          updated.folder = change.to;
+          break;
+      }
+    }
+    return { label, action, connection: updated, existingName: existing.name, changes };
+  });
+
+  return { success: true, filePath, format: parsed.format, columns: parsed.columns, hasGroups, options: effective, entries };
+});
+
+// Export saved connections (all, or the given IDs) as an OpenSSH config file
+ipcMain.handle('sshConfig:export', async (_event, connectionIds?: string[]) => {
+  const all = store.get('connections');
+  // Telnet connections have no OpenSSH equivalent
+  const selected = (connectionIds ? all.filter((c) => connectionIds.includes(c.id)) : all).filter((c) => c.protocol !== 'telnet');
+  if (selected.length === 0) {
+    return { success: false, error: 'No connections to export' };
+  }
+
+  const result = await dialog.showSaveDialog(mainWindow!, {
+    defaultPath: path.join(os.homedir(), '.ssh', selected.length === 1 ? `${selected[0].name.replace(/[\\/:*?"<>|\s]+/g, '-')}.conf` : 'nice-ssh.conf'),
+    filters: [
+      { name: 'SSH Config', extensions: ['conf', 'config'] },
+      { name: 'All Files', extensions: ['*'] },
+    ],
+  });
+  if (result.canceled || !result.filePath) {
+    return { success: false, canceled: true };
+  }
+
+  const header = `# Exported from Nice SSH Client on ${new Date().toISOString()}\n# Passwords are not included.\n\n`;
+  try {
+    fs.writeFileSync(result.filePath, header + formatSshConfig(selected, all), { mode: 0o600 });
+    return { success: true, filePath: result.filePath, count: selected.length };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+});
+
+// Known hosts
+ipcMain.handle('knownHosts:getAll', () => {
+  const knownHosts = store.get('knownHosts');
+  return Object.entries(knownHosts).flatMap(([host, keys]) => keys.map((k) => ({ host, ...k })));
+});
+
+ipcMain.handle('knownHosts:remove', (_event, host: string, keyType?: string) => {
+  const knownHosts = store.get('knownHosts');
+  const remaining = keyType ? (knownHosts[host] || []).filter((k) => k.keyType !== keyType) : [];
+  if (remaining.length > 0) {
+    knownHosts[host] = remaining;
+  } else {
+    delete knownHosts[host];
+  }
+  store.set('knownHosts', knownHosts);
+  return { success: true };
+});
+
+// Import plain (non-hashed) entries from the user's OpenSSH known_hosts file
+ipcMain.handle('knownHosts:import', () => {
+  const filePath = path.join(os.homedir(), '.ssh', 'known_hosts');
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf-8');
+  } catch (err) {
+    return { success: false, imported: 0, skipped: 0, error: `Could not read ${filePath}` };
+  }
+
+  let imported = 0;
+  let skipped = 0;
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const [hosts, keyType, keyData] = line.split(/\s+/);
+    // Markers (@cert-authority, @revoked) and hashed hostnames can't be mapped to host:port
+    if (!hosts || !keyType || !keyData || hosts.startsWith('@') || hosts.startsWith('|')) {
+      skipped++;
+      continue;
+    }
+
+    const fingerprint = hostKeyFingerprint(Buffer.from(keyData, 'base64'));
+    for (const entry of hosts.split(',')) {
+      const match = entry.match(/^\[(.+)\]:(\d+)$/);
+      const host = match ? match[1] : entry;
+      const port = match ? parseInt(match[2], 10) : 22;
+      if (host.includes('*') || host.includes('?') || host.startsWith('!')) {
+        skipped++;
+        continue;
+      }
+      if (trustHostKey(host, port, keyType, fingerprint, 'known_hosts')) {
+        imported++;
+      }
+    }
+  }
+
+  return { success: true, imported, skipped };
+});
+
+// SSH key manager - keypairs generated by the app live in <userData>/keys as <name> and
+// <name>.pub, like ~/.ssh. The key list is read from that folder.
+interface ManagedKey {
+  name: string;
+  type: string; // ssh-ed25519, ssh-rsa...
+  comment: string;
+  fingerprint: string;
+  privateKeyPath: string;
+  publicKey: string; // authorized_keys line
+  encrypted: boolean;
+  createdAt: number;
+}
+
+const KEY_NAME_PATTERN = /^[\w.-]+$/;
+
+function getKeysDir(): string {
+  return path.join(app.getPath('userData'), 'keys');
+}
+
+function readManagedKey(name: string): ManagedKey | null {
+  const privateKeyPath = path.join(getKeysDir(), name);
+  try {
+    const publicKey = fs.readFileSync(`${privateKeyPath}.pub`, 'utf-8').trim();
+    const [type, data, ...comment] = publicKey.split(/\s+/);
+    const parsed = sshUtils.parseKey(fs.readFileSync(privateKeyPath));
+    return {
+      name,
+      type,
+      comment: comment.join(' '),
+      fingerprint: hostKeyFingerprint(Buffer.from(data, 'base64')),
+      privateKeyPath,
+      publicKey,
+      encrypted: parsed instanceof Error && /no passphrase given/i.test(parsed.message),
+      createdAt: fs.statSync(privateKeyPath).mtimeMs,
+    };
+  } catch (err) {
+    return null;
+  }
+}
+
+// Add the public key to ~/.ssh/authorized_keys on the server, creating both if needed.
+// Resolves true when the key was already there.
+async function appendAuthorizedKey(sftp: SFTPWrapper, publicKey: string): Promise<boolean> {
+  const home = await new Promise<string>((resolve, reject) => {
+    sftp.realpath('.', (err, absPath) => (err ? reject(err) : resolve(absPath)));
+  });
+  const sshDir = path.posix.join(home, '.ssh');
+  const authorizedKeys = path.posix.join(sshDir, 'authorized_keys');
+
+  await new Promise<void>((resolve) => {
+    // Fails when it already exists - the append below reports real problems
+    sftp.mkdir(sshDir, { mode: 0o700 }, () => resolve());
+  });
+
+  const existing = await new Promise<string>((resolve) => {
+    sftp.readFile(authorizedKeys, (err, data) => resolve(err ? '' : data.toString('utf-8')));
+  });
+  const [type, data] = publicKey.split(/\s+/);
+  if (existing.split(/\r?\n/).some((line) => {
+    const fields = line.trim().split(/\s+/);
+    return fields.includes(type) && fields.includes(data);
+  })) {
+    return true;
+  }
+
+  const line = `${existing && !existing.endsWith('\n') ? '\n' : ''}${publicKey}\n`;
+  await new Promise<void>((resolve, reject) => {
+    sftp.appendFile(authorizedKeys, line, { mode: 0o600 }, (err) => (err ? reject(err) : resolve()));
+  });
+  return false;
+}
+
+ipcMain.handle('keys:list', () => {
+  let names: string[];
+  try {
+    names = fs.readdirSync(getKeysDir()).filter((file) => file.endsWith('.pub')).map((file) => file.slice(0, -4));
+  } catch (err) {
+    return [];
+  }
+  return names
+    .map(readManagedKey)
+    .filter((key): key is ManagedKey => key !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+});
+
+ipcMain.handle('keys:generate', async (_event, options: { name: string; type: 'ed25519' | 'rsa'; bits?: number; passphrase?: string; comment?: string }) => {
+  const name = options.name.trim();
+  if (!KEY_NAME_PATTERN.test(name)) {
+    return { success: false, error: 'Key names may only contain letters, digits, ".", "_" and "-"' };
+  }
+  const privateKeyPath = path.join(getKeysDir(), name);
+  if (fs.existsSync(privateKeyPath) || fs.existsSync(`${privateKeyPath}.pub`)) {
+    return { success: false, error: `A key named "${name}" already exists` };
+  }
 
-    client.on('ready', () => {
-      activeConnections.set(connectionId, { client });
-      resolve({ success: true, connectionId });
+  const comment = options.comment?.trim() || `${os.userInfo().username}@${os.hostname()}`;
+  const encryption = options.passphrase ? { passphrase: options.passphrase, cipher: 'aes256-ctr', rounds: 16 } : {};
+  try {
+    const keyPair = await new Promise<{ private: string; public: string }>((resolve, reject) => {
+      const done = (err: Error | null, result: { private: string; public: string }) => (err ? reject(err) : resolve(result));
+      if (options.type === 'rsa') {
+        sshUtils.generateKeyPair('rsa', { bits: options.bits || 4096, comment, ...encryption }, done);
+      } else {
+        sshUtils.generateKeyPair('ed25519', { comment, ...encryption }, done);
+      }
     });
+    fs.mkdirSync(getKeysDir(), { recursive: true, mode: 0o700 });
+    fs.writeFileSync(privateKeyPath, keyPair.private, { mode: 0o600 });
+    fs.writeFileSync(`${privateKeyPath}.pub`, `${keyPair.public.trim()}\n`, { mode: 0o644 });
+    return { success: true, key: readManagedKey(name) };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+});
 
-    client.on('error', (err) => {
+ipcMain.handle('keys:delete', (_event, name: string) => {
+  const key = readManagedKey(name);
+  if (!key) {
+    return { success: false, error: 'Key not found' };
+  }
+  const users = store.get('connections').filter((c) => getAuthSequence(c).some((entry) => entry.type === 'key' && entry.privateKey === key.privateKeyPath));
+  if (users.length > 0) {
+    return { success: false, error: `Still used by ${users.map((c) => c.name).join(', ')}` };
+  }
+  fs.rmSync(key.privateKeyPath, { force: true });
+  fs.rmSync(`${key.privateKeyPath}.pub`, { force: true });
+  forgetPassphrase(key.privateKeyPath);
+  return { success: true };
+});
+
+// Install a managed key on a server through its (password) connection, then switch the
+// connection over to that key
+ipcMain.handle('keys:install', async (_event, name: string, connectionId: string) => {
+  const key = readManagedKey(name);
+  const connection = store.get('connections').find((c) => c.id === connectionId);
+  if (!key || !connection) {
+    return { success: false, error: key ? 'Connection not found' : 'Key not found' };
+  }
+  // Installing goes over the password login, which is then replaced by the key
+  if (connection.protocol === 'telnet' || (connection.authMethod || (connection.privateKey ? 'key' : 'password')) !== 'password') {
+    return { success: false, error: 'Keys can only be installed over a connection that logs in with a password' };
+  }
+
+  try {
+    await connectNow(connectionId);
+    const conn = activeConnections.get(connectionId);
+    if (!conn) {
+      throw new Error('Not connected');
+    }
+    const sftp = await new Promise<SFTPWrapper>((resolve, reject) => {
+      conn.client.sftp((err, session) => (err ? reject(err) : resolve(session)));
+    });
+    let alreadyInstalled: boolean;
+    try {
+      alreadyInstalled = await appendAuthorizedKey(sftp, key.publicKey);
+    } finally {
+      sftp.end();
+    }
+
+    const connections = store.get('connections');
+    const index = connections.findIndex((c) => c.id === connectionId);
+    if (index >= 0) {
+      // The saved password stays: sudo still answers its prompt with it
+      connections[index] = {
+        ...connections[index],
+        authMethod: 'key',
+        authMethods: undefined,
+        privateKey: key.privateKeyPath,
+        certificate: undefined,
+      };
+      store.set('connections', connections);
+    }
+    return { success: true, alreadyInstalled, connections };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+});
+
+// Answer a prompt previously sent by requestFromRenderer (null = cancelled)
+ipcMain.handle('prompt:respond', (_event, requestId: string, response: unknown) => {
+  const resolve = pendingPrompts.get(requestId);
+  if (resolve) {
+    pendingPrompts.delete(requestId);
+    resolve(response);
+  }
+  return { success: true };
+});
+
+// SSH connection
+ipcMain.handle('ssh:connect', async (_event, connectionId: string) => {
+  // Telnet has no shared transport to open - every terminal dials its own socket in ssh:shell
+  if (store.get('connections').find((c) => c.id === connectionId)?.protocol === 'telnet') {
+    return { success: true, connectionId };
+  }
+  await connectNow(connectionId);
+  return { success: true, connectionId };
+});
+
+// Plain TCP connect, resolving once the socket is open
+function connectTcp(host: string, port: number, timeoutMs: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect({ host, port });
+    const timer = setTimeout(() => {
+      socket.destroy();
+      reject(Object.assign(new Error('Connection timed out'), { code: 'ETIMEDOUT' }));
+    }, timeoutMs);
+    socket.once('connect', () => {
+      clearTimeout(timer);
+      socket.removeAllListeners('error');
+      resolve(socket);
+    });
+    socket.once('error', (err) => {
+      clearTimeout(timer);
       reject(err);
     });
+  });
+}
 
-    const config: any = {
-      host: connection.host,
-      port: connection.port,
-      username: connection.username,
-      readyTimeout: 15000,
-      keepaliveInterval: 10000, // Send keepalive every 10 seconds
-      keepaliveCountMax: 3, // Disconnect after 3 failed keepalives
-    };
+const TEST_HANDSHAKE: HandshakeOptions = { trustHostKeys: false, rememberPassphrases: false };
+
+// Dry-run a connection from the connection dialog, one stage at a time. The form may not be
+// saved yet; nothing is stored, for the target or its jump hosts (new host keys are confirmed
+// but not trusted, and passphrases are not remembered) and the session is closed at the end.
+ipcMain.handle('ssh:test', async (event, testId: string, formConnection: Connection) => {
+  const connection: Connection = { ...formConnection };
+  // Secrets typed into the form win over the saved ones
+  for (const { field, idField } of SECRET_FIELDS) {
+    if (connection[field]) delete connection[idField];
+  }
+
+  const stages = createDiagnosticStages();
+  const report = (id: DiagnosticStageId, update: Partial<DiagnosticStage>) => {
+    Object.assign(stages.find((stage) => stage.id === id)!, update);
+    if (!event.sender.isDestroyed()) {
+      event.sender.send('ssh:testProgress', { testId, stages });
+    }
+  };
+  const skipRest = () => {
+    stages.filter((stage) => stage.status === 'pending').forEach((stage) => report(stage.id, { status: 'skipped' }));
+  };
+
+  const timeout = (connection.advanced?.readyTimeout ?? DEFAULT_READY_TIMEOUT) * 1000;
+  let sock: ConnectConfig['sock'];
+  let jumpClients: Client[] = [];
+  let client: Client | undefined;
+
+  try {
+    const hopped = (connection.jumpHosts?.length || 0) > 0;
+    const proxied = !hopped && !!(await resolveProxy(connection));
+
+    if (hopped || proxied) {
+      report('dns', { status: 'skipped', detail: `Resolved by the ${hopped ? 'jump host' : 'proxy'}` });
+      report('tcp', { status: 'running' });
+      const started = Date.now();
+      try {
+        ({ sock, jumpClients } = await openConnectionSocket(connection, TEST_HANDSHAKE));
+      } catch (err: any) {
+        report('tcp', { status: 'fail', detail: err.message, hint: getNetworkHint(err, connection.host, connection.port) });
+        skipRest();
+        return stages;
+      }
+      report('tcp', { status: 'pass', detail: `Opened through the ${hopped ? 'jump host' : 'proxy'}`, durationMs: Date.now() - started });
+    } else {
+      let address = connection.host;
+      if (net.isIP(connection.host)) {
+        report('dns', { status: 'skipped', detail: 'IP address, no lookup needed' });
+      } else {
+        report('dns', { status: 'running' });
+        const started = Date.now();
+        try {
+          const addresses = await dns.promises.lookup(connection.host, { all: true });
+          address = addresses[0].address;
+          report('dns', { status: 'pass', detail: addresses.map((a) => a.address).join(', '), durationMs: Date.now() - started });
+        } catch (err: any) {
+          report('dns', { status: 'fail', detail: err.code || err.message, hint: getNetworkHint(err, connection.host, connection.port) });
+          skipRest();
+          return stages;
+        }
+      }
 
-    if (connection.privateKey) {
+      report('tcp', { status: 'running' });
+      const started = Date.now();
       try {
-        config.privateKey = fs.readFileSync(connection.privateKey);
-      } catch (err) {
-        reject(new Error('Failed to read private key file'));
-        return;
+        sock = await connectTcp(address, connection.port, timeout);
+      } catch (err: any) {
+        report('tcp', { status: 'fail', detail: err.code || err.message, hint: getNetworkHint(err, connection.host, connection.port) });
+        skipRest();
+        return stages;
       }
-    } else if (connection.password) {
-      config.password = connection.password;
+      const latency = Date.now() - started;
+      report('tcp', {
+        status: latency > 500 ? 'warn' : 'pass',
+        detail: `${address}:${connection.port} in ${latency} ms`,
+        hint: latency > 500 ? 'High latency - terminals will feel sluggish.' : undefined,
+        durationMs: latency,
+      });
     }
 
-    // Handle connection close event
-    client.on('close', () => {
-      console.log(`Connection ${connectionId} closed`);
-      // Clean up shells for this connection
-      for (const [shellId, shell] of activeShells.entries()) {
-        if (shell.connectionId === connectionId) {
-          activeShells.delete(shellId);
-          allWindows.forEach(win => {
-            if (!win.isDestroyed()) {
-              win.webContents.send(`ssh:close:${shellId}`);
-            }
+    let config: SshConnectConfig;
+    try {
+      config = await buildSshConfig(connection);
+    } catch (err: any) {
+      // Key or vault problems: nothing the server can help with
+      skipRest();
+      report('auth', { status: 'fail', detail: err.message, hint: 'Fix the credentials in this dialog and test again.' });
+      return stages;
+    }
+    config.sock = sock;
+
+    // Server-side names (key -> publickey) for the hints
+    const configured = [...new Set(getAuthSequence(connection).map((entry) => (entry.type === 'key' ? 'publickey' : entry.type)))];
+    let offered: string[] | null = null;
+
+    report('banner', { status: 'running' });
+    const testClient = new Client();
+    client = testClient;
+    attachUserPrompts(testClient, config, connection, undefined, TEST_HANDSHAKE);
+    let hostKeyRejected = false;
+    config.hostVerifier = (key: Buffer, verify: (valid: boolean) => void) => {
+      const hostKey = checkHostKey(connection, key);
+      const detail = `${hostKey.keyType} ${hostKey.fingerprint}`;
+      if (hostKey.status === 'trusted') {
+        report('hostKey', { status: 'pass', detail });
+      } else if (hostKey.status === 'new') {
+        // Same confirmation as a real connect, so credentials only go to a host the user accepted
+        report('hostKey', { status: 'running', detail });
+        verifyHostKey(connection, key, () => pauseReadyTimeout(testClient), TEST_HANDSHAKE)
+          .catch(() => false)
+          .then((accepted) => {
+            hostKeyRejected = !accepted;
+            report('hostKey', accepted
+              ? { status: 'warn', detail, hint: 'Accepted for this test only. You will be asked again when you connect.' }
+              : { status: 'fail', detail, hint: 'The host key was not accepted, so no credentials were sent.' });
+            verify(accepted);
           });
-        }
+        return;
+      } else {
+        hostKeyRejected = true;
+        report('hostKey', {
+          status: 'fail',
+          detail,
+          hint: `The host key changed (trusted: ${hostKey.knownFingerprint}). If the server was reinstalled, remove its old key under Preferences > Known Hosts.`,
+        });
       }
-      activeConnections.delete(connectionId);
+      verify(!hostKeyRejected);
+    };
+    const auth = attachAuthSequence(testClient, config, connection, {
+      rememberPassphrases: false,
+      onMethodsOffered: (methods) => {
+        offered = methods;
+        const usable = configured.some((method) => methods.includes(method === 'agent' ? 'publickey' : method));
+        report('authMethods', {
+          status: usable ? 'pass' : 'warn',
+          detail: methods.join(', '),
+          hint: usable ? undefined : getAuthHint(configured, methods),
+        });
+        report('auth', { status: 'running' });
+      },
+      onAttempt: (entry) => report('auth', { status: 'running', detail: `Trying ${describeAuthMethod(entry)}` }),
     });
 
-    client.connect(config);
-  });
-});
-
-ipcMain.handle('ssh:disconnect', (_event, connectionId: string) => {
-  const conn = activeConnections.get(connectionId);
-  if (conn) {
-    conn.client.end();
-    activeConnections.delete(connectionId);
-  }
-  return { success: true };
-});
-
-// Ensure connection is ready with SFTP initialized
-ipcMain.handle('ssh:ensureReady', async (_event, connectionId: string) => {
-  let conn = activeConnections.get(connectionId);
-
-  // If not connected, establish connection
-  if (!conn) {
-    const connections = store.get('connections');
-    const connection = connections.find((c) => c.id === connectionId);
-
-    if (!connection) {
-      throw new Error('Connection not found');
-    }
+    await new Promise<void>((resolve) => {
+      let handshakeDone = false;
+      // ssh2 can emit more than one 'error' (e.g. a handshake timeout, then the connection
+      // lost as the socket closes), so the listener stays on and only the first one counts
+      let settled = false;
+      testClient.on('handshake', (negotiated) => {
+        handshakeDone = true;
+        report('banner', { status: 'pass', detail: getRemoteVersion(testClient) || 'Unknown server' });
+        report('algorithms', {
+          status: 'pass',
+          detail: `${negotiated.kex} · ${negotiated.serverHostKey} · ${negotiated.cs.cipher}${negotiated.cs.mac ? ` · ${negotiated.cs.mac}` : ''}`,
+        });
+        report('authMethods', { status: 'running' });
+      });
 
-    // Connect
-    await new Promise<void>((resolve, reject) => {
-      const client = new Client();
+      testClient.once('ready', () => {
+        settled = true;
+        if (!offered) {
+          report('authMethods', { status: 'warn', detail: 'none', hint: 'The server let you in without authenticating.' });
+        }
+        report('auth', { status: 'pass', detail: `Logged in as ${connection.username} with ${auth.current ? describeAuthMethod(auth.current) : 'none'}` });
+        resolve();
+      });
 
-      client.on('ready', () => {
-        activeConnections.set(connectionId, { client });
-        conn = activeConnections.get(connectionId);
+      testClient.on('error', (err: Error & { level?: string }) => {
+        if (settled) return;
+        settled = true;
+        if (hostKeyRejected) {
+          report('banner', { status: 'pass', detail: getRemoteVersion(testClient) || 'Unknown server' });
+          report('algorithms', { status: 'pass', detail: 'Negotiated' });
+        } else if (!handshakeDone) {
+          const remoteVersion = getRemoteVersion(testClient);
+          if (remoteVersion) {
+            report('banner', { status: 'pass', detail: remoteVersion });
+            report('algorithms', { status: 'fail', detail: err.message, hint: getHandshakeHint(err.message, true) });
+          } else {
+            report('banner', { status: 'fail', detail: err.message, hint: getHandshakeHint(err.message, false) });
+          }
+        } else {
+          if (!offered) {
+            report('authMethods', { status: 'fail', detail: err.message });
+          }
+          const tried = auth.tried.map(describeAuthMethod).concat(auth.problems);
+          report('auth', {
+            status: 'fail',
+            detail: err.level === 'client-authentication' ? `Rejected (tried ${tried.join(', ') || 'nothing'})` : err.message,
+            hint: err.level === 'client-authentication' ? getAuthHint(configured, offered) : undefined,
+          });
+        }
+        skipRest();
         resolve();
       });
 
-      client.on('error', (err) => {
-        reject(err);
+      testClient.once('close', () => {
+        if (settled) return;
+        settled = true;
+        stages.filter((stage) => stage.status === 'running').forEach((stage) => {
+          report(stage.id, { status: 'fail', detail: 'Connection closed by the server' });
+        });
+        skipRest();
+        resolve();
       });
 
-      const config: any = {
-        host: connection.host,
-        port: connection.port,
-        username: connection.username,
-        readyTimeout: 15000,
-        keepaliveInterval: 10000,
-        keepaliveCountMax: 3,
-      };
+      connectClient(testClient, config);
+    });
+  } finally {
+    if (client) {
+      client.end();
+    } else if (sock) {
+      sock.destroy();
+    }
+    closeJumpClients(jumpClients);
+  }
+  return stages;
+});
 
-      if (connection.privateKey) {
-        try {
-          config.privateKey = fs.readFileSync(connection.privateKey);
-        } catch (err) {
-          reject(new Error('Failed to read private key file'));
-          return;
-        }
-      } else if (connection.password) {
-        config.password = connection.password;
-      }
+ipcMain.handle('ssh:disconnect', (_event, connectionId: string) => {
+  disconnectManaged(connectionId);
+  return { success: true };
+});
 
-      // Handle connection close event
-      client.on('close', () => {
-        console.log(`Connection ${connectionId} closed (ensureReady)`);
-        for (const [shellId, shell] of activeShells.entries()) {
-          if (shell.connectionId === connectionId) {
-            activeShells.delete(shellId);
-            allWindows.forEach(win => {
-              if (!win.isDestroyed()) {
-                win.webContents.send(`ssh:close:${shellId}`);
-              }
-            });
-          }
-        }
-        activeConnections.delete(connectionId);
-      });
+ipcMain.handle('connection:getStates', () => {
+  return Array.from(connectionStatuses.values());
+});
 
-      client.connect(config);
-    });
+// Ensure connection is ready with SFTP initialized
+ipcMain.handle('ssh:ensureReady', async (_event, connectionId: string) => {
+  // If not connected, establish connection
+  if (!activeConnections.has(connectionId)) {
+    await connectNow(connectionId);
   }
+  const conn = activeConnections.get(connectionId);
 
   // If SFTP not initialized, initialize it
   if (conn && !conn.sftp) {
@@ -689,7 +2597,202 @@ ipcMain.handle('ssh:ensureReady', async (_event, connectionId: string) => {
 });
 
 // SSH Shell - now supports multiple shells per connection with auto-reconnect
-ipcMain.handle('ssh:shell', async (_event, connectionId: string, shellId?: string) => {
+const PROMPT_QUIET_MS = 1000;
+const PROMPT_TIMEOUT_MS = 5000;
+
+function stripAnsi(text: string): string {
+  return text.replace(/\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b[()][0-9A-Za-z]|\x1b[=>]/g, '');
+}
+
+// Resolve once the shell looks ready for input: the output ends in a prompt character, or it
+// has gone quiet after printing something (MOTD without a recognisable prompt).
+function waitForPrompt(stream: any): Promise<void> {
+  return new Promise((resolve) => {
+    let tail = '';
+    let quietTimer: NodeJS.Timeout | undefined;
+
+    const finish = () => {
+      clearTimeout(quietTimer);
+      clearTimeout(timeoutTimer);
+      stream.removeListener('data', onData);
+      stream.removeListener('close', finish);
+      resolve();
+    };
+    const onData = (data: Buffer) => {
+      tail = stripAnsi(tail + data.toString()).slice(-256);
+      clearTimeout(quietTimer);
+      if (/[$#%>]\s?$/.test(tail)) {
+        finish();
+        return;
+      }
+      quietTimer = setTimeout(finish, PROMPT_QUIET_MS);
+    };
+    const timeoutTimer = setTimeout(finish, PROMPT_TIMEOUT_MS);
+
+    stream.on('data', onData);
+    stream.once('close', finish);
+  });
+}
+
+// Single-quote a path for POSIX shells, leaving a leading ~/ outside the quotes so it expands
+function quoteRemotePath(dir: string): string {
+  const quote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+  if (dir === '~') return dir;
+  if (dir.startsWith('~/')) {
+    const rest = dir.slice(2);
+    return rest ? `~/${quote(rest)}` : '~/';
+  }
+  return quote(dir);
+}
+
+function getPersistentSessionCommand(tool: 'tmux' | 'screen', name: string, action: 'attach' | 'kill'): string {
+  if (tool === 'tmux') {
+    return action === 'attach' ? `tmux new-session -A -s ${name}` : `tmux kill-session -t ${name}`;
+  }
+  return action === 'attach' ? `screen -D -R -S ${name}` : `screen -S ${name} -X quit`;
+}
+
+// Change to the working directory, attach the persistent session (if any) and run the
+// connection's startup script once the prompt is up. A resumed tmux/screen session already
+// ran its startup script, so reattaching only types the attach command.
+async function runShellStartup(shellId: string, stream: any, connection: Connection | undefined, options: ShellOpenOptions): Promise<void> {
+  const directory = options.initialPath || connection?.defaultDirectory?.trim();
+  const persistent = activeShells.get(shellId)?.persistentSession;
+  const script = persistent && options.resume ? undefined : connection?.startupScript?.replace(/\r\n?/g, '\n').trim();
+  if ((!directory || directory === '/') && !script && !persistent) return;
+
+  await waitForPrompt(stream);
+  if (!activeShells.has(shellId)) return;
+
+  const lines: string[] = [];
+  if (directory && directory !== '/') {
+    lines.push(`cd ${quoteRemotePath(directory)}`);
+  }
+  if (persistent) {
+    lines.push(getPersistentSessionCommand(persistent.tool, persistent.name, 'attach'));
+  } else if (script) {
+    lines.push(script);
+  }
+  stream.write(lines.join('\n') + '\n');
+
+  // The startup script runs inside the new session, once it's drawn
+  if (persistent && script) {
+    await waitForPrompt(stream);
+    if (!activeShells.has(shellId)) return;
+    stream.write(script + '\n');
+  }
+}
+
+// Telnet terminals for devices without SSH (switches, PDUs). Each one has its own socket,
+// dialed through the connection's jump hosts or proxy like SSH. The connection shows as ready
+// while at least one of its telnet terminals is open.
+const TELNET_TERMINAL_TYPE = 'xterm-256color';
+const TELNET_LOGIN_WINDOW = 30000; // ms to watch for login prompts
+
+function updateTelnetState(connectionId: string): void {
+  const open = Array.from(activeShells.values()).some((s) => s.telnet && s.connectionId === connectionId);
+  if (open) {
+    if (connectionStatuses.get(connectionId)?.state !== 'ready') {
+      setConnectionState(connectionId, 'ready');
+    }
+  } else if (connectionStatuses.has(connectionId)) {
+    setConnectionState(connectionId, 'disconnected');
+  }
+}
+
+// Fill the login and password prompts most devices show, once each, from the saved username
+// and password. Any other prompt is left to the user.
+function answerTelnetLogin(session: TelnetSession, connection: Connection): void {
+  let tail = '';
+  let sentUser = false;
+  const stop = () => {
+    clearTimeout(timer);
+    session.removeListener('data', onData);
+  };
+  const onData = async (data: Buffer) => {
+    tail = stripAnsi(tail + data.toString()).slice(-128);
+    if (!sentUser && connection.username && /(login|user ?name)\s*:\s*$/i.test(tail)) {
+      sentUser = true;
+      tail = '';
+      session.write(connection.username + '\r');
+    } else if (/password\s*:\s*$/i.test(tail)) {
+      stop();
+      const password = await getConnectionSecret(connection, 'password').catch(() => undefined);
+      if (password) {
+        session.write(password + '\r', false);
+      }
+    }
+  };
+  const timer = setTimeout(stop, TELNET_LOGIN_WINDOW);
+  session.on('data', onData);
+  session.once('close', stop);
+}
+
+async function openTelnetShell(connection: Connection, shellId: string, options: ShellOpenOptions): Promise<{ success: boolean; shellId: string }> {
+  const connectionId = connection.id;
+  if (!connectionStatuses.has(connectionId)) {
+    setConnectionState(connectionId, 'connecting');
+  }
+
+  let jumpClients: Client[] = [];
+  let session: TelnetSession;
+  try {
+    const opened = await openConnectionSocket(connection);
+    jumpClients = opened.jumpClients;
+    const timeout = (connection.advanced?.readyTimeout ?? DEFAULT_READY_TIMEOUT) * 1000;
+    const socket = (opened.sock as Duplex | undefined) || await connectTcp(connection.host, connection.port, timeout);
+    session = new TelnetSession(socket, { terminalType: TELNET_TERMINAL_TYPE, cols: options.cols, rows: options.rows });
+  } catch (err) {
+    closeJumpClients(jumpClients);
+    updateTelnetState(connectionId);
+    throw err;
+  }
+
+  activeShells.set(shellId, { stream: session, connectionId, telnet: true });
+  updateTelnetState(connectionId);
+
+  const log = openSessionLog(connection);
+  session.on('data', (data: Buffer) => {
+    const text = data.toString();
+    recordShellOutput(shellId, text);
+    log?.write(text);
+    allWindows.forEach(win => {
+      if (!win.isDestroyed()) {
+        win.webContents.send(`ssh:data:${shellId}`, text);
+      }
+    });
+  });
+  session.on('error', (err: Error) => {
+    console.log(`Telnet ${connection.name}: ${err.message}`);
+  });
+  session.on('close', () => {
+    log?.close();
+    closeJumpClients(jumpClients);
+    // Closed by the device or the network - shellClose and disconnect remove the shell first
+    if (activeShells.delete(shellId)) {
+      allWindows.forEach(win => {
+        if (!win.isDestroyed()) {
+          win.webContents.send(`ssh:close:${shellId}`, { reason: 'exit' });
+        }
+      });
+    }
+    updateTelnetState(connectionId);
+  });
+
+  answerTelnetLogin(session, connection);
+  return { success: true, shellId };
+}
+
+ipcMain.handle('ssh:shell', async (_event, connectionId: string, shellId?: string, options: ShellOpenOptions = {}) => {
+  const telnetConnection = store.get('connections').find((c) => c.id === connectionId && c.protocol === 'telnet');
+  if (telnetConnection) {
+    return openTelnetShell(telnetConnection, shellId || `telnet-${connectionId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, options);
+  }
+
+  // A dropped connection that is still open in the UI reconnects right away
+  if (!activeConnections.has(connectionId) && connectionStatuses.has(connectionId)) {
+    await connectNow(connectionId);
+  }
   let conn = activeConnections.get(connectionId);
   if (!conn) {
     throw new Error('Not connected');
@@ -698,42 +2801,65 @@ ipcMain.handle('ssh:shell', async (_event, connectionId: string, shellId?: strin
   // Generate shell ID if not provided
   const actualShellId = shellId || `shell-${connectionId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
+  const connection = store.get('connections').find((c) => c.id === connectionId);
+  const env = connection?.env && Object.keys(connection.env).length > 0 ? connection.env : undefined;
+  const ptyWindow = options.cols && options.rows ? { cols: options.cols, rows: options.rows } : {};
+  const persistentSession = connection?.persistentSession && options.sessionName && /^[\w.-]+$/.test(options.sessionName)
+    ? { tool: connection.persistentSession, name: options.sessionName }
+    : undefined;
+
   // Helper function to create shell on a connection
   const createShell = (client: Client): Promise<{ success: boolean; shellId: string }> => {
     return new Promise((resolve, reject) => {
-      client.shell((err, stream) => {
+      const onShell: ClientCallback = (err, stream) => {
         if (err) {
           reject(err);
           return;
         }
 
         // Store the shell session
-        activeShells.set(actualShellId, { stream, connectionId });
+        activeShells.set(actualShellId, { stream, connectionId, persistentSession });
 
+        const log = connection ? openSessionLog(connection) : undefined;
         stream.on('data', (data: Buffer) => {
           // Send data to the specific shell channel
+          const text = data.toString();
+          recordShellOutput(actualShellId, text);
+          log?.write(text);
           allWindows.forEach(win => {
             if (!win.isDestroyed()) {
-              win.webContents.send(`ssh:data:${actualShellId}`, data.toString());
+              win.webContents.send(`ssh:data:${actualShellId}`, text);
             }
           });
         });
 
         stream.on('close', () => {
-          // Clean up and notify - only if not already cleaned up by shellClose
-          if (activeShells.has(actualShellId)) {
-            activeShells.delete(actualShellId);
-            releaseChannel(connectionId);
-          }
+          log?.close();
+          // Clean up and notify - unless shellClose or a connection drop already did
+          if (!activeShells.has(actualShellId)) return;
+          activeShells.delete(actualShellId);
+          releaseChannel(connectionId);
           allWindows.forEach(win => {
             if (!win.isDestroyed()) {
-              win.webContents.send(`ssh:close:${actualShellId}`);
+              win.webContents.send(`ssh:close:${actualShellId}`, { reason: 'exit' });
             }
           });
         });
 
+        // Runs alongside the session; the stream can close before the prompt shows up
+        runShellStartup(actualShellId, stream, connection, options).catch((err) => {
+          console.error(`Startup commands failed for ${connection?.name || connectionId}:`, err.message);
+        });
+
+        markConnectionHealthy(connectionId);
         resolve({ success: true, shellId: actualShellId });
-      });
+      };
+
+      if (env) {
+        client.shell(ptyWindow, { env }, onShell);
+      } else {
+        client.shell(ptyWindow, onShell);
+      }
     });
   };
 
@@ -749,6 +2875,7 @@ ipcMain.handle('ssh:shell', async (_event, connectionId: string, shellId?: strin
     if (err.message?.includes('Channel open failure') || err.message?.includes('Channel closed')) {
       console.log(`Channel failure for ${connectionId}, attempting reconnection...`);
       releaseChannel(connectionId);
+      markConnectionDegraded(connectionId, err.message);
 
       // Check if connection is alive
       const isAlive = await isConnectionAlive(connectionId);
@@ -804,6 +2931,14 @@ ipcMain.handle('ssh:shellClose', async (_event, shellId: string) => {
     } catch (e) {
       // Stream may already be closed
     }
+    // The pane is gone for good, so its tmux/screen session has nobody to reattach
+    const conn = activeConnections.get(shell.connectionId);
+    if (shell.persistentSession && conn) {
+      const { tool, name } = shell.persistentSession;
+      conn.client.exec(getPersistentSessionCommand(tool, name, 'kill'), (err, stream) => {
+        if (!err) stream.resume();
+      });
+    }
   }
   return { success: true };
 });
@@ -819,72 +2954,213 @@ ipcMain.handle('ssh:resize', (_event, shellId: string, cols: number, rows: numbe
   const shell = activeShells.get(shellId);
   if (shell) {
     shell.stream.setWindow(rows, cols, 0, 0);
+    recordShellResize(shellId, cols, rows);
   }
 });
 
-// Local Shell (Personal Console) handlers
-ipcMain.handle('local:shell', async (_event) => {
-  const shellId = `local-shell-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+// Session logs - connections with sessionLog set write each terminal's output as plain text
+// to <userData>/session-logs/<connection name>. A resumed terminal starts a new file.
+function getSessionLogDir(connection: Connection): string {
+  return path.join(app.getPath('userData'), 'session-logs', fileSafeName(connection.name));
+}
 
-  // Determine the shell to use based on platform
-  const isWindows = process.platform === 'win32';
-  const shellCmd = isWindows ? 'cmd.exe' : (process.env.SHELL || '/bin/bash');
-  const shellArgs = isWindows ? [] : [];
+function openSessionLog(connection: Connection): SessionLog | undefined {
+  return connection.sessionLog ? new SessionLog(getSessionLogDir(connection), connection.name, connection.sessionLog) : undefined;
+}
 
-  // Use saved path or default to home directory
-  const savedPath = store.get('lastLocalConsolePath') as string | undefined;
-  const defaultPath = process.env.HOME || process.env.USERPROFILE || '/';
-  let startPath = savedPath || defaultPath;
+ipcMain.handle('sessionLog:showFolder', (_event, connectionId: string) => {
+  const connection = store.get('connections').find((c) => c.id === connectionId);
+  const dir = connection ? getSessionLogDir(connection) : path.join(app.getPath('userData'), 'session-logs');
+  fs.mkdirSync(dir, { recursive: true });
+  shell.openPath(dir);
+});
 
-  // Verify the path exists, fallback to default if not
-  if (savedPath && !fs.existsSync(savedPath)) {
-    startPath = defaultPath;
-  }
+// Session recordings - a terminal pane records its shell's output into an asciicast file in
+// <userData>/recordings. Recordings are keyed by their own ID rather than the shell's, so a
+// pane that resumes after a connection drop keeps writing to the same file.
+interface RecordingInfo {
+  fileName: string;
+  title: string;
+  startedAt: number;
+  duration: number; // Seconds, from the file's last write
+  size: number;
+  active: boolean;
+}
 
-  const proc = spawn(shellCmd, shellArgs, {
-    cwd: startPath,
-    env: {
-      ...process.env,
-      TERM: 'xterm-256color',
-      COLORTERM: 'truecolor',
-    },
-    shell: false,
-    windowsHide: false,
+const activeRecordings = new Map<string, CastRecorder>();
+
+function getRecordingsDir(): string {
+  return path.join(app.getPath('userData'), 'recordings');
+}
+
+// Recording file names come from the renderer - keep them inside the recordings folder
+function getRecordingPath(fileName: string): string | null {
+  return /^[\w.-]+\.cast$/.test(fileName) ? path.join(getRecordingsDir(), fileName) : null;
+}
+
+function recordShellOutput(shellId: string, data: string): void {
+  activeRecordings.forEach((recorder) => {
+    if (recorder.shellId === shellId) recorder.output(data);
   });
+}
 
-  activeLocalShells.set(shellId, { process: proc, cols: 80, rows: 24 });
+function recordShellResize(shellId: string, cols: number, rows: number): void {
+  activeRecordings.forEach((recorder) => {
+    if (recorder.shellId === shellId) recorder.resize(cols, rows);
+  });
+}
 
-  proc.stdout?.on('data', (data: Buffer) => {
-    allWindows.forEach(win => {
-      if (!win.isDestroyed()) {
-        win.webContents.send(`local:data:${shellId}`, data.toString());
-      }
+ipcMain.handle('recording:start', (_event, shellId: string, connectionId: string, cols: number, rows: number) => {
+  const connection = store.get('connections').find((c) => c.id === connectionId);
+  const title = connection ? connection.name : connectionId;
+  try {
+    fs.mkdirSync(getRecordingsDir(), { recursive: true });
+    const now = new Date();
+    let fileName = timestampedFileName(title, now, 'cast');
+    for (let n = 2; fs.existsSync(path.join(getRecordingsDir(), fileName)); n++) {
+      fileName = timestampedFileName(`${title}-${n}`, now, 'cast');
+    }
+    const recordingId = crypto.randomUUID();
+    activeRecordings.set(recordingId, new CastRecorder(path.join(getRecordingsDir(), fileName), shellId, { width: cols, height: rows, title }));
+    return { success: true, recordingId, fileName };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+});
+
+// Point a recording at the pane's new shell after a resume
+ipcMain.handle('recording:attach', (_event, recordingId: string, shellId: string) => {
+  const recorder = activeRecordings.get(recordingId);
+  if (recorder) {
+    recorder.shellId = shellId;
+  }
+  return { success: !!recorder };
+});
+
+ipcMain.handle('recording:stop', async (_event, recordingId: string) => {
+  const recorder = activeRecordings.get(recordingId);
+  if (!recorder) {
+    return { success: false, error: 'Not recording' };
+  }
+  activeRecordings.delete(recordingId);
+  await recorder.close();
+  return { success: true };
+});
+
+ipcMain.handle('recording:list', (): RecordingInfo[] => {
+  let files: string[];
+  try {
+    files = fs.readdirSync(getRecordingsDir()).filter((file) => file.endsWith('.cast'));
+  } catch (err) {
+    return [];
+  }
+  const activePaths = new Set(Array.from(activeRecordings.values()).map((recorder) => recorder.filePath));
+  const recordings: RecordingInfo[] = [];
+  for (const fileName of files) {
+    const filePath = path.join(getRecordingsDir(), fileName);
+    const header = readCastHeader(filePath);
+    if (!header) continue;
+    const stat = fs.statSync(filePath);
+    const startedAt = header.timestamp ? header.timestamp * 1000 : stat.birthtimeMs;
+    recordings.push({
+      fileName,
+      title: header.title || fileName,
+      startedAt,
+      duration: header.duration ?? Math.max(0, (stat.mtimeMs - startedAt) / 1000),
+      size: stat.size,
+      active: activePaths.has(filePath),
     });
-  });
+  }
+  return recordings.sort((a, b) => b.startedAt - a.startedAt);
+});
 
-  proc.stderr?.on('data', (data: Buffer) => {
-    allWindows.forEach(win => {
-      if (!win.isDestroyed()) {
-        win.webContents.send(`local:data:${shellId}`, data.toString());
-      }
+ipcMain.handle('recording:load', (_event, fileName: string): { success: boolean; recording?: CastRecording; error?: string } => {
+  const filePath = getRecordingPath(fileName);
+  if (!filePath) {
+    return { success: false, error: 'Invalid recording name' };
+  }
+  try {
+    return { success: true, recording: parseCast(fs.readFileSync(filePath, 'utf-8')) };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+});
+
+ipcMain.handle('recording:delete', (_event, fileName: string) => {
+  const filePath = getRecordingPath(fileName);
+  if (!filePath) {
+    return { success: false, error: 'Invalid recording name' };
+  }
+  if (Array.from(activeRecordings.values()).some((recorder) => recorder.filePath === filePath)) {
+    return { success: false, error: 'Stop the recording first' };
+  }
+  fs.rmSync(filePath, { force: true });
+  return { success: true };
+});
+
+ipcMain.handle('recording:showFolder', () => {
+  fs.mkdirSync(getRecordingsDir(), { recursive: true });
+  shell.openPath(getRecordingsDir());
+});
+
+// Local Shell (Personal Console) handlers
+function getLocalProfile(profileId?: string): LocalProfile {
+  const profiles = store.get('localProfiles');
+  return profiles.find((p) => p.id === profileId)
+    || profiles.find((p) => p.id === DEFAULT_LOCAL_PROFILE_ID)
+    || defaultLocalProfiles[0];
+}
+
+// Stores from before profiles had a single saved path, which now belongs to the default shell
+function migrateLocalConsolePath(): void {
+  const legacyPath = store.get('lastLocalConsolePath');
+  if (!legacyPath) return;
+  const localConsolePaths = store.get('localConsolePaths');
+  if (!localConsolePaths[DEFAULT_LOCAL_PROFILE_ID]) {
+    localConsolePaths[DEFAULT_LOCAL_PROFILE_ID] = legacyPath;
+    store.set('localConsolePaths', localConsolePaths);
+  }
+  store.delete('lastLocalConsolePath');
+}
+
+ipcMain.handle('local:shell', async (_event, profileId?: string, cols?: number, rows?: number) => {
+  const shellId = `local-shell-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+  // Unknown ids (profile deleted since the tab opened) fall back to the default shell
+  const profile = getLocalProfile(profileId);
+  const launch = resolveLocalLaunch(profile, store.get('localConsolePaths')[profile.id]);
+
+  // A pseudo-terminal rather than pipes, so full-screen programs, password prompts,
+  // job control and resizes behave as they do over SSH
+  let proc: pty.IPty;
+  try {
+    proc = pty.spawn(launch.file, launch.args, {
+      name: 'xterm-256color',
+      cols: cols && cols > 0 ? cols : 80,
+      rows: rows && rows > 0 ? rows : 24,
+      cwd: launch.cwd,
+      env: launch.env,
     });
-  });
+  } catch (err: any) {
+    console.error('Local shell error:', err);
+    return { success: false, error: `Failed to start ${launch.file}: ${err.message}` };
+  }
 
-  proc.on('close', (code) => {
-    activeLocalShells.delete(shellId);
+  activeLocalShells.set(shellId, { process: proc });
+
+  proc.onData((data) => {
     allWindows.forEach(win => {
       if (!win.isDestroyed()) {
-        win.webContents.send(`local:close:${shellId}`, code);
+        win.webContents.send(`local:data:${shellId}`, data);
       }
     });
   });
 
-  proc.on('error', (err) => {
-    console.error('Local shell error:', err);
+  proc.onExit(({ exitCode }) => {
     activeLocalShells.delete(shellId);
     allWindows.forEach(win => {
       if (!win.isDestroyed()) {
-        win.webContents.send(`local:close:${shellId}`, -1);
+        win.webContents.send(`local:close:${shellId}`, exitCode);
       }
     });
   });
@@ -907,33 +3183,65 @@ ipcMain.handle('local:shellClose', async (_event, shellId: string) => {
 
 ipcMain.handle('local:write', (_event, shellId: string, data: string) => {
   const localShell = activeLocalShells.get(shellId);
-  if (localShell && localShell.process.stdin) {
-    localShell.process.stdin.write(data);
+  if (localShell) {
+    localShell.process.write(data);
   }
 });
 
 ipcMain.handle('local:resize', (_event, shellId: string, cols: number, rows: number) => {
   const localShell = activeLocalShells.get(shellId);
-  if (localShell) {
-    localShell.cols = cols;
-    localShell.rows = rows;
-    // Note: child_process doesn't support resize like pty, but we store the values
-    // For full PTY support, node-pty would be needed
+  if (localShell && cols > 0 && rows > 0) {
+    try {
+      localShell.process.resize(cols, rows);
+    } catch (e) {
+      // Process may have exited between the check and the resize
+    }
   }
 });
 
-// Save the last local console path
-ipcMain.handle('local:savePath', (_event, dirPath: string) => {
+// Save the starting folder for new consoles of a profile
+ipcMain.handle('local:savePath', (_event, dirPath: string, profileId?: string) => {
   if (dirPath && fs.existsSync(dirPath)) {
-    store.set('lastLocalConsolePath', dirPath);
+    const localConsolePaths = store.get('localConsolePaths');
+    localConsolePaths[getLocalProfile(profileId).id] = dirPath;
+    store.set('localConsolePaths', localConsolePaths);
     return { success: true, path: dirPath };
   }
   return { success: false, error: 'Invalid path' };
 });
 
-// Get the saved local console path
-ipcMain.handle('local:getSavedPath', () => {
-  return store.get('lastLocalConsolePath') || process.env.HOME || process.env.USERPROFILE || '/';
+// Get the folder new consoles of a profile start in
+ipcMain.handle('local:getSavedPath', (_event, profileId?: string) => {
+  const profile = getLocalProfile(profileId);
+  return resolveLocalLaunch(profile, store.get('localConsolePaths')[profile.id]).cwd;
+});
+
+// Local console profiles management
+ipcMain.handle('localProfiles:getAll', () => {
+  return store.get('localProfiles');
+});
+
+ipcMain.handle('localProfiles:save', (_event, profile: LocalProfile) => {
+  const profiles = store.get('localProfiles');
+  const existingIndex = profiles.findIndex((p) => p.id === profile.id);
+
+  if (existingIndex >= 0) {
+    profiles[existingIndex] = profile;
+  } else {
+    profiles.push(profile);
+  }
+
+  store.set('localProfiles', profiles);
+  return profiles;
+});
+
+ipcMain.handle('localProfiles:delete', (_event, profileId: string) => {
+  const profiles = store.get('localProfiles').filter((p) => p.id !== profileId);
+  store.set('localProfiles', profiles);
+  const localConsolePaths = store.get('localConsolePaths');
+  delete localConsolePaths[profileId];
+  store.set('localConsolePaths', localConsolePaths);
+  return profiles;
 });
 
 // Execute SSH command and return output (for dashboard widgets)
@@ -988,9 +3296,13 @@ ipcMain.handle('ssh:exec', async (_event, connectionId: string, command: string)
             });
           });
         });
+        markConnectionHealthy(connectionId);
         return result;
       } catch (err: any) {
         lastError = err;
+        if (err.message?.includes('Channel open failure') || err.message === 'Command execution timed out') {
+          markConnectionDegraded(connectionId, err.message);
+        }
         // If it's a channel open failure, wait briefly and retry
         if (err.message?.includes('Channel open failure') && attempt < maxRetries) {
           await new Promise(r => setTimeout(r, 1000));
@@ -1017,7 +3329,7 @@ ipcMain.handle('ssh:execSudo', async (_event, connectionId: string, command: str
   // Get the stored connection to retrieve password if available
   const connections = store.get('connections');
   const connection = connections.find((c) => c.id === connectionId);
-  const sudoPassword = password || connection?.password || '';
+  const sudoPassword = password || (connection ? await getConnectionSecret(connection, 'password') : undefined) || '';
 
   const sudoCommand = sudoPassword
     ? `echo '${sudoPassword.replace(/'/g, "'\\''")}' | sudo -S ${command}`
@@ -1929,11 +4241,11 @@ ipcMain.handle('github:push', async (_event, token: string, repo: string, filePa
     const packages = store.get('packages', []);
     const tabGroups = store.get('tabGroups', []);
 
-    // Create config object to sync (exclude sensitive GitHub token)
+    // Create config object to sync (exclude sensitive GitHub token and any secrets not yet in the vault)
     const config = {
       version: 1,
       exportedAt: new Date().toISOString(),
-      connections: connections,
+      connections: connections.map(({ password: _password, totpSecret: _totpSecret, proxyPassword: _proxyPassword, ...rest }) => rest),
       preferences: { ...preferences, githubToken: undefined }, // Don't sync the token
       shortcuts: shortcuts,
       packages: packages,
@@ -2021,7 +4333,12 @@ ipcMain.handle('github:pull', async (_event, token: string, repo: string, filePa
 
     // Save to electron-store
     if (config.connections) {
-      store.set('connections', config.connections);
+      const localConnections = new Map(store.get('connections').map((c) => [c.id, c]));
+      store.set('connections', (config.connections as Connection[]).map((c) => mergePulledSecretIds(c, localConnections.get(c.id))));
+      // Configs pushed by older versions may still carry plaintext passwords
+      migrateConnectionSecrets();
+      pruneUnusedSecrets();
+      broadcastVaultStatus();
     }
     if (config.preferences) {
       // Merge preferences but keep the local token
@@ -2098,6 +4415,29 @@ ipcMain.handle('dialog:selectPrivateKey', async () => {
   return result.filePaths[0];
 });
 
+// Certificates usually sit next to their key as <key>-cert.pub
+ipcMain.handle('dialog:selectCertificate', async (_event, keyPath?: string) => {
+  const suggested = keyPath ? `${keyPath}-cert.pub` : undefined;
+  const result = await dialog.showOpenDialog(mainWindow!, {
+    defaultPath: suggested && fs.existsSync(suggested) ? suggested : keyPath && path.dirname(keyPath),
+    properties: ['openFile'],
+    filters: [
+      { name: 'OpenSSH Certificate', extensions: ['pub'] },
+      { name: 'All Files', extensions: ['*'] },
+    ],
+  });
+  return result.filePaths[0];
+});
+
+ipcMain.handle('sshCert:inspect', (_event, certPath: string): { info?: CertificateInfo; problem?: string; error?: string } => {
+  try {
+    const cert = readCertificate(certPath);
+    return { info: describeCertificate(cert), problem: getCertificateProblem(cert) || undefined };
+  } catch (err: any) {
+    return { error: err.message };
+  }
+});
+
 ipcMain.handle('app:getTempPath', (_event, fileName: string) => {
   const tempDir = app.getPath('temp');
   const uniqueName = `${Date.now()}-${fileName}`;
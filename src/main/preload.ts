@@ -1,4 +1,6 @@
 import { contextBridge, ipcRenderer } from 'electron';
+// Type-only, so the preload bundle stays free of main-process modules
+import type { DiagnosticStage } from './diagnostics';
 
 interface Connection {
   id: string;
@@ -6,10 +8,69 @@ interface Connection {
   host: string;
   port: number;
   username: string;
+  protocol?: 'ssh' | 'telnet'; // Defaults to 'ssh'
   password?: string;
+  passwordSecretId?: string;
   privateKey?: string;
+  certificate?: string;
   avatarIcon?: string;
   avatarColor?: string;
+  jumpHosts?: string[]; // IDs of saved connections to hop through, in order
+  authMethod?: 'password' | 'key' | 'agent' | 'multiple'; // Defaults to 'key' when privateKey is set, else 'password'
+  authMethods?: AuthMethodEntry[]; // Tried in order when authMethod is 'multiple'
+  agentPath?: string; // Agent socket/pipe; falls back to SSH_AUTH_SOCK
+  agentForward?: boolean;
+  totpSecret?: string; // Base32 secret; auto-answers "Verification code" prompts
+  totpSecretId?: string;
+  folder?: string; // Sidebar folder path, nested with '/' (e.g. "Prod/EU")
+  tags?: string[]; // Free-form labels such as env:prod or role:db
+  advanced?: AdvancedSettings;
+  proxy?: ProxySettings; // Unset = default proxy from Preferences, type 'none' = direct
+  proxyPassword?: string; // Only set when entering a new password - saved ones live in the vault
+  proxyPasswordSecretId?: string;
+  env?: Record<string, string>;
+  startupScript?: string;
+  defaultDirectory?: string;
+  persistentSession?: 'tmux' | 'screen';
+  sessionLog?: SessionLogSettings;
+}
+
+// One step of an ordered auth list; password and agent use the connection's own settings
+type AuthMethodEntry =
+  | { type: 'key'; privateKey: string; certificate?: string }
+  | { type: 'agent' }
+  | { type: 'password' }
+  | { type: 'keyboard-interactive' };
+
+interface SessionLogSettings {
+  timestamps?: boolean;
+  maxSizeMB?: number;
+  maxAgeHours?: number;
+}
+
+// Per-connection transport tuning; algorithm lists use OpenSSH syntax (+append, -remove, ^prepend)
+interface AdvancedSettings {
+  kexAlgorithms?: string;
+  ciphers?: string;
+  macs?: string;
+  hostKeyAlgorithms?: string;
+  compression?: boolean;
+  keepaliveInterval?: number; // Seconds, 0 disables keepalives
+  keepaliveCountMax?: number;
+  readyTimeout?: number; // Seconds
+}
+
+interface ProxySettings {
+  type: 'none' | 'socks5' | 'http';
+  host: string;
+  port: number;
+  username?: string;
+}
+
+// Default proxy as configured in Preferences
+interface DefaultProxy extends ProxySettings {
+  password?: string; // Only set when entering a new password
+  passwordSecretId?: string;
 }
 
 interface FileInfo {
@@ -37,6 +98,15 @@ interface PackageShortcut {
   category: 'container' | 'runtime' | 'tool' | 'custom';
 }
 
+interface LocalProfile {
+  id: string;
+  name: string;
+  command?: string; // Empty for the default shell
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+}
+
 interface CommandResult {
   stdout: string;
   stderr: string;
@@ -50,6 +120,95 @@ interface TabGroup {
   collapsed: boolean;
 }
 
+interface VaultStatus {
+  mode: 'safeStorage' | 'master' | null;
+  locked: boolean;
+  safeStorageAvailable: boolean;
+  secretCount: number;
+  plaintextCount: number;
+}
+
+interface ShellOpenOptions {
+  initialPath?: string;
+  cols?: number;
+  rows?: number;
+  sessionName?: string;
+  resume?: boolean;
+}
+
+interface InventoryImportOptions {
+  mapping: Partial<Record<'name' | 'host' | 'port' | 'username' | 'privateKey' | 'folder' | 'tags', string>>;
+  groupsAs: 'folders' | 'tags' | 'none';
+  parentFolder?: string;
+}
+
+interface InventoryImportPreview {
+  success: boolean;
+  filePath: string;
+  format?: 'csv' | 'json' | 'ansible-ini' | 'ansible-yaml' | 'ansible-json';
+  columns: string[];
+  hasGroups?: boolean;
+  options?: InventoryImportOptions;
+  entries: {
+    label: string;
+    action: 'add' | 'update' | 'unchanged' | 'skip';
+    connection?: Connection;
+    existingName?: string;
+    changes?: { field: string; from?: string; to?: string }[];
+    reason?: string;
+  }[];
+  error?: string;
+}
+
+interface ConnectionStatus {
+  connectionId: string;
+  state: 'connecting' | 'ready' | 'degraded' | 'reconnecting' | 'lost' | 'disconnected';
+  attempt?: number;
+  nextRetryAt?: number;
+  error?: string;
+  authMethod?: string;
+}
+
+interface CertificateInspection {
+  info?: {
+    keyType: string;
+    certType: 'user' | 'host';
+    keyId: string;
+    serial: string;
+    principals: string[];
+    validAfter: number | null;
+    validBefore: number | null;
+    caFingerprint: string;
+  };
+  problem?: string;
+  error?: string;
+}
+
+interface ManagedKey {
+  name: string;
+  type: string;
+  comment: string;
+  fingerprint: string;
+  privateKeyPath: string;
+  publicKey: string;
+  encrypted: boolean;
+  createdAt: number;
+}
+
+interface RecordingInfo {
+  fileName: string;
+  title: string;
+  startedAt: number;
+  duration: number;
+  size: number;
+  active: boolean;
+}
+
+interface CastRecording {
+  header: { version: 2; width: number; height: number; timestamp?: number; duration?: number; title?: string; env?: Record<string, string> };
+  events: [number, string, string][];
+}
+
 const electronAPI = {
   // Window controls
   minimize: () => ipcRenderer.invoke('window:minimize'),
@@ -71,8 +230,21 @@ const electronAPI = {
   disconnect: (connectionId: string) => ipcRenderer.invoke('ssh:disconnect', connectionId),
   ensureReady: (connectionId: string): Promise<{ success: boolean; connectionId: string }> =>
     ipcRenderer.invoke('ssh:ensureReady', connectionId),
-  shell: (connectionId: string, shellId?: string): Promise<{ success: boolean; shellId: string }> =>
-    ipcRenderer.invoke('ssh:shell', connectionId, shellId),
+  getConnectionStates: (): Promise<ConnectionStatus[]> => ipcRenderer.invoke('connection:getStates'),
+  onConnectionState: (callback: (status: ConnectionStatus) => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, status: ConnectionStatus) => callback(status);
+    ipcRenderer.on('connection:state', listener);
+    return () => ipcRenderer.removeListener('connection:state', listener);
+  },
+  testConnection: (testId: string, connection: Connection): Promise<DiagnosticStage[]> =>
+    ipcRenderer.invoke('ssh:test', testId, connection),
+  onTestProgress: (callback: (progress: { testId: string; stages: DiagnosticStage[] }) => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, progress: { testId: string; stages: DiagnosticStage[] }) => callback(progress);
+    ipcRenderer.on('ssh:testProgress', listener);
+    return () => ipcRenderer.removeListener('ssh:testProgress', listener);
+  },
+  shell: (connectionId: string, shellId?: string, options?: ShellOpenOptions): Promise<{ success: boolean; shellId: string }> =>
+    ipcRenderer.invoke('ssh:shell', connectionId, shellId, options),
   shellClose: (shellId: string): Promise<{ success: boolean }> =>
     ipcRenderer.invoke('ssh:shellClose', shellId),
   write: (shellId: string, data: string) => ipcRenderer.invoke('ssh:write', shellId, data),
@@ -90,16 +262,16 @@ const electronAPI = {
     ipcRenderer.on(channel, listener);
     return () => ipcRenderer.removeListener(channel, listener);
   },
-  onClose: (shellId: string, callback: () => void) => {
+  onClose: (shellId: string, callback: (info: { reason: 'exit' | 'dropped' }) => void) => {
     const channel = `ssh:close:${shellId}`;
-    const listener = () => callback();
+    const listener = (_event: Electron.IpcRendererEvent, info?: { reason: 'exit' | 'dropped' }) => callback(info || { reason: 'exit' });
     ipcRenderer.on(channel, listener);
     return () => ipcRenderer.removeListener(channel, listener);
   },
 
   // Local Shell (Personal Console)
-  localShell: (): Promise<{ success: boolean; shellId: string }> =>
-    ipcRenderer.invoke('local:shell'),
+  localShell: (profileId?: string, cols?: number, rows?: number): Promise<{ success: boolean; shellId?: string; error?: string }> =>
+    ipcRenderer.invoke('local:shell', profileId, cols, rows),
   localShellClose: (shellId: string): Promise<{ success: boolean }> =>
     ipcRenderer.invoke('local:shellClose', shellId),
   localWrite: (shellId: string, data: string) =>
@@ -118,10 +290,16 @@ const electronAPI = {
     ipcRenderer.on(channel, listener);
     return () => ipcRenderer.removeListener(channel, listener);
   },
-  localSavePath: (dirPath: string): Promise<{ success: boolean; path?: string; error?: string }> =>
-    ipcRenderer.invoke('local:savePath', dirPath),
-  localGetSavedPath: (): Promise<string> =>
-    ipcRenderer.invoke('local:getSavedPath'),
+  localSavePath: (dirPath: string, profileId?: string): Promise<{ success: boolean; path?: string; error?: string }> =>
+    ipcRenderer.invoke('local:savePath', dirPath, profileId),
+  localGetSavedPath: (profileId?: string): Promise<string> =>
+    ipcRenderer.invoke('local:getSavedPath', profileId),
+  localProfilesGetAll: (): Promise<LocalProfile[]> =>
+    ipcRenderer.invoke('localProfiles:getAll'),
+  localProfilesSave: (profile: LocalProfile): Promise<LocalProfile[]> =>
+    ipcRenderer.invoke('localProfiles:save', profile),
+  localProfilesDelete: (profileId: string): Promise<LocalProfile[]> =>
+    ipcRenderer.invoke('localProfiles:delete', profileId),
 
   // SFTP
   sftpInit: (connectionId: string) => ipcRenderer.invoke('sftp:init', connectionId),
@@ -166,6 +344,8 @@ const electronAPI = {
   saveFileDialog: (defaultName: string): Promise<string | undefined> =>
     ipcRenderer.invoke('dialog:saveFile', defaultName),
   selectPrivateKey: (): Promise<string | undefined> => ipcRenderer.invoke('dialog:selectPrivateKey'),
+  selectCertificate: (keyPath?: string): Promise<string | undefined> => ipcRenderer.invoke('dialog:selectCertificate', keyPath),
+  inspectCertificate: (certPath: string): Promise<CertificateInspection> => ipcRenderer.invoke('sshCert:inspect', certPath),
   getTempPath: (fileName: string): Promise<string> => ipcRenderer.invoke('app:getTempPath', fileName),
   saveTempFile: (fileName: string, data: number[]): Promise<{ success: boolean; path?: string; error?: string }> =>
     ipcRenderer.invoke('app:saveTempFile', fileName, data),
@@ -260,6 +440,91 @@ const electronAPI = {
     return () => ipcRenderer.removeListener('terminal-copy', listener);
   },
 
+  // Prompts from the main process (key unlock, ...)
+  onPassphrasePrompt: (callback: (request: { requestId: string; connectionName: string; keyPath: string; error?: string; canStore: boolean }) => void) => {
+    const listener = (_event: any, request: { requestId: string; connectionName: string; keyPath: string; error?: string; canStore: boolean }) => callback(request);
+    ipcRenderer.on('auth:passphrasePrompt', listener);
+    return () => ipcRenderer.removeListener('auth:passphrasePrompt', listener);
+  },
+  onKeyboardInteractivePrompt: (callback: (request: { requestId: string; connectionName: string; name: string; instructions: string; prompts: { prompt: string; echo: boolean }[] }) => void) => {
+    const listener = (_event: any, request: { requestId: string; connectionName: string; name: string; instructions: string; prompts: { prompt: string; echo: boolean }[] }) => callback(request);
+    ipcRenderer.on('auth:keyboardInteractive', listener);
+    return () => ipcRenderer.removeListener('auth:keyboardInteractive', listener);
+  },
+  onHostKeyPrompt: (callback: (request: { requestId: string; connectionName: string; host: string; port: number; keyType: string; fingerprint: string; status: 'new' | 'changed'; knownFingerprint?: string }) => void) => {
+    const listener = (_event: any, request: { requestId: string; connectionName: string; host: string; port: number; keyType: string; fingerprint: string; status: 'new' | 'changed'; knownFingerprint?: string }) => callback(request);
+    ipcRenderer.on('auth:hostKeyPrompt', listener);
+    return () => ipcRenderer.removeListener('auth:hostKeyPrompt', listener);
+  },
+  onVaultUnlockPrompt: (callback: (request: { requestId: string; mode: 'safeStorage' | 'master'; error?: string }) => void) => {
+    const listener = (_event: any, request: { requestId: string; mode: 'safeStorage' | 'master'; error?: string }) => callback(request);
+    ipcRenderer.on('vault:unlockPrompt', listener);
+    return () => ipcRenderer.removeListener('vault:unlockPrompt', listener);
+  },
+  respondToPrompt: (requestId: string, response: unknown): Promise<{ success: boolean }> =>
+    ipcRenderer.invoke('prompt:respond', requestId, response),
+
+  // Credential vault
+  vaultStatus: (): Promise<VaultStatus> => ipcRenderer.invoke('vault:status'),
+  vaultSetup: (mode: 'safeStorage' | 'master', masterPassword?: string): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke('vault:setup', mode, masterPassword),
+  vaultUnlock: (masterPassword?: string): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke('vault:unlock', masterPassword),
+  vaultLock: (): Promise<{ success: boolean }> => ipcRenderer.invoke('vault:lock'),
+  onVaultStatus: (callback: (status: VaultStatus) => void) => {
+    const listener = (_event: any, status: VaultStatus) => callback(status);
+    ipcRenderer.on('vault:status', listener);
+    return () => ipcRenderer.removeListener('vault:status', listener);
+  },
+
+  // Default outbound proxy
+  proxyGetDefault: (): Promise<DefaultProxy | null> => ipcRenderer.invoke('proxy:getDefault'),
+  proxySetDefault: (proxy: DefaultProxy | null): Promise<{ success: boolean }> =>
+    ipcRenderer.invoke('proxy:setDefault', proxy),
+
+  // OpenSSH config import/export
+  sshConfigParse: (filePath?: string): Promise<{ success: boolean; filePath: string; entries: { connection: Connection; duplicateOf?: string; viaProxyJump?: boolean }[]; error?: string }> =>
+    ipcRenderer.invoke('sshConfig:parse', filePath),
+  sshConfigExport: (connectionIds?: string[]): Promise<{ success: boolean; filePath?: string; count?: number; canceled?: boolean; error?: string }> =>
+    ipcRenderer.invoke('sshConfig:export', connectionIds),
+
+  // Bulk import (CSV, JSON, Ansible inventory)
+  inventoryPreview: (filePath: string, options?: InventoryImportOptions): Promise<InventoryImportPreview> =>
+    ipcRenderer.invoke('inventory:preview', filePath, options),
+
+  // Known hosts
+  knownHostsGetAll: (): Promise<{ host: string; keyType: string; fingerprint: string; addedAt: number; source?: 'app' | 'known_hosts' }[]> =>
+    ipcRenderer.invoke('knownHosts:getAll'),
+  knownHostsRemove: (host: string, keyType?: string): Promise<{ success: boolean }> =>
+    ipcRenderer.invoke('knownHosts:remove', host, keyType),
+  knownHostsImport: (): Promise<{ success: boolean; imported: number; skipped: number; error?: string }> =>
+    ipcRenderer.invoke('knownHosts:import'),
+
+  // SSH key manager
+  keysList: (): Promise<ManagedKey[]> => ipcRenderer.invoke('keys:list'),
+  keysGenerate: (options: { name: string; type: 'ed25519' | 'rsa'; bits?: number; passphrase?: string; comment?: string }): Promise<{ success: boolean; key?: ManagedKey; error?: string }> =>
+    ipcRenderer.invoke('keys:generate', options),
+  keysDelete: (name: string): Promise<{ success: boolean; error?: string }> => ipcRenderer.invoke('keys:delete', name),
+  keysInstall: (name: string, connectionId: string): Promise<{ success: boolean; alreadyInstalled?: boolean; connections?: Connection[]; error?: string }> =>
+    ipcRenderer.invoke('keys:install', name, connectionId),
+
+  // Session recordings (asciicast v2)
+  recordingStart: (shellId: string, connectionId: string, cols: number, rows: number): Promise<{ success: boolean; recordingId?: string; fileName?: string; error?: string }> =>
+    ipcRenderer.invoke('recording:start', shellId, connectionId, cols, rows),
+  recordingAttach: (recordingId: string, shellId: string): Promise<{ success: boolean }> =>
+    ipcRenderer.invoke('recording:attach', recordingId, shellId),
+  recordingStop: (recordingId: string): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke('recording:stop', recordingId),
+  recordingList: (): Promise<RecordingInfo[]> => ipcRenderer.invoke('recording:list'),
+  recordingLoad: (fileName: string): Promise<{ success: boolean; recording?: CastRecording; error?: string }> =>
+    ipcRenderer.invoke('recording:load', fileName),
+  recordingDelete: (fileName: string): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke('recording:delete', fileName),
+  recordingShowFolder: (): Promise<void> => ipcRenderer.invoke('recording:showFolder'),
+
+  // Plain-text session logs
+  sessionLogShowFolder: (connectionId: string): Promise<void> => ipcRenderer.invoke('sessionLog:showFolder', connectionId),
+
   // Tunnel management
   tunnelCreate: (connectionId: string, config: {
     type: 'local' | 'remote';
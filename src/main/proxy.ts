@@ -0,0 +1,247 @@
+import * as net from 'net';
+
+// Outbound proxy support for SSH connections: opens a TCP socket to the proxy, negotiates a
+// tunnel to the target (SOCKS5 or HTTP CONNECT) and hands back the socket for ssh2's `sock`.
+
+export type ProxyType = 'none' | 'socks5' | 'http';
+
+export interface ProxySettings {
+  type: ProxyType;
+  host: string;
+  port: number;
+  username?: string;
+}
+
+const SOCKS_REPLY_ERRORS: Record<number, string> = {
+  1: 'general SOCKS server failure',
+  2: 'connection not allowed by ruleset',
+  3: 'network unreachable',
+  4: 'host unreachable',
+  5: 'connection refused',
+  6: 'TTL expired',
+  7: 'command not supported',
+  8: 'address type not supported',
+};
+
+// Buffers incoming handshake bytes so the negotiation can read exact lengths
+class HandshakeReader {
+  private buffer = Buffer.alloc(0);
+  private waiting: { test: () => boolean; resolve: () => void } | null = null;
+  private failure: Error | null = null;
+  private readonly onData = (data: Buffer) => {
+    this.buffer = Buffer.concat([this.buffer, data]);
+    this.check();
+  };
+  private readonly onError = (err: Error) => this.fail(err);
+  private readonly onClose = () => this.fail(new Error('Proxy closed the connection'));
+  private reject: ((err: Error) => void) | null = null;
+
+  constructor(private readonly socket: net.Socket) {
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+  }
+
+  read(length: number): Promise<Buffer> {
+    return this.waitUntil(() => this.buffer.length >= length).then(() => this.take(length));
+  }
+
+  // Read up to and including the delimiter (used for HTTP response headers)
+  readUntil(delimiter: string, maxLength = 16384): Promise<Buffer> {
+    return this.waitUntil(() => {
+      if (this.buffer.length > maxLength && this.buffer.indexOf(delimiter) === -1) {
+        throw new Error('Proxy response too large');
+      }
+      return this.buffer.indexOf(delimiter) !== -1;
+    }).then(() => this.take(this.buffer.indexOf(delimiter) + delimiter.length));
+  }
+
+  // Stop reading and give any bytes received past the handshake back to the socket
+  release(): void {
+    this.socket.removeListener('data', this.onData);
+    this.socket.removeListener('error', this.onError);
+    this.socket.removeListener('close', this.onClose);
+    this.socket.pause();
+    if (this.buffer.length > 0) {
+      this.socket.unshift(this.buffer);
+      this.buffer = Buffer.alloc(0);
+    }
+  }
+
+  private take(length: number): Buffer {
+    const chunk = this.buffer.subarray(0, length);
+    this.buffer = this.buffer.subarray(length);
+    return chunk;
+  }
+
+  private waitUntil(test: () => boolean): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (this.failure) {
+        reject(this.failure);
+        return;
+      }
+      this.waiting = { test, resolve };
+      this.reject = reject;
+      this.check();
+    });
+  }
+
+  private check(): void {
+    if (!this.waiting) return;
+    try {
+      if (this.waiting.test()) {
+        const { resolve } = this.waiting;
+        this.waiting = null;
+        this.reject = null;
+        resolve();
+      }
+    } catch (err: any) {
+      this.fail(err);
+    }
+  }
+
+  private fail(err: Error): void {
+    this.failure = this.failure || err;
+    if (this.reject) {
+      const reject = this.reject;
+      this.waiting = null;
+      this.reject = null;
+      reject(this.failure);
+    }
+  }
+}
+
+function encodeSocksAddress(host: string): Buffer {
+  if (net.isIPv4(host)) {
+    return Buffer.from([0x01, ...host.split('.').map((part) => parseInt(part, 10))]);
+  }
+  if (net.isIPv6(host)) {
+    const bytes = Buffer.alloc(16);
+    expandIPv6(host).forEach((group, i) => bytes.writeUInt16BE(group, i * 2));
+    return Buffer.concat([Buffer.from([0x04]), bytes]);
+  }
+  const name = Buffer.from(host, 'utf-8');
+  if (name.length > 255) {
+    throw new Error('Host name too long for SOCKS5');
+  }
+  return Buffer.concat([Buffer.from([0x03, name.length]), name]);
+}
+
+function expandIPv6(address: string): number[] {
+  const [head, tail] = address.split('::');
+  const parse = (part?: string) => (part ? part.split(':').map((group) => parseInt(group, 16)) : []);
+  const headGroups = parse(head);
+  const tailGroups = tail !== undefined ? parse(tail) : [];
+  const fill = new Array(8 - headGroups.length - tailGroups.length).fill(0);
+  return [...headGroups, ...fill, ...tailGroups];
+}
+
+// RFC 1928 CONNECT, with RFC 1929 username/password authentication when a username is set
+async function socks5Handshake(reader: HandshakeReader, socket: net.Socket, proxy: ProxySettings, password: string | undefined, host: string, port: number): Promise<void> {
+  const methods = proxy.username ? [0x00, 0x02] : [0x00];
+  socket.write(Buffer.from([0x05, methods.length, ...methods]));
+
+  const [version, method] = await reader.read(2);
+  if (version !== 0x05) {
+    throw new Error('Not a SOCKS5 proxy');
+  }
+  if (method === 0xff) {
+    throw new Error(proxy.username ? 'Proxy rejected the authentication methods' : 'Proxy requires authentication');
+  }
+
+  if (method === 0x02) {
+    const user = Buffer.from(proxy.username || '', 'utf-8');
+    const pass = Buffer.from(password || '', 'utf-8');
+    if (user.length > 255 || pass.length > 255) {
+      throw new Error('Proxy username or password too long');
+    }
+    socket.write(Buffer.concat([
+      Buffer.from([0x01, user.length]), user,
+      Buffer.from([pass.length]), pass,
+    ]));
+    const [, status] = await reader.read(2);
+    if (status !== 0x00) {
+      throw new Error('Proxy authentication failed');
+    }
+  }
+
+  const portBytes = Buffer.alloc(2);
+  portBytes.writeUInt16BE(port);
+  socket.write(Buffer.concat([Buffer.from([0x05, 0x01, 0x00]), encodeSocksAddress(host), portBytes]));
+
+  const [, reply, , addressType] = await reader.read(4);
+  if (reply !== 0x00) {
+    throw new Error(`Proxy could not reach ${host}:${port} (${SOCKS_REPLY_ERRORS[reply] || `error ${reply}`})`);
+  }
+  // Skip the bound address and port
+  if (addressType === 0x01) {
+    await reader.read(4 + 2);
+  } else if (addressType === 0x04) {
+    await reader.read(16 + 2);
+  } else {
+    const [length] = await reader.read(1);
+    await reader.read(length + 2);
+  }
+}
+
+async function httpConnectHandshake(reader: HandshakeReader, socket: net.Socket, proxy: ProxySettings, password: string | undefined, host: string, port: number): Promise<void> {
+  const target = `${net.isIPv6(host) ? `[${host}]` : host}:${port}`;
+  const headers = [`CONNECT ${target} HTTP/1.1`, `Host: ${target}`];
+  if (proxy.username) {
+    const credentials = Buffer.from(`${proxy.username}:${password || ''}`, 'utf-8').toString('base64');
+    headers.push(`Proxy-Authorization: Basic ${credentials}`);
+  }
+  socket.write(headers.join('\r\n') + '\r\n\r\n');
+
+  const response = (await reader.readUntil('\r\n\r\n')).toString('latin1');
+  const statusLine = response.split('\r\n')[0];
+  const match = statusLine.match(/^HTTP\/\d(?:\.\d)?\s+(\d{3})\s*(.*)$/);
+  if (!match) {
+    throw new Error('Not an HTTP proxy');
+  }
+  const status = parseInt(match[1], 10);
+  if (status === 407) {
+    throw new Error(proxy.username ? 'Proxy authentication failed' : 'Proxy requires authentication');
+  }
+  if (status < 200 || status >= 300) {
+    throw new Error(`Proxy refused the tunnel to ${target} (${[status, match[2]].filter(Boolean).join(' ')})`);
+  }
+}
+
+// Connect to host:port through the proxy. Resolves with a socket ready for the SSH handshake.
+export function openProxySocket(proxy: ProxySettings, password: string | undefined, host: string, port: number, timeoutMs: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const label = `Proxy ${proxy.host}:${proxy.port}`;
+    const socket = net.connect({ host: proxy.host, port: proxy.port });
+    const reader = new HandshakeReader(socket);
+
+    const onError = (err: Error) => {
+      clearTimeout(timer);
+      reject(new Error(`${label}: ${err.message}`));
+    };
+    const timer = setTimeout(() => {
+      socket.destroy();
+      reject(new Error(`${label}: timed out`));
+    }, timeoutMs);
+
+    socket.once('connect', async () => {
+      try {
+        if (proxy.type === 'socks5') {
+          await socks5Handshake(reader, socket, proxy, password, host, port);
+        } else {
+          await httpConnectHandshake(reader, socket, proxy, password, host, port);
+        }
+        clearTimeout(timer);
+        socket.removeListener('error', onError);
+        reader.release();
+        resolve(socket);
+      } catch (err: any) {
+        clearTimeout(timer);
+        socket.destroy();
+        reject(new Error(`${label}: ${err.message}`));
+      }
+    });
+
+    socket.once('error', onError);
+  });
+}
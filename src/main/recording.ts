@@ -0,0 +1,115 @@
+import * as fs from 'fs';
+
+// Terminal session recordings in asciicast v2 (https://docs.asciinema.org/manual/asciicast/v2/):
+// a JSON header line, then one [seconds, code, data] event per line - "o" for output and "r"
+// for resizes ("COLSxROWS"). Events are appended while the session runs, so an unclean exit
+// still leaves a playable file.
+
+export interface CastHeader {
+  version: 2;
+  width: number;
+  height: number;
+  timestamp?: number; // Unix seconds
+  duration?: number;
+  title?: string;
+  env?: Record<string, string>;
+}
+
+export type CastEvent = [number, string, string];
+
+export interface CastRecording {
+  header: CastHeader;
+  events: CastEvent[];
+}
+
+export class CastRecorder {
+  private readonly stream: fs.WriteStream;
+  private readonly startedAt = Date.now();
+
+  constructor(readonly filePath: string, public shellId: string, header: { width: number; height: number; title?: string }) {
+    this.stream = fs.createWriteStream(filePath, { flags: 'wx' });
+    this.stream.on('error', (err) => console.log(`Recording ${filePath}: ${err.message}`));
+    const castHeader: CastHeader = {
+      version: 2,
+      width: header.width,
+      height: header.height,
+      timestamp: Math.floor(this.startedAt / 1000),
+      title: header.title,
+      env: { TERM: 'xterm-256color' },
+    };
+    this.stream.write(JSON.stringify(castHeader) + '\n');
+  }
+
+  output(data: string): void {
+    this.event('o', data);
+  }
+
+  resize(cols: number, rows: number): void {
+    this.event('r', `${cols}x${rows}`);
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.stream.end(resolve));
+  }
+
+  private event(code: string, data: string): void {
+    const seconds = (Date.now() - this.startedAt) / 1000;
+    this.stream.write(JSON.stringify([seconds, code, data]) + '\n');
+  }
+}
+
+function parseHeader(line: string): CastHeader {
+  const header = JSON.parse(line);
+  if (!header || header.version !== 2 || typeof header.width !== 'number' || typeof header.height !== 'number') {
+    throw new Error('Not an asciicast v2 recording');
+  }
+  return header;
+}
+
+// Malformed event lines (e.g. a half-written last line) are skipped
+export function parseCast(text: string): CastRecording {
+  const lines = text.split('\n');
+  const header = parseHeader(lines[0]);
+  const events: CastEvent[] = [];
+  for (const line of lines.slice(1)) {
+    if (!line.trim()) continue;
+    try {
+      const event = JSON.parse(line);
+      if (Array.isArray(event) && typeof event[0] === 'number' && typeof event[1] === 'string' && typeof event[2] === 'string') {
+        events.push(event as CastEvent);
+      }
+    } catch (err) {
+      // Skip
+    }
+  }
+  return { header, events };
+}
+
+// Only the first line is read, so listing long recordings stays cheap
+export function readCastHeader(filePath: string): CastHeader | null {
+  let fd: number | undefined;
+  try {
+    fd = fs.openSync(filePath, 'r');
+    const buffer = Buffer.alloc(4096);
+    const length = fs.readSync(fd, buffer, 0, buffer.length, 0);
+    const text = buffer.subarray(0, length).toString('utf-8');
+    const end = text.indexOf('\n');
+    return parseHeader(end === -1 ? text : text.slice(0, end));
+  } catch (err) {
+    return null;
+  } finally {
+    if (fd !== undefined) fs.closeSync(fd);
+  }
+}
+
+// Titles reduced to file-name-safe characters, e.g. for per-connection folders
+export function fileSafeName(title: string): string {
+  return title.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'session';
+}
+
+// "<title>-YYYYMMDD-HHMMSS.<extension>", shared with the session logs
+export function timestampedFileName(title: string, date: Date, extension: string): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const stamp = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  return `${fileSafeName(title)}-${stamp}.${extension}`;
+}
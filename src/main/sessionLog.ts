@@ -0,0 +1,113 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { timestampedFileName } from './recording';
+
+// Plain-text session logs for compliance: shell output with ANSI sequences stripped, written a
+// line at a time (optionally timestamped) into a folder per connection. A new file is started
+// once the current one passes the size or age limit.
+
+export interface SessionLogSettings {
+  timestamps?: boolean; // Prefix each line with the time it started
+  maxSizeMB?: number; // Start a new file past this size
+  maxAgeHours?: number; // Start a new file once the current one is this old
+}
+
+const DEFAULT_MAX_SIZE_MB = 10;
+const MAX_HELD_ESCAPE = 256; // Longest unfinished escape sequence kept for the next chunk
+
+const ESCAPE_SEQUENCE = /\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b[()][0-9A-Za-z]|\x1b[=>78DEHMc]/g;
+const COMPLETE_ESCAPE = new RegExp(`^(?:${ESCAPE_SEQUENCE.source})`);
+
+function formatLineTime(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+export class SessionLog {
+  private stream: fs.WriteStream | null = null;
+  private fileOpenedAt = 0;
+  private bytesWritten = 0;
+  private heldEscape = ''; // Escape sequence split across chunks
+  private line = ''; // Current line, not yet terminated
+  private lineStartedAt: Date | null = null;
+
+  constructor(private readonly dir: string, private readonly title: string, private readonly settings: SessionLogSettings) {}
+
+  write(data: string): void {
+    let text = this.heldEscape + data;
+    this.heldEscape = '';
+    const lastEscape = text.lastIndexOf('\x1b');
+    if (lastEscape !== -1 && text.length - lastEscape < MAX_HELD_ESCAPE && !COMPLETE_ESCAPE.test(text.slice(lastEscape))) {
+      this.heldEscape = text.slice(lastEscape);
+      text = text.slice(0, lastEscape);
+    }
+
+    const plain = text.replace(ESCAPE_SEQUENCE, '').replace(/\r\n/g, '\n');
+    for (const char of plain) {
+      if (char === '\n') {
+        this.writeLine();
+      } else if (char === '\r') {
+        // A bare CR redraws the line (progress bars, prompts) - keep only what follows
+        this.line = '';
+      } else if (char === '\b') {
+        this.line = this.line.slice(0, -1);
+      } else if (char === '\t' || char >= ' ') {
+        if (!this.lineStartedAt) this.lineStartedAt = new Date();
+        this.line += char;
+      }
+    }
+  }
+
+  close(): Promise<void> {
+    if (this.line) this.writeLine();
+    const stream = this.stream;
+    this.stream = null;
+    return new Promise((resolve) => (stream ? stream.end(resolve) : resolve()));
+  }
+
+  private writeLine(): void {
+    const startedAt = this.lineStartedAt || new Date();
+    const text = (this.settings.timestamps ? `[${formatLineTime(startedAt)}] ` : '') + this.line + '\n';
+    this.line = '';
+    this.lineStartedAt = null;
+
+    try {
+      this.getStream().write(text);
+      this.bytesWritten += Buffer.byteLength(text);
+    } catch (err: any) {
+      // Folder not writable - the session itself must keep working
+      console.log(`Session log ${this.dir}: ${err.message}`);
+    }
+  }
+
+  private getStream(): fs.WriteStream {
+    const maxBytes = (this.settings.maxSizeMB || DEFAULT_MAX_SIZE_MB) * 1024 * 1024;
+    const maxAge = this.settings.maxAgeHours ? this.settings.maxAgeHours * 3600 * 1000 : Infinity;
+    if (this.stream && (this.bytesWritten >= maxBytes || Date.now() - this.fileOpenedAt >= maxAge)) {
+      this.stream.end();
+      this.stream = null;
+    }
+    if (!this.stream) {
+      fs.mkdirSync(this.dir, { recursive: true });
+      const now = new Date();
+      const { fd, filePath } = this.createFile(now);
+      this.stream = fs.createWriteStream(filePath, { fd });
+      this.stream.on('error', (err) => console.log(`Session log ${filePath}: ${err.message}`));
+      this.fileOpenedAt = now.getTime();
+      this.bytesWritten = 0;
+    }
+    return this.stream;
+  }
+
+  // Exclusive create, so terminals (or rotations) within the same second never share a file
+  private createFile(now: Date): { fd: number; filePath: string } {
+    for (let n = 1; ; n++) {
+      const filePath = path.join(this.dir, timestampedFileName(n === 1 ? this.title : `${this.title}-${n}`, now, 'log'));
+      try {
+        return { fd: fs.openSync(filePath, 'wx'), filePath };
+      } catch (err: any) {
+        if (err.code !== 'EEXIST') throw err;
+      }
+    }
+  }
+}
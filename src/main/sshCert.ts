@@ -0,0 +1,280 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { Client, ParsedKey, utils as sshUtils } from 'ssh2';
+
+// OpenSSH certificate support (PROTOCOL.certkeys). ssh2 only knows plain keys, so the cert is
+// parsed here and the client's publickey request is rewritten to offer the certificate blob
+// while signing with the matching private key.
+
+// The ssh2 internals used to send the rewritten request. They have no type declarations and
+// can change between releases, so package.json pins ssh2 and useCertificates checks they exist.
+type SignCallback = (signature: Buffer) => void;
+type SignFunction = (data: Buffer, callback: SignCallback) => void;
+
+interface Protocol {
+  authPK(this: Protocol, username: string, pubKey: ParsedKey, keyAlgo?: string | SignFunction, cbSign?: SignFunction): void;
+  _authsQueue: string[];
+  _kex: { sessionID: Buffer };
+  _packetRW: {
+    write: {
+      allocStart: number;
+      alloc(payloadLength: number): Buffer;
+      finalize(packet: Buffer): Buffer;
+    };
+  };
+}
+
+interface ProtocolUtils {
+  convertSignature(signature: Buffer, keyType: string): Buffer | false;
+  sendPacket(proto: Protocol, packet: Buffer): void;
+}
+
+const { convertSignature, sendPacket }: ProtocolUtils = require('ssh2/lib/protocol/utils');
+
+const CERT_SUFFIX = '-cert-v01@openssh.com';
+const MESSAGE_USERAUTH_REQUEST = 50;
+const FOREVER = BigInt('0xffffffffffffffff');
+
+// Number of public key fields that follow the nonce, per base key type
+const KEY_FIELD_COUNTS: Record<string, number> = {
+  'ssh-rsa': 2,
+  'ssh-dss': 4,
+  'ecdsa-sha2-nistp256': 2,
+  'ecdsa-sha2-nistp384': 2,
+  'ecdsa-sha2-nistp521': 2,
+  'ssh-ed25519': 1,
+  'sk-ecdsa-sha2-nistp256@openssh.com': 3,
+  'sk-ssh-ed25519@openssh.com': 2,
+};
+
+export interface CertificateInfo {
+  keyType: string; // Base key type, e.g. ssh-ed25519
+  certType: 'user' | 'host';
+  keyId: string;
+  serial: string;
+  principals: string[]; // Empty = valid for any principal
+  validAfter: number | null; // ms since epoch, null = no lower bound
+  validBefore: number | null; // ms since epoch, null = never expires
+  caFingerprint: string; // SHA256 fingerprint of the signing CA key
+}
+
+export interface ParsedCertificate extends CertificateInfo {
+  blob: Buffer; // The whole certificate, as sent to the server
+  publicKey: Buffer; // The certified public key, in SSH wire format
+}
+
+class BlobReader {
+  private offset = 0;
+
+  constructor(private readonly buffer: Buffer) {}
+
+  get position(): number {
+    return this.offset;
+  }
+
+  get done(): boolean {
+    return this.offset >= this.buffer.length;
+  }
+
+  uint32(): number {
+    this.ensure(4);
+    const value = this.buffer.readUInt32BE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  uint64(): bigint {
+    this.ensure(8);
+    const value = this.buffer.readBigUInt64BE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  bytes(): Buffer {
+    const length = this.uint32();
+    this.ensure(length);
+    const value = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  string(): string {
+    return this.bytes().toString('utf-8');
+  }
+
+  private ensure(length: number): void {
+    if (this.offset + length > this.buffer.length) {
+      throw new Error('Truncated certificate');
+    }
+  }
+}
+
+function sshString(value: Buffer | string): Buffer {
+  const data = typeof value === 'string' ? Buffer.from(value, 'utf-8') : value;
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  return Buffer.concat([length, data]);
+}
+
+function toTimestamp(seconds: bigint): number | null {
+  if (seconds === FOREVER) return null;
+  return Number(seconds) * 1000;
+}
+
+// Parse the contents of an OpenSSH certificate file ("<type> <base64> [comment]")
+export function parseCertificate(text: string): ParsedCertificate {
+  const [type, data] = text.trim().split(/\s+/);
+  if (!type || !data || !type.endsWith(CERT_SUFFIX)) {
+    throw new Error('Not an OpenSSH certificate');
+  }
+  const keyType = type.slice(0, -CERT_SUFFIX.length);
+  const fieldCount = KEY_FIELD_COUNTS[keyType];
+  if (!fieldCount) {
+    throw new Error(`Unsupported certificate type: ${type}`);
+  }
+
+  const blob = Buffer.from(data, 'base64');
+  const reader = new BlobReader(blob);
+  if (reader.string() !== type) {
+    throw new Error('Certificate type does not match its contents');
+  }
+  reader.bytes(); // nonce
+
+  const keyStart = reader.position;
+  for (let i = 0; i < fieldCount; i++) {
+    reader.bytes();
+  }
+  const publicKey = Buffer.concat([sshString(keyType), blob.subarray(keyStart, reader.position)]);
+
+  const serial = reader.uint64();
+  const certType = reader.uint32() === 2 ? 'host' : 'user';
+  const keyId = reader.string();
+  const principalsReader = new BlobReader(reader.bytes());
+  const principals: string[] = [];
+  while (!principalsReader.done) {
+    principals.push(principalsReader.string());
+  }
+  const validAfter = reader.uint64();
+  const validBefore = reader.uint64();
+  reader.bytes(); // critical options
+  reader.bytes(); // extensions
+  reader.bytes(); // reserved
+  const caKey = reader.bytes();
+
+  return {
+    keyType,
+    certType,
+    keyId,
+    serial: serial.toString(),
+    principals,
+    validAfter: validAfter === BigInt(0) ? null : toTimestamp(validAfter),
+    validBefore: toTimestamp(validBefore),
+    caFingerprint: `SHA256:${crypto.createHash('sha256').update(caKey).digest('base64').replace(/=+$/, '')}`,
+    blob,
+    publicKey,
+  };
+}
+
+export function readCertificate(certPath: string): ParsedCertificate {
+  let text: string;
+  try {
+    text = fs.readFileSync(certPath, 'utf-8');
+  } catch (err) {
+    throw new Error('Failed to read certificate file');
+  }
+  return parseCertificate(text);
+}
+
+export function describeCertificate(cert: ParsedCertificate): CertificateInfo {
+  const { blob: _blob, publicKey: _publicKey, ...info } = cert;
+  return info;
+}
+
+// Why the certificate can't be used right now, if anything
+export function getCertificateProblem(cert: CertificateInfo, now = Date.now()): string | null {
+  if (cert.certType !== 'user') {
+    return 'Certificate is a host certificate, not a user certificate';
+  }
+  if (cert.validBefore !== null && now >= cert.validBefore) {
+    return `Certificate expired on ${new Date(cert.validBefore).toLocaleString()}`;
+  }
+  if (cert.validAfter !== null && now < cert.validAfter) {
+    return `Certificate is not valid until ${new Date(cert.validAfter).toLocaleString()}`;
+  }
+  return null;
+}
+
+// Check that the certificate was issued for this private key
+export function certificateMatchesKey(cert: ParsedCertificate, privateKey: Buffer, passphrase?: string): boolean {
+  const parsed = sshUtils.parseKey(privateKey, passphrase);
+  if (parsed instanceof Error) return false;
+  const key = Array.isArray(parsed) ? parsed[0] : parsed;
+  return key.getPublicSSH().equals(cert.publicKey);
+}
+
+// Outer algorithm name for the cert. RSA keeps the signature hash ssh2 negotiated (rsa-sha2-*).
+function getCertAlgorithm(cert: ParsedCertificate, signatureAlgo: string): string {
+  return cert.keyType === 'ssh-rsa' ? `${signatureAlgo}${CERT_SUFFIX}` : `${cert.keyType}${CERT_SUFFIX}`;
+}
+
+function buildAuthRequest(username: string, algo: string, cert: ParsedCertificate, signed: boolean): Buffer {
+  return Buffer.concat([
+    Buffer.from([MESSAGE_USERAUTH_REQUEST]),
+    sshString(username),
+    sshString('ssh-connection'),
+    sshString('publickey'),
+    Buffer.from([signed ? 1 : 0]),
+    sshString(algo),
+    sshString(cert.blob),
+  ]);
+}
+
+function sendAuthRequest(proto: Protocol, payload: Buffer): void {
+  const packet = proto._packetRW.write.alloc(payload.length);
+  payload.copy(packet, proto._packetRW.write.allocStart);
+  proto._authsQueue.push('publickey');
+  sendPacket(proto, proto._packetRW.write.finalize(packet));
+}
+
+// Call right after client.connect(): publickey attempts with a certified key offer its
+// certificate instead of the bare key. Other keys (agent identities) pass through untouched.
+export function useCertificates(client: Client, certs: ParsedCertificate[]): void {
+  const proto = (client as unknown as { _protocol?: Protocol })._protocol;
+  if (!proto) {
+    throw new Error('Client is not connecting');
+  }
+  if (typeof proto.authPK !== 'function' || !proto._packetRW?.write || typeof convertSignature !== 'function' || typeof sendPacket !== 'function') {
+    throw new Error('Certificate authentication is not supported by this version of ssh2');
+  }
+  const authPK = proto.authPK;
+
+  proto.authPK = function (username, pubKey, keyAlgo, cbSign) {
+    if (typeof keyAlgo === 'function') {
+      cbSign = keyAlgo;
+      keyAlgo = undefined;
+    }
+    const publicKey = pubKey.getPublicSSH();
+    const cert = certs.find((c) => publicKey.equals(c.publicKey));
+    if (!cert) {
+      return authPK.call(this, username, pubKey, keyAlgo, cbSign);
+    }
+
+    const signatureAlgo = keyAlgo || pubKey.type;
+    const certAlgo = getCertAlgorithm(cert, signatureAlgo);
+
+    if (!cbSign) {
+      sendAuthRequest(this, buildAuthRequest(username, certAlgo, cert, false));
+      return;
+    }
+
+    const request = buildAuthRequest(username, certAlgo, cert, true);
+    cbSign(Buffer.concat([sshString(this._kex.sessionID), request]), (signature: Buffer) => {
+      // The signature blob is named after the plain key algorithm, not the cert
+      const converted = convertSignature(signature, pubKey.type);
+      if (converted === false) {
+        throw new Error('Error while converting handshake signature');
+      }
+      sendAuthRequest(this, Buffer.concat([request, sshString(Buffer.concat([sshString(signatureAlgo), sshString(converted)]))]));
+    });
+  };
+}
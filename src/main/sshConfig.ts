@@ -0,0 +1,382 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Minimal OpenSSH client config support (ssh_config(5)): enough to turn Host blocks into
+// saved connections. Match blocks and options we don't map are ignored.
+
+interface ConfigBlock {
+  patterns: string[]; // Host patterns, may contain * ? and !negation
+  options: Record<string, string>; // Lowercased keyword -> first value seen in this block
+  identityFiles: string[];
+}
+
+export interface SshConfigHost {
+  alias: string;
+  hostName: string;
+  user?: string;
+  port: number;
+  identityFile?: string;
+  certificateFile?: string;
+  proxyJump?: string[]; // Hops as written: [user@]host[:port] or another alias
+  advanced?: SshAdvancedOptions;
+}
+
+// Transport options shared with Connection.advanced. Algorithm lists keep OpenSSH's
+// +append/-remove/^prepend syntax; intervals and timeouts are in seconds.
+export interface SshAdvancedOptions {
+  kexAlgorithms?: string;
+  ciphers?: string;
+  macs?: string;
+  hostKeyAlgorithms?: string;
+  compression?: boolean;
+  keepaliveInterval?: number;
+  keepaliveCountMax?: number;
+  readyTimeout?: number;
+}
+
+const MAX_INCLUDE_DEPTH = 16;
+
+function expandHome(p: string): string {
+  if (p === '~' || p.startsWith('~/') || p.startsWith('~\\')) {
+    return path.join(os.homedir(), p.slice(1));
+  }
+  return p;
+}
+
+// Split a config line into keyword and arguments, honouring "quoted values" and Key=Value
+function tokenize(line: string): string[] {
+  const tokens: string[] = [];
+  const re = /"([^"]*)"|([^\s"]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(line)) !== null) {
+    tokens.push(match[1] !== undefined ? match[1] : match[2]);
+  }
+
+  // "Key=Value" / "Key = Value"
+  if (tokens.length > 0 && tokens[0].includes('=')) {
+    const [key, ...rest] = tokens[0].split('=');
+    tokens.splice(0, 1, key, ...(rest.join('=') ? [rest.join('=')] : []));
+  } else if (tokens[1] === '=') {
+    tokens.splice(1, 1);
+  } else if (tokens[1]?.startsWith('=')) {
+    tokens[1] = tokens[1].slice(1);
+  }
+  return tokens.filter((t) => t !== '');
+}
+
+// Glob a path like ~/.ssh/config.d/* (wildcards only in the last segment, as is common)
+function resolveInclude(pattern: string, baseDir: string): string[] {
+  let expanded = expandHome(pattern);
+  if (!path.isAbsolute(expanded)) {
+    expanded = path.join(baseDir, expanded);
+  }
+
+  const dir = path.dirname(expanded);
+  const base = path.basename(expanded);
+  if (!/[*?]/.test(base)) {
+    return fs.existsSync(expanded) ? [expanded] : [];
+  }
+
+  try {
+    return fs.readdirSync(dir)
+      .filter((name) => matchPattern(name, base))
+      .sort()
+      .map((name) => path.join(dir, name))
+      .filter((file) => fs.statSync(file).isFile());
+  } catch {
+    return [];
+  }
+}
+
+function matchPattern(value: string, pattern: string): boolean {
+  const re = new RegExp(
+    '^' + pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.') + '$',
+    'i'
+  );
+  return re.test(value);
+}
+
+function blockMatches(block: ConfigBlock, alias: string): boolean {
+  let matched = false;
+  for (const pattern of block.patterns) {
+    if (pattern.startsWith('!')) {
+      if (matchPattern(alias, pattern.slice(1))) return false;
+    } else if (matchPattern(alias, pattern)) {
+      matched = true;
+    }
+  }
+  return matched;
+}
+
+function readBlocks(filePath: string, blocks: ConfigBlock[], depth: number, patterns: string[] = ['*']): void {
+  if (depth > MAX_INCLUDE_DEPTH) return;
+
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    return;
+  }
+
+  // Options before the first Host line apply to every host (or, in an included file, to the
+  // hosts of the block that included it)
+  let current: ConfigBlock = { patterns, options: {}, identityFiles: [] };
+  blocks.push(current);
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const [rawKey, ...args] = tokenize(line);
+    if (!rawKey || args.length === 0) continue;
+    const key = rawKey.toLowerCase();
+
+    if (key === 'host') {
+      current = { patterns: args, options: {}, identityFiles: [] };
+      blocks.push(current);
+    } else if (key === 'match') {
+      // Match conditions can't be evaluated offline - ignore the whole block
+      current = { patterns: [], options: {}, identityFiles: [] };
+      blocks.push(current);
+    } else if (key === 'include') {
+      const baseDir = path.join(os.homedir(), '.ssh');
+      for (const pattern of args) {
+        for (const file of resolveInclude(pattern, baseDir)) {
+          readBlocks(file, blocks, depth + 1, current.patterns);
+        }
+      }
+      // Lines after an Include still belong to the enclosing Host block
+      const resumed: ConfigBlock = { patterns: current.patterns, options: {}, identityFiles: [] };
+      blocks.push(resumed);
+      current = resumed;
+    } else if (key === 'identityfile') {
+      current.identityFiles.push(args[0]);
+    } else if (!(key in current.options)) {
+      current.options[key] = args.join(' ');
+    }
+  }
+}
+
+// Expand the few % tokens that make sense without a live connection
+function expandTokens(value: string, host: SshConfigHost): string {
+  return value.replace(/%([%dhrpun])/g, (_m, token: string) => {
+    switch (token) {
+      case '%': return '%';
+      case 'd': return os.homedir();
+      case 'h': return host.hostName;
+      case 'n': return host.alias;
+      case 'p': return String(host.port);
+      case 'r': return host.user || os.userInfo().username;
+      case 'u': return os.userInfo().username;
+      default: return '';
+    }
+  });
+}
+
+function parseAdvancedOptions(options: Record<string, string>): SshAdvancedOptions | undefined {
+  const advanced: SshAdvancedOptions = {};
+  if (options.kexalgorithms) advanced.kexAlgorithms = options.kexalgorithms;
+  if (options.ciphers) advanced.ciphers = options.ciphers;
+  if (options.macs) advanced.macs = options.macs;
+  if (options.hostkeyalgorithms) advanced.hostKeyAlgorithms = options.hostkeyalgorithms;
+  if (options.compression?.toLowerCase() === 'yes') advanced.compression = true;
+
+  const seconds = (value?: string) => (value !== undefined && /^\d+$/.test(value) ? parseInt(value, 10) : undefined);
+  advanced.keepaliveInterval = seconds(options.serveraliveinterval);
+  advanced.keepaliveCountMax = seconds(options.serveralivecountmax);
+  advanced.readyTimeout = seconds(options.connecttimeout);
+  for (const key of Object.keys(advanced) as (keyof SshAdvancedOptions)[]) {
+    if (advanced[key] === undefined) delete advanced[key];
+  }
+
+  return Object.keys(advanced).length > 0 ? advanced : undefined;
+}
+
+// Parse an OpenSSH config file (following Includes) into one entry per concrete Host alias.
+// Wildcard blocks don't produce entries of their own but contribute defaults, and - as in
+// ssh itself - the first value found for each option wins.
+export function parseSshConfig(filePath: string): SshConfigHost[] {
+  const blocks: ConfigBlock[] = [];
+  readBlocks(filePath, blocks, 0);
+
+  const aliases: string[] = [];
+  for (const block of blocks) {
+    for (const pattern of block.patterns) {
+      if (!/[*?!]/.test(pattern) && !aliases.includes(pattern)) {
+        aliases.push(pattern);
+      }
+    }
+  }
+
+  return aliases.map((alias) => {
+    const options: Record<string, string> = {};
+    let identityFile: string | undefined;
+    for (const block of blocks) {
+      if (!blockMatches(block, alias)) continue;
+      for (const [key, value] of Object.entries(block.options)) {
+        if (!(key in options)) options[key] = value;
+      }
+      if (!identityFile && block.identityFiles.length > 0) {
+        identityFile = block.identityFiles[0];
+      }
+    }
+
+    const host: SshConfigHost = {
+      alias,
+      hostName: alias, // %h inside HostName refers to the alias
+      user: options.user,
+      port: parseInt(options.port, 10) || 22,
+    };
+    if (options.hostname) {
+      host.hostName = expandTokens(options.hostname, host);
+    }
+    if (identityFile && identityFile.toLowerCase() !== 'none') {
+      host.identityFile = expandHome(expandTokens(identityFile, host));
+    }
+    if (options.certificatefile && options.certificatefile.toLowerCase() !== 'none') {
+      host.certificateFile = expandHome(expandTokens(options.certificatefile, host));
+    }
+    if (options.proxyjump && options.proxyjump.toLowerCase() !== 'none') {
+      host.proxyJump = options.proxyjump.split(',').map((hop) => hop.trim()).filter(Boolean);
+    }
+    const advanced = parseAdvancedOptions(options);
+    if (advanced) {
+      host.advanced = advanced;
+    }
+    return host;
+  });
+}
+
+// Split a ProxyJump hop ([user@]host[:port], host may be [ipv6]) into its parts
+export function parseJumpSpec(spec: string): { user?: string; host: string; port?: number } {
+  const withoutScheme = spec.replace(/^ssh:\/\//, '');
+  const at = withoutScheme.lastIndexOf('@');
+  const user = at >= 0 ? withoutScheme.slice(0, at) : undefined;
+  const rest = at >= 0 ? withoutScheme.slice(at + 1) : withoutScheme;
+
+  const bracketed = rest.match(/^\[(.+)\](?::(\d+))?$/);
+  if (bracketed) {
+    return { user, host: bracketed[1], port: bracketed[2] ? parseInt(bracketed[2], 10) : undefined };
+  }
+  const colon = rest.lastIndexOf(':');
+  if (colon > 0 && rest.indexOf(':') === colon) {
+    return { user, host: rest.slice(0, colon), port: parseInt(rest.slice(colon + 1), 10) || undefined };
+  }
+  return { user, host: rest };
+}
+
+// Fields of a saved connection that map onto ssh_config options
+export interface ExportableConnection {
+  id: string;
+  name: string;
+  host: string;
+  port: number;
+  username: string;
+  privateKey?: string;
+  certificate?: string;
+  authMethod?: 'password' | 'key' | 'agent' | 'multiple';
+  authMethods?: { type: 'key' | 'agent' | 'password' | 'keyboard-interactive'; privateKey?: string; certificate?: string }[];
+  agentPath?: string;
+  agentForward?: boolean;
+  jumpHosts?: string[];
+  advanced?: SshAdvancedOptions;
+}
+
+// Host aliases are whitespace-separated patterns, so names need to be squashed into one token
+function toHostAlias(name: string): string {
+  return name.trim().replace(/\s+/g, '-').replace(/[*?!,"#]/g, '') || 'host';
+}
+
+function quoteValue(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+function formatJumpSpec(conn: ExportableConnection): string {
+  const host = conn.host.includes(':') ? `[${conn.host}]` : conn.host;
+  return `${conn.username}@${host}${conn.port !== 22 ? `:${conn.port}` : ''}`;
+}
+
+// Render connections as an OpenSSH config snippet, one Host block per connection named after
+// connection.name. Jump hosts that are exported too are referenced by alias, others inline as
+// user@host:port. Passwords are never written.
+export function formatSshConfig(connections: ExportableConnection[], allConnections: ExportableConnection[]): string {
+  const aliases = new Map<string, string>();
+  const used = new Set<string>();
+  for (const conn of connections) {
+    const base = toHostAlias(conn.name);
+    let alias = base;
+    for (let n = 2; used.has(alias.toLowerCase()); n++) {
+      alias = `${base}-${n}`;
+    }
+    used.add(alias.toLowerCase());
+    aliases.set(conn.id, alias);
+  }
+
+  const blocks = connections.map((conn) => {
+    const lines = [`Host ${aliases.get(conn.id)}`, `  HostName ${conn.host}`, `  User ${conn.username}`];
+    if (conn.port !== 22) {
+      lines.push(`  Port ${conn.port}`);
+    }
+
+    const authMethod = conn.authMethod || (conn.privateKey ? 'key' : 'password');
+    if (authMethod === 'key' && conn.privateKey) {
+      lines.push(`  IdentityFile ${quoteValue(conn.privateKey)}`);
+      if (conn.certificate) {
+        lines.push(`  CertificateFile ${quoteValue(conn.certificate)}`);
+      }
+      lines.push('  IdentitiesOnly yes');
+    }
+    if (authMethod === 'password') {
+      lines.push('  PreferredAuthentications keyboard-interactive,password');
+    }
+    const sequence = authMethod === 'multiple' ? conn.authMethods || [] : [];
+    if (sequence.length > 0) {
+      for (const entry of sequence) {
+        if (entry.type === 'key' && entry.privateKey) {
+          lines.push(`  IdentityFile ${quoteValue(entry.privateKey)}`);
+          if (entry.certificate) {
+            lines.push(`  CertificateFile ${quoteValue(entry.certificate)}`);
+          }
+        }
+      }
+      // Without an agent entry, only the listed keys may be offered
+      if (!sequence.some((entry) => entry.type === 'agent')) {
+        lines.push('  IdentitiesOnly yes');
+      }
+      const preferred = [...new Set(sequence.map((entry) => (entry.type === 'key' || entry.type === 'agent' ? 'publickey' : entry.type)))];
+      lines.push(`  PreferredAuthentications ${preferred.join(',')}`);
+    }
+    const usesAgent = authMethod === 'agent' || sequence.some((entry) => entry.type === 'agent');
+    if ((usesAgent || conn.agentForward) && conn.agentPath) {
+      lines.push(`  IdentityAgent ${quoteValue(conn.agentPath)}`);
+    }
+    if (conn.agentForward) {
+      lines.push('  ForwardAgent yes');
+    }
+
+    const hops = (conn.jumpHosts || [])
+      .map((id) => aliases.get(id) || (() => {
+        const hop = allConnections.find((c) => c.id === id);
+        return hop ? formatJumpSpec(hop) : undefined;
+      })())
+      .filter((hop): hop is string => !!hop);
+    if (hops.length > 0) {
+      lines.push(`  ProxyJump ${hops.join(',')}`);
+    }
+
+    const advanced = conn.advanced || {};
+    if (advanced.kexAlgorithms) lines.push(`  KexAlgorithms ${advanced.kexAlgorithms}`);
+    if (advanced.hostKeyAlgorithms) lines.push(`  HostKeyAlgorithms ${advanced.hostKeyAlgorithms}`);
+    if (advanced.ciphers) lines.push(`  Ciphers ${advanced.ciphers}`);
+    if (advanced.macs) lines.push(`  MACs ${advanced.macs}`);
+    if (advanced.compression) lines.push('  Compression yes');
+    if (advanced.keepaliveInterval !== undefined) lines.push(`  ServerAliveInterval ${advanced.keepaliveInterval}`);
+    if (advanced.keepaliveCountMax !== undefined) lines.push(`  ServerAliveCountMax ${advanced.keepaliveCountMax}`);
+    if (advanced.readyTimeout !== undefined) lines.push(`  ConnectTimeout ${advanced.readyTimeout}`);
+
+    return lines.join('\n');
+  });
+
+  return blocks.join('\n\n') + '\n';
+}
@@ -0,0 +1,41 @@
+import * as net from 'net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { openProxySocket } from './proxy';
+import { TelnetSession } from './telnet';
+
+const servers: net.Server[] = [];
+
+// HTTP CONNECT proxy that answers the request and sends the device's banner in the same chunk,
+// so the banner is read by the handshake and has to be pushed back onto the socket
+function startProxy(banner: string): Promise<number> {
+  return new Promise((resolve) => {
+    const server = net.createServer((client) => {
+      client.once('data', () => {
+        client.write(`HTTP/1.1 200 Connection established\r\n\r\n${banner}`);
+      });
+    });
+    servers.push(server);
+    server.listen(0, '127.0.0.1', () => resolve((server.address() as net.AddressInfo).port));
+  });
+}
+
+afterEach(() => {
+  for (const server of servers.splice(0)) server.close();
+});
+
+describe('TelnetSession', () => {
+  it('receives data over a proxied socket', async () => {
+    const port = await startProxy('router login: ');
+    const socket = await openProxySocket({ type: 'http', host: '127.0.0.1', port }, undefined, 'router', 23, 5000);
+    const session = new TelnetSession(socket, { terminalType: 'xterm-256color' });
+
+    const received = await new Promise<string>((resolve, reject) => {
+      session.on('data', (data: Buffer) => resolve(data.toString('utf-8')));
+      session.on('error', reject);
+      setTimeout(() => reject(new Error('No data received')), 2000);
+    });
+    session.end();
+
+    expect(received).toBe('router login: ');
+  });
+});
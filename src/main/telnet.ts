@@ -0,0 +1,230 @@
+import { EventEmitter } from 'events';
+import { Duplex } from 'stream';
+
+// Telnet client side of RFC 854 with the options a terminal needs: NAWS (window size, RFC 1073),
+// TTYPE (terminal type, RFC 1091), ECHO and SUPPRESS-GO-AHEAD. Everything else is refused.
+// A TelnetSession looks like an ssh2 shell channel to main.ts (write, setWindow, end, 'data',
+// 'close'), so telnet terminals go through the same ssh:data:/ssh:close: plumbing.
+
+const IAC = 255;
+const DONT = 254;
+const DO = 253;
+const WONT = 252;
+const WILL = 251;
+const SB = 250;
+const SE = 240;
+
+const OPT_ECHO = 1;
+const OPT_SGA = 3;
+const OPT_TTYPE = 24;
+const OPT_NAWS = 31;
+
+const TTYPE_IS = 0;
+const TTYPE_SEND = 1;
+
+// Options we agree to perform ourselves (answer DO with WILL) and ask the server to perform
+const LOCAL_OPTIONS = [OPT_NAWS, OPT_TTYPE, OPT_SGA];
+const REMOTE_OPTIONS = [OPT_ECHO, OPT_SGA];
+
+type ParserState = 'data' | 'iac' | 'option' | 'sb' | 'sb-iac';
+
+export interface TelnetOptions {
+  terminalType: string;
+  cols?: number;
+  rows?: number;
+}
+
+export class TelnetSession extends EventEmitter {
+  private state: ParserState = 'data';
+  private command = 0;
+  private subnegotiation: number[] = [];
+  private readonly local = new Set<number>(); // Options enabled on our side
+  private readonly remote = new Set<number>(); // Options enabled on the server's side
+  private readonly requested = new Set<string>(); // Requests sent and not yet answered ("251:31")
+  private cols: number;
+  private rows: number;
+
+  constructor(private readonly socket: Duplex, private readonly options: TelnetOptions) {
+    super();
+    this.cols = options.cols || 80;
+    this.rows = options.rows || 24;
+
+    socket.on('data', (data: Buffer) => this.receive(data));
+    socket.on('error', (err) => this.emit('error', err));
+    socket.on('close', () => this.emit('close'));
+    // A proxied socket arrives paused (with any early bytes unshifted back), and a 'data'
+    // listener alone doesn't restart a stream that was paused explicitly
+    socket.resume();
+
+    // Offer the window size and terminal type up front; many devices never ask
+    this.request(WILL, OPT_NAWS);
+    this.request(WILL, OPT_TTYPE);
+    this.request(DO, OPT_SGA);
+  }
+
+  // The server does the echoing once it has agreed to WILL ECHO; until then echo locally like
+  // a classic telnet client in line mode
+  get localEcho(): boolean {
+    return !this.remote.has(OPT_ECHO);
+  }
+
+  // echo: false keeps secrets (auto-filled passwords) off the screen even in local echo mode
+  write(data: string | Buffer, echo = true): void {
+    const bytes = typeof data === 'string' ? Buffer.from(data, 'utf-8') : data;
+    if (echo && this.localEcho) {
+      this.echo(bytes);
+    }
+    const out: number[] = [];
+    for (let i = 0; i < bytes.length; i++) {
+      const byte = bytes[i];
+      out.push(byte);
+      if (byte === IAC) {
+        out.push(IAC);
+      } else if (byte === 0x0d && bytes[i + 1] !== 0x0a) {
+        // NVT: a bare CR must be followed by NUL
+        out.push(0x00);
+      }
+    }
+    this.socket.write(Buffer.from(out));
+  }
+
+  setWindow(rows: number, cols: number): void {
+    this.rows = rows;
+    this.cols = cols;
+    if (this.local.has(OPT_NAWS)) {
+      this.sendWindowSize();
+    }
+  }
+
+  end(): void {
+    this.socket.end();
+  }
+
+  private echo(bytes: Buffer): void {
+    const text = bytes.toString('utf-8')
+      .replace(/\r\n?/g, '\r\n')
+      .replace(/\x7f/g, '\b \b');
+    this.emit('data', Buffer.from(text, 'utf-8'));
+  }
+
+  private receive(data: Buffer): void {
+    const out: number[] = [];
+    for (const byte of data) {
+      switch (this.state) {
+        case 'data':
+          if (byte === IAC) {
+            this.state = 'iac';
+          } else {
+            out.push(byte);
+          }
+          break;
+        case 'iac':
+          if (byte === IAC) {
+            out.push(IAC);
+            this.state = 'data';
+          } else if (byte === DO || byte === DONT || byte === WILL || byte === WONT) {
+            this.command = byte;
+            this.state = 'option';
+          } else if (byte === SB) {
+            this.subnegotiation = [];
+            this.state = 'sb';
+          } else {
+            // GA, NOP, AYT... nothing to do
+            this.state = 'data';
+          }
+          break;
+        case 'option':
+          this.negotiate(this.command, byte);
+          this.state = 'data';
+          break;
+        case 'sb':
+          if (byte === IAC) {
+            this.state = 'sb-iac';
+          } else {
+            this.subnegotiation.push(byte);
+          }
+          break;
+        case 'sb-iac':
+          if (byte === SE) {
+            this.handleSubnegotiation(this.subnegotiation);
+            this.state = 'data';
+          } else {
+            this.subnegotiation.push(byte);
+            this.state = 'sb';
+          }
+          break;
+      }
+    }
+    if (out.length > 0) {
+      this.emit('data', Buffer.from(out));
+    }
+  }
+
+  // Reply only when the option's state changes, so the two sides can't loop (RFC 854).
+  // Answers to our own requests need no reply.
+  private negotiate(command: number, option: number): void {
+    const wasRequested = this.requested.delete(`${this.replyTo(command)}:${option}`);
+    switch (command) {
+      case DO:
+        if (LOCAL_OPTIONS.includes(option)) {
+          if (!this.local.has(option)) {
+            this.local.add(option);
+            if (!wasRequested) this.send(WILL, option);
+          }
+          if (option === OPT_NAWS) this.sendWindowSize();
+        } else {
+          this.send(WONT, option);
+        }
+        break;
+      case DONT:
+        if (this.local.delete(option)) this.send(WONT, option);
+        break;
+      case WILL:
+        if (REMOTE_OPTIONS.includes(option)) {
+          if (!this.remote.has(option)) {
+            this.remote.add(option);
+            if (!wasRequested) this.send(DO, option);
+          }
+        } else {
+          this.send(DONT, option);
+        }
+        break;
+      case WONT:
+        if (this.remote.delete(option)) this.send(DONT, option);
+        break;
+    }
+  }
+
+  // The request a reply answers: DO/DONT answer our WILL, WILL/WONT answer our DO
+  private replyTo(command: number): number {
+    return command === DO || command === DONT ? WILL : DO;
+  }
+
+  private handleSubnegotiation(data: number[]): void {
+    if (data[0] === OPT_TTYPE && data[1] === TTYPE_SEND) {
+      this.socket.write(Buffer.concat([
+        Buffer.from([IAC, SB, OPT_TTYPE, TTYPE_IS]),
+        Buffer.from(this.options.terminalType, 'ascii'),
+        Buffer.from([IAC, SE]),
+      ]));
+    }
+  }
+
+  private sendWindowSize(): void {
+    const size = Buffer.alloc(4);
+    size.writeUInt16BE(Math.min(this.cols, 0xffff), 0);
+    size.writeUInt16BE(Math.min(this.rows, 0xffff), 2);
+    // 255 inside the subnegotiation has to be doubled too
+    const escaped = Array.from(size).flatMap((byte) => (byte === IAC ? [IAC, IAC] : [byte]));
+    this.socket.write(Buffer.from([IAC, SB, OPT_NAWS, ...escaped, IAC, SE]));
+  }
+
+  private request(command: number, option: number): void {
+    this.requested.add(`${command}:${option}`);
+    this.send(command, option);
+  }
+
+  private send(command: number, option: number): void {
+    this.socket.write(Buffer.from([IAC, command, option]));
+  }
+}
@@ -0,0 +1,59 @@
+import * as crypto from 'crypto';
+
+// Encryption helpers for the credential vault. Secrets are sealed either with a key derived
+// from the user's master password (scrypt + AES-256-GCM) or with Electron's safeStorage,
+// which ties them to the OS user account. State and IPC live in main.ts.
+
+export type VaultMode = 'safeStorage' | 'master';
+
+export interface VaultData {
+  mode?: VaultMode; // Unset until the vault is set up
+  salt?: string; // base64, master mode only
+  check?: string; // Known value sealed with the master key, to verify the password on unlock
+  secrets: Record<string, string>; // secretId -> sealed value (base64)
+}
+
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const CHECK_VALUE = 'nice-ssh-vault';
+
+export function createSalt(): string {
+  return crypto.randomBytes(16).toString('base64');
+}
+
+export function deriveKey(masterPassword: string, salt: string): Buffer {
+  return crypto.scryptSync(masterPassword, Buffer.from(salt, 'base64'), KEY_LENGTH, { N: 16384, r: 8, p: 1 });
+}
+
+// iv | auth tag | ciphertext, base64 encoded
+export function seal(key: Buffer, plaintext: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+export function unseal(key: Buffer, sealed: string): string {
+  const data = Buffer.from(sealed, 'base64');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, data.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString('utf-8');
+}
+
+export function createCheck(key: Buffer): string {
+  return seal(key, CHECK_VALUE);
+}
+
+// True if the key was derived from the right master password
+export function verifyCheck(key: Buffer, check: string): boolean {
+  try {
+    return unseal(key, check) === CHECK_VALUE;
+  } catch {
+    return false;
+  }
+}
+
+export function createSecretId(): string {
+  return `secret-${crypto.randomUUID()}`;
+}
@@ -12,9 +12,17 @@ import CommandPalette from './components/CommandPalette';
 import MultiServerCommand from './components/MultiServerCommand';
 import ServerHealthOverview from './components/ServerHealthOverview';
 import TunnelManager from './components/TunnelManager';
+import SessionRecordings from './components/SessionRecordings';
 import Preferences, { getPreferences, PreferencesConfig, maskIP, maskPort, maskUsername, applyTheme } from './components/Preferences';
 import LocalConsole from './components/LocalConsole';
-import { Connection, TabGroup } from './types/electron';
+import KeyUnlockDialog from './components/KeyUnlockDialog';
+import KeyboardInteractiveDialog from './components/KeyboardInteractiveDialog';
+import HostKeyDialog from './components/HostKeyDialog';
+import SshConfigImport from './components/SshConfigImport';
+import BulkImport from './components/BulkImport';
+import VaultUnlockDialog from './components/VaultUnlockDialog';
+import { Connection, TabGroup, PassphrasePromptRequest, PassphrasePromptResponse, KeyboardInteractivePromptRequest, HostKeyPromptRequest, VaultUnlockPromptRequest, ConnectionStatus, LocalProfile } from './types/electron';
+import { applyConnectionStatus, getConnectionStateLabel } from './utils/connectionState';
 import './styles/App.css';
 
 type ViewMode = 'terminal' | 'sftp' | 'dashboard' | 'local';
@@ -27,6 +35,7 @@ interface Tab {
   isConnected: boolean;
   groupId?: string;
   isLocal?: boolean; // true for personal console
+  localProfile?: LocalProfile; // Profile the personal console runs, once chosen
 }
 
 interface TabContextMenu {
@@ -77,6 +86,14 @@ function App() {
 
   // Tunnel manager state
   const [showTunnelManager, setShowTunnelManager] = useState(false);
+  const [showRecordings, setShowRecordings] = useState(false);
+
+  // OpenSSH config import state
+  const [showSshConfigImport, setShowSshConfigImport] = useState(false);
+  const [sshConfigExportError, setSshConfigExportError] = useState<string | null>(null);
+
+  // Bulk import (CSV, JSON, Ansible inventory) state
+  const [showBulkImport, setShowBulkImport] = useState(false);
 
   // Preferences state
   const [showPreferences, setShowPreferences] = useState(false);
@@ -90,6 +107,17 @@ function App() {
   const [draggedTab, setDraggedTab] = useState<string | null>(null);
   const [dragOverTab, setDragOverTab] = useState<string | null>(null);
 
+  // Passphrase prompts from the main process, answered one at a time
+  const [passphrasePrompts, setPassphrasePrompts] = useState<PassphrasePromptRequest[]>([]);
+  // Keyboard-interactive (2FA / PAM) prompts from the server
+  const [keyboardPrompts, setKeyboardPrompts] = useState<KeyboardInteractivePromptRequest[]>([]);
+  // Host key trust / mismatch prompts
+  const [hostKeyPrompts, setHostKeyPrompts] = useState<HostKeyPromptRequest[]>([]);
+  // Credential vault unlock prompts (a locked vault was needed for a connection)
+  const [vaultPrompts, setVaultPrompts] = useState<VaultUnlockPromptRequest[]>([]);
+  // Live connection states from the main process, keyed by connection ID
+  const [connectionStates, setConnectionStates] = useState<Record<string, ConnectionStatus>>({});
+
   // Track if we've already auto-connected in detached mode
   const hasAutoConnected = useRef(false);
 
@@ -109,6 +137,67 @@ function App() {
     loadTabGroups();
   }, []);
 
+  useEffect(() => {
+    return window.electronAPI.onPassphrasePrompt((request) => {
+      setPassphrasePrompts(prev => [...prev, request]);
+    });
+  }, []);
+
+  useEffect(() => {
+    return window.electronAPI.onKeyboardInteractivePrompt((request) => {
+      setKeyboardPrompts(prev => [...prev, request]);
+    });
+  }, []);
+
+  useEffect(() => {
+    return window.electronAPI.onHostKeyPrompt((request) => {
+      setHostKeyPrompts(prev => [...prev, request]);
+    });
+  }, []);
+
+  useEffect(() => {
+    window.electronAPI.getConnectionStates().then((statuses) => {
+      setConnectionStates(prev => statuses.reduce(applyConnectionStatus, prev));
+    });
+    return window.electronAPI.onConnectionState((status) => {
+      setConnectionStates(prev => applyConnectionStatus(prev, status));
+    });
+  }, []);
+
+  useEffect(() => {
+    return window.electronAPI.onVaultUnlockPrompt((request) => {
+      setVaultPrompts(prev => [...prev, request]);
+    });
+  }, []);
+
+  const handleVaultResponse = (response: { masterPassword?: string } | null) => {
+    const [current] = vaultPrompts;
+    if (!current) return;
+    window.electronAPI.respondToPrompt(current.requestId, response);
+    setVaultPrompts(prev => prev.slice(1));
+  };
+
+  const handleHostKeyResponse = (trust: boolean) => {
+    const [current] = hostKeyPrompts;
+    if (!current) return;
+    window.electronAPI.respondToPrompt(current.requestId, trust);
+    setHostKeyPrompts(prev => prev.slice(1));
+  };
+
+  const handleKeyboardResponse = (answers: string[] | null) => {
+    const [current] = keyboardPrompts;
+    if (!current) return;
+    window.electronAPI.respondToPrompt(current.requestId, answers);
+    setKeyboardPrompts(prev => prev.slice(1));
+  };
+
+  const handlePassphraseResponse = (response: PassphrasePromptResponse | null) => {
+    const [current] = passphrasePrompts;
+    if (!current) return;
+    window.electronAPI.respondToPrompt(current.requestId, response);
+    setPassphrasePrompts(prev => prev.slice(1));
+  };
+
   // Apply saved theme on initial load
   useEffect(() => {
     applyTheme(preferences);
@@ -154,7 +243,7 @@ function App() {
     localStorage.setItem('localConsoleTabs', localTabCount.toString());
   }, [tabs, isDetachedWindow]);
 
-  // Keyboard shortcuts (Ctrl+K for command palette, Ctrl+Shift+M for multi-server, Ctrl+Shift+H for health, Ctrl+Shift+T for tunnels, Ctrl+, for preferences)
+  // Keyboard shortcuts (Ctrl+K for command palette, Ctrl+Shift+M for multi-server, Ctrl+Shift+H for health, Ctrl+Shift+T for tunnels, Ctrl+Shift+L for recordings, Ctrl+, for preferences)
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if ((e.ctrlKey || e.metaKey) && e.key === 'k') {
@@ -173,6 +262,10 @@ function App() {
         e.preventDefault();
         setShowTunnelManager(prev => !prev);
       }
+      if ((e.ctrlKey || e.metaKey) && e.shiftKey && (e.key === 'L' || e.key === 'l')) {
+        e.preventDefault();
+        setShowRecordings(prev => !prev);
+      }
       if ((e.ctrlKey || e.metaKey) && e.key === ',') {
         e.preventDefault();
         setShowPreferences(prev => !prev);
@@ -225,15 +318,22 @@ function App() {
       setShowTunnelManager(true);
     };
 
+    const handleRecordings = () => {
+      setShowCommandPalette(false);
+      setShowRecordings(true);
+    };
+
     document.addEventListener('command-palette:new-connection', handleNewConnection);
     document.addEventListener('command-palette:multi-server', handleMultiServer);
     document.addEventListener('command-palette:health-overview', handleHealthOverview);
     document.addEventListener('command-palette:tunnel-manager', handleTunnelManager);
+    document.addEventListener('command-palette:recordings', handleRecordings);
     return () => {
       document.removeEventListener('command-palette:new-connection', handleNewConnection);
       document.removeEventListener('command-palette:multi-server', handleMultiServer);
       document.removeEventListener('command-palette:health-overview', handleHealthOverview);
       document.removeEventListener('command-palette:tunnel-manager', handleTunnelManager);
+      document.removeEventListener('command-palette:recordings', handleRecordings);
     };
   }, []);
 
@@ -274,11 +374,18 @@ function App() {
     }
   };
 
+  const handleExportSshConfig = async (connectionIds?: string[]) => {
+    const result = await window.electronAPI.sshConfigExport(connectionIds);
+    if (!result.success && !result.canceled) {
+      setSshConfigExportError(result.error || 'Failed to export SSH config');
+    }
+  };
+
   const handleReorderConnections = async (reorderedConnections: Connection[]) => {
     // Update local state immediately for responsive UI
     setConnections(reorderedConnections);
 
-    // Persist the new order
+    // Persist the new order (also folder moves and tag edits from the Sidebar)
     try {
       await window.electronAPI.saveAllConnections(reorderedConnections);
     } catch (err) {
@@ -331,7 +438,10 @@ function App() {
     }
   };
 
-  const handleConnect = useCallback(async (connection: Connection, mode: ViewMode = 'terminal') => {
+  const handleConnect = useCallback(async (connection: Connection, requestedMode: ViewMode = 'terminal') => {
+    // Telnet devices only have a terminal - no SFTP or exec channel for files and stats
+    const mode = connection.protocol === 'telnet' ? 'terminal' : requestedMode;
+
     // Check if already connected to this server
     const existingTab = tabs.find(t => t.connectionId === connection.id);
     if (existingTab) {
@@ -518,6 +628,7 @@ function App() {
         mode: 'local',
         isConnected: true,
         isLocal: true,
+        localProfile: tab.localProfile,
         groupId: tab.groupId,
       };
       setTabs(prev => [...prev, newTab]);
@@ -827,6 +938,7 @@ function App() {
             <Sidebar
               connections={connections}
               activeConnectionIds={getActiveConnectionIds()}
+              connectionStates={connectionStates}
               onConnect={handleConnect}
               onEdit={handleEditConnection}
               onDelete={handleDeleteConnection}
@@ -840,6 +952,9 @@ function App() {
               onOpenLocalConsole={handleOpenLocalConsole}
               isLocalConsoleActive={tabs.some(t => t.isLocal && t.id === activeTabId)}
               onReorderConnections={handleReorderConnections}
+              onImportSshConfig={() => setShowSshConfigImport(true)}
+              onBulkImport={() => setShowBulkImport(true)}
+              onExportSshConfig={handleExportSshConfig}
             />
           </>
         )}
@@ -888,9 +1003,12 @@ function App() {
                           onDrop={(e) => handleDrop(e, tab.id)}
                           onDragEnd={(e) => handleDragEnd(e)}
                         >
-                          <span className="tab-indicator"></span>
+                          <span
+                            className={`tab-indicator ${tab.isLocal ? '' : connectionStates[tab.connectionId]?.state || ''}`}
+                            title={tab.isLocal ? undefined : getConnectionStateLabel(connectionStates[tab.connectionId])}
+                          ></span>
                           <span className="tab-name">{tab.isLocal ? 'Personal Console' : tab.connection?.name}</span>
-                          <span className="tab-mode">{tab.isLocal ? 'Local' : tab.mode === 'terminal' ? 'SSH' : tab.mode === 'sftp' ? 'SFTP' : 'Dashboard'}</span>
+                          <span className="tab-mode">{tab.isLocal ? 'Local' : tab.mode === 'terminal' ? (tab.connection?.protocol === 'telnet' ? 'Telnet' : 'SSH') : tab.mode === 'sftp' ? 'SFTP' : 'Dashboard'}</span>
                           <button
                             className="tab-close"
                             onClick={(e) => handleCloseTab(tab.id, e)}
@@ -926,9 +1044,12 @@ function App() {
                         onDrop={(e) => handleDrop(e, tab.id)}
                         onDragEnd={(e) => handleDragEnd(e)}
                       >
-                        <span className="tab-indicator"></span>
+                        <span
+                          className={`tab-indicator ${tab.isLocal ? '' : connectionStates[tab.connectionId]?.state || ''}`}
+                          title={tab.isLocal ? undefined : getConnectionStateLabel(connectionStates[tab.connectionId])}
+                        ></span>
                         <span className="tab-name">{tab.isLocal ? 'Personal Console' : tab.connection?.name}</span>
-                        <span className="tab-mode">{tab.isLocal ? 'Local' : tab.mode === 'terminal' ? 'SSH' : tab.mode === 'sftp' ? 'SFTP' : 'Dashboard'}</span>
+                        <span className="tab-mode">{tab.isLocal ? 'Local' : tab.mode === 'terminal' ? (tab.connection?.protocol === 'telnet' ? 'Telnet' : 'SSH') : tab.mode === 'sftp' ? 'SFTP' : 'Dashboard'}</span>
                         <button
                           className="tab-close"
                           onClick={(e) => handleCloseTab(tab.id, e)}
@@ -1014,9 +1135,10 @@ function App() {
                   </button>
                   {isLocalTab && (
                     <button onClick={() => {
-                      const path = prompt('Enter the starting path for new consoles:', '');
+                      const profile = contextTab?.localProfile;
+                      const path = prompt(`Enter the starting path for new ${profile ? `${profile.name} ` : ''}consoles:`, '');
                       if (path) {
-                        window.electronAPI.localSavePath(path).then(result => {
+                        window.electronAPI.localSavePath(path, profile?.id).then(result => {
                           if (result.success) {
                             alert('Path saved! New consoles will start in: ' + result.path);
                           } else {
@@ -1121,7 +1243,7 @@ function App() {
                       </span>
                       <span className="session-host">
                         {activeTab.isLocal
-                          ? 'Local Terminal'
+                          ? activeTab.localProfile?.name || 'Local Terminal'
                           : `${maskUsername(activeTab.connection?.username || '', preferences.hideUsernames)}@${maskIP(activeTab.connection?.host || '', preferences.hideIPs)}${preferences.hidePorts ? '' : `:${activeTab.connection?.port}`}`
                         }
                       </span>
@@ -1129,51 +1251,55 @@ function App() {
                     <div className="session-controls">
                       {!activeTab.isLocal && (
                         <>
-                          <button
-                            className={`quick-actions-toggle ${showQuickActions ? 'active' : ''}`}
-                            onClick={() => setShowQuickActions(!showQuickActions)}
-                            title="Quick Actions"
-                          >
-                            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                              <path d="M13 2L3 14h9l-1 8 10-12h-9l1-8z"></path>
-                            </svg>
-                          </button>
-                          <div className="mode-switcher">
-                            <button
-                              className={`mode-btn ${activeTab.mode === 'terminal' ? 'active' : ''}`}
-                              onClick={(e) => handleSwitchMode('terminal', e.ctrlKey || e.metaKey)}
-                              title="Terminal (Ctrl+Click to open in new tab)"
-                            >
-                              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                                <polyline points="4 17 10 11 4 5"></polyline>
-                                <line x1="12" y1="19" x2="20" y2="19"></line>
-                              </svg>
-                              Terminal
-                            </button>
+                          {activeTab.connection?.protocol !== 'telnet' && (
+                            <>
                             <button
-                              className={`mode-btn ${activeTab.mode === 'sftp' ? 'active' : ''}`}
-                              onClick={(e) => handleSwitchMode('sftp', e.ctrlKey || e.metaKey)}
-                              title="Files (Ctrl+Click to open in new tab)"
+                              className={`quick-actions-toggle ${showQuickActions ? 'active' : ''}`}
+                              onClick={() => setShowQuickActions(!showQuickActions)}
+                              title="Quick Actions"
                             >
                               <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                                <path d="M22 19a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h5l2 3h9a2 2 0 0 1 2 2z"></path>
+                                <path d="M13 2L3 14h9l-1 8 10-12h-9l1-8z"></path>
                               </svg>
-                              Files
                             </button>
-                            <button
-                              className={`mode-btn ${activeTab.mode === 'dashboard' ? 'active' : ''}`}
-                              onClick={(e) => handleSwitchMode('dashboard', e.ctrlKey || e.metaKey)}
-                              title="Dashboard (Ctrl+Click to open in new tab)"
-                            >
-                              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                                <rect x="3" y="3" width="7" height="7"></rect>
-                                <rect x="14" y="3" width="7" height="7"></rect>
-                                <rect x="14" y="14" width="7" height="7"></rect>
-                                <rect x="3" y="14" width="7" height="7"></rect>
-                              </svg>
-                              Dashboard
-                            </button>
-                          </div>
+                            <div className="mode-switcher">
+                              <button
+                                className={`mode-btn ${activeTab.mode === 'terminal' ? 'active' : ''}`}
+                                onClick={(e) => handleSwitchMode('terminal', e.ctrlKey || e.metaKey)}
+                                title="Terminal (Ctrl+Click to open in new tab)"
+                              >
+                                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                  <polyline points="4 17 10 11 4 5"></polyline>
+                                  <line x1="12" y1="19" x2="20" y2="19"></line>
+                                </svg>
+                                Terminal
+                              </button>
+                              <button
+                                className={`mode-btn ${activeTab.mode === 'sftp' ? 'active' : ''}`}
+                                onClick={(e) => handleSwitchMode('sftp', e.ctrlKey || e.metaKey)}
+                                title="Files (Ctrl+Click to open in new tab)"
+                              >
+                                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                  <path d="M22 19a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h5l2 3h9a2 2 0 0 1 2 2z"></path>
+                                </svg>
+                                Files
+                              </button>
+                              <button
+                                className={`mode-btn ${activeTab.mode === 'dashboard' ? 'active' : ''}`}
+                                onClick={(e) => handleSwitchMode('dashboard', e.ctrlKey || e.metaKey)}
+                                title="Dashboard (Ctrl+Click to open in new tab)"
+                              >
+                                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                  <rect x="3" y="3" width="7" height="7"></rect>
+                                  <rect x="14" y="3" width="7" height="7"></rect>
+                                  <rect x="14" y="14" width="7" height="7"></rect>
+                                  <rect x="3" y="14" width="7" height="7"></rect>
+                                </svg>
+                                Dashboard
+                              </button>
+                            </div>
+                            </>
+                          )}
                           <button className="disconnect-btn" onClick={() => handleCloseTab(activeTab.id)}>
                             <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                               <path d="M18.36 6.64a9 9 0 1 1-12.73 0"></path>
@@ -1202,7 +1328,11 @@ function App() {
                       >
                         {/* Local Console */}
                         {tab.isLocal && (
-                          <LocalConsole onClose={() => handleCloseTab(tab.id)} />
+                          <LocalConsole
+                            onClose={() => handleCloseTab(tab.id)}
+                            profileId={tab.localProfile?.id}
+                            onProfileSelect={(profile) => setTabs(prev => prev.map(t => t.id === tab.id ? { ...t, localProfile: profile } : t))}
+                          />
                         )}
                         {/* SSH Connection Content */}
                         {!tab.isLocal && (
@@ -1247,6 +1377,7 @@ function App() {
                               <div style={{ display: tab.mode === 'dashboard' ? 'flex' : 'none', flex: 1 }}>
                                 <Dashboard
                                   connectionId={tab.connectionId}
+                                  connectionStatus={connectionStates[tab.connectionId]}
                                   currentPath={currentPaths[tab.connectionId] || '/'}
                                 />
                               </div>
@@ -1258,7 +1389,7 @@ function App() {
                   </div>
 
                   {/* Quick Actions Popup - only for SSH connections */}
-                  {showQuickActions && activeTab && !activeTab.isLocal && (
+                  {showQuickActions && activeTab && !activeTab.isLocal && activeTab.connection?.protocol !== 'telnet' && (
                     <QuickActions
                       connectionId={activeTab.connectionId}
                       onExecute={(cmd) => window.electronAPI.write(activeTab.connectionId, cmd + '\n')}
@@ -1282,6 +1413,7 @@ function App() {
       {isModalOpen && (
         <ConnectionModal
           connection={editingConnection}
+          connections={connections}
           onSave={handleSaveConnection}
           onClose={() => {
             setIsModalOpen(false);
@@ -1290,6 +1422,34 @@ function App() {
         />
       )}
 
+      {hostKeyPrompts.length > 0 && (
+        <HostKeyDialog request={hostKeyPrompts[0]} onRespond={handleHostKeyResponse} />
+      )}
+
+      {hostKeyPrompts.length === 0 && vaultPrompts.length > 0 && (
+        <VaultUnlockDialog
+          request={vaultPrompts[0]}
+          onSubmit={(masterPassword) => handleVaultResponse({ masterPassword })}
+          onCancel={() => handleVaultResponse(null)}
+        />
+      )}
+
+      {hostKeyPrompts.length === 0 && vaultPrompts.length === 0 && passphrasePrompts.length > 0 && (
+        <KeyUnlockDialog
+          request={passphrasePrompts[0]}
+          onSubmit={handlePassphraseResponse}
+          onCancel={() => handlePassphraseResponse(null)}
+        />
+      )}
+
+      {hostKeyPrompts.length === 0 && vaultPrompts.length === 0 && passphrasePrompts.length === 0 && keyboardPrompts.length > 0 && (
+        <KeyboardInteractiveDialog
+          request={keyboardPrompts[0]}
+          onSubmit={handleKeyboardResponse}
+          onCancel={() => handleKeyboardResponse(null)}
+        />
+      )}
+
       {/* Group Creation Modal */}
       {showGroupModal && (
         <div className="modal-overlay" onClick={() => setShowGroupModal(false)}>
@@ -1382,11 +1542,60 @@ function App() {
         activeConnectionIds={getActiveConnectionIds()}
       />
 
+      {/* Session Recordings */}
+      <SessionRecordings
+        isOpen={showRecordings}
+        onClose={() => setShowRecordings(false)}
+      />
+
+      {/* OpenSSH Config Import */}
+      <SshConfigImport
+        isOpen={showSshConfigImport}
+        onClose={() => setShowSshConfigImport(false)}
+        connections={connections}
+        onImported={setConnections}
+      />
+
+      {/* OpenSSH Config Export failure */}
+      {sshConfigExportError && (
+        <div className="ssh-import-overlay" onClick={() => setSshConfigExportError(null)}>
+          <div className="ssh-import-modal compact" onClick={e => e.stopPropagation()}>
+            <div className="ssh-import-header">
+              <div className="header-title">
+                <span>Export to SSH Config</span>
+              </div>
+              <button className="close-btn" onClick={() => setSshConfigExportError(null)}>
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <line x1="18" y1="6" x2="6" y2="18"></line>
+                  <line x1="6" y1="6" x2="18" y2="18"></line>
+                </svg>
+              </button>
+            </div>
+            <div className="ssh-import-body">
+              <div className="ssh-import-error">{sshConfigExportError}</div>
+            </div>
+            <div className="ssh-import-footer">
+              <button className="btn-primary" onClick={() => setSshConfigExportError(null)}>OK</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Bulk Import */}
+      <BulkImport
+        isOpen={showBulkImport}
+        onClose={() => setShowBulkImport(false)}
+        connections={connections}
+        onImported={setConnections}
+      />
+
       {/* Preferences */}
       <Preferences
         isOpen={showPreferences}
         onClose={() => setShowPreferences(false)}
         onPreferencesChange={handlePreferencesChange}
+        connections={connections}
+        onConnectionsChange={setConnections}
       />
     </div>
   );
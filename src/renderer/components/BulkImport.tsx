@@ -0,0 +1,310 @@
+import { useState, useEffect } from 'react';
+import { Connection, InventoryImportField, InventoryImportOptions, InventoryImportPreview } from '../types/electron';
+import './SshConfigImport.css';
+import './BulkImport.css';
+
+interface BulkImportProps {
+  isOpen: boolean;
+  onClose: () => void;
+  connections: Connection[];
+  onImported: (connections: Connection[]) => void;
+}
+
+type Step = 'file' | 'map' | 'review';
+
+const FIELD_LABELS: Record<InventoryImportField, string> = {
+  name: 'Name',
+  host: 'Host',
+  port: 'Port',
+  username: 'Username',
+  privateKey: 'Private key',
+  folder: 'Folder',
+  tags: 'Tags',
+};
+
+const FORMAT_LABELS: Record<NonNullable<InventoryImportPreview['format']>, string> = {
+  csv: 'CSV',
+  json: 'JSON host list',
+  'ansible-ini': 'Ansible inventory (INI)',
+  'ansible-yaml': 'Ansible inventory (YAML)',
+  'ansible-json': 'Ansible inventory (JSON)',
+};
+
+const ACTION_MARKS = { add: '+', update: '~', unchanged: '=', skip: '!' };
+
+// Import wizard for CSV/JSON host lists and Ansible inventories: pick a file, map its columns
+// (or inventory vars) onto connection fields, then review the dry-run diff before saving
+function BulkImport({ isOpen, onClose, connections, onImported }: BulkImportProps) {
+  const [step, setStep] = useState<Step>('file');
+  const [preview, setPreview] = useState<InventoryImportPreview | null>(null);
+  const [options, setOptions] = useState<InventoryImportOptions>({ mapping: {}, groupsAs: 'none' });
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setStep('file');
+      setPreview(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const loadPreview = async (filePath: string, withOptions?: InventoryImportOptions): Promise<InventoryImportPreview | null> => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await window.electronAPI.inventoryPreview(filePath, withOptions);
+      if (!result.success) {
+        setError(result.error || 'Failed to read the file');
+        return null;
+      }
+      setPreview(result);
+      // Preselect everything that would change something
+      setSelected(new Set(
+        result.entries.map((e, index) => (e.action === 'add' || e.action === 'update' ? index : -1)).filter((index) => index >= 0)
+      ));
+      return result;
+    } catch (err: any) {
+      setError(err.message || 'Failed to read the file');
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleChooseFile = async () => {
+    const paths = await window.electronAPI.openFileDialog();
+    if (!paths || paths.length === 0) return;
+    const result = await loadPreview(paths[0]);
+    if (result?.options) {
+      setOptions(result.options);
+      setStep('map');
+    }
+  };
+
+  const handleMappingChange = (field: InventoryImportField, column: string) => {
+    setOptions((prev) => ({ ...prev, mapping: { ...prev.mapping, [field]: column || undefined } }));
+  };
+
+  const handleReview = async () => {
+    if (!preview) return;
+    const result = await loadPreview(preview.filePath, { ...options, parentFolder: options.parentFolder?.trim() || undefined });
+    if (result) setStep('review');
+  };
+
+  const toggleEntry = (index: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    const chosen = preview.entries.filter((e, index) => selected.has(index) && e.connection);
+    const updates = new Map(chosen.filter((e) => e.action === 'update').map((e) => [e.connection!.id, e.connection!]));
+    const additions = chosen.filter((e) => e.action === 'add').map((e) => e.connection!);
+    if (updates.size === 0 && additions.length === 0) return;
+
+    setIsSaving(true);
+    try {
+      const saved = await window.electronAPI.saveAllConnections([
+        ...connections.map((c) => updates.get(c.id) || c),
+        ...additions,
+      ]);
+      onImported(saved);
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save connections');
+    }
+    setIsSaving(false);
+  };
+
+  if (!isOpen) return null;
+
+  const entries = preview?.entries || [];
+  const counts = entries.reduce((acc, e) => ({ ...acc, [e.action]: acc[e.action] + 1 }), { add: 0, update: 0, unchanged: 0, skip: 0 });
+  const importCount = entries.filter((e, index) => selected.has(index) && e.connection).length;
+
+  return (
+    <div className="ssh-import-overlay" onClick={onClose}>
+      <div className="ssh-import-modal bulk-import-modal" onClick={e => e.stopPropagation()}>
+        <div className="ssh-import-header">
+          <div className="header-title">
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path>
+              <polyline points="14 2 14 8 20 8"></polyline>
+              <line x1="12" y1="18" x2="12" y2="12"></line>
+              <line x1="9" y1="15" x2="15" y2="15"></line>
+            </svg>
+            <span>Bulk Import</span>
+          </div>
+          <div className="bulk-import-steps">
+            {(['file', 'map', 'review'] as Step[]).map((s, index) => (
+              <span key={s} className={`bulk-import-step ${step === s ? 'active' : ''}`}>
+                {index + 1}. {s === 'file' ? 'File' : s === 'map' ? 'Mapping' : 'Review'}
+              </span>
+            ))}
+          </div>
+          <button className="close-btn" onClick={onClose}>
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"></line>
+              <line x1="6" y1="6" x2="18" y2="18"></line>
+            </svg>
+          </button>
+        </div>
+
+        {preview && (
+          <div className="ssh-import-file">
+            <span className="ssh-import-path" title={preview.filePath}>{preview.filePath}</span>
+            {preview.format && <span className="ssh-import-badge">{FORMAT_LABELS[preview.format]}</span>}
+            <button onClick={handleChooseFile}>Choose File...</button>
+          </div>
+        )}
+
+        <div className="ssh-import-body">
+          {error && <div className="ssh-import-error">{error}</div>}
+
+          {step === 'file' && (
+            <div className="bulk-import-intro">
+              <p>Import many hosts at once from:</p>
+              <ul>
+                <li>CSV exports (comma, semicolon or tab separated, with a header row)</li>
+                <li>JSON lists of host objects</li>
+                <li>Ansible inventories in INI or YAML, or <code>ansible-inventory --list</code> output</li>
+              </ul>
+              <p>Nothing is saved until you have reviewed the changes.</p>
+              <button className="btn-primary" onClick={handleChooseFile} disabled={isLoading}>
+                {isLoading ? 'Reading...' : 'Choose File...'}
+              </button>
+            </div>
+          )}
+
+          {step === 'map' && preview && (
+            <div className="bulk-import-mapping">
+              <p className="bulk-import-summary">
+                {entries.length} record{entries.length === 1 ? '' : 's'}. Pick the column or inventory variable for each field.
+              </p>
+              {(Object.keys(FIELD_LABELS) as InventoryImportField[]).map((field) => (
+                <label key={field} className="bulk-import-field">
+                  <span>{FIELD_LABELS[field]}</span>
+                  <select value={options.mapping[field] || ''} onChange={(e) => handleMappingChange(field, e.target.value)}>
+                    <option value="">
+                      {field === 'host' ? '(same as name)' : field === 'name' ? '(same as host)' : field === 'username' ? '(your local user)' : '(not set)'}
+                    </option>
+                    {preview.columns.map((column) => (
+                      <option key={column} value={column}>{column}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+              {preview.hasGroups && (
+                <label className="bulk-import-field">
+                  <span>Inventory groups</span>
+                  <select
+                    value={options.groupsAs}
+                    onChange={(e) => setOptions((prev) => ({ ...prev, groupsAs: e.target.value as InventoryImportOptions['groupsAs'] }))}
+                  >
+                    <option value="folders">Become folders (nested groups nest)</option>
+                    <option value="tags">Become tags</option>
+                    <option value="none">Ignore</option>
+                  </select>
+                </label>
+              )}
+              <label className="bulk-import-field">
+                <span>Parent folder</span>
+                <input
+                  type="text"
+                  value={options.parentFolder || ''}
+                  onChange={(e) => setOptions((prev) => ({ ...prev, parentFolder: e.target.value }))}
+                  placeholder="Optional, e.g. Imported/CMDB"
+                />
+              </label>
+            </div>
+          )}
+
+          {step === 'review' && (
+            <>
+              <div className="bulk-import-counts">
+                <span className="add">{counts.add} new</span>
+                <span className="update">{counts.update} changed</span>
+                <span>{counts.unchanged} unchanged</span>
+                {counts.skip > 0 && <span className="skip">{counts.skip} skipped</span>}
+              </div>
+              <div className="ssh-import-list">
+                {entries.map((entry, index) => {
+                  const conn = entry.connection;
+                  const selectable = entry.action === 'add' || entry.action === 'update';
+                  return (
+                    <label key={index} className={`ssh-import-item bulk-import-entry ${entry.action}`}>
+                      <input
+                        type="checkbox"
+                        checked={selected.has(index)}
+                        disabled={!selectable}
+                        onChange={() => toggleEntry(index)}
+                      />
+                      <span className="bulk-import-mark">{ACTION_MARKS[entry.action]}</span>
+                      <div className="ssh-import-info">
+                        <span className="ssh-import-name">
+                          {entry.action === 'update' || entry.action === 'unchanged' ? entry.existingName : conn?.name || entry.label}
+                          {entry.label !== (conn?.name || entry.existingName) && <span className="ssh-import-badge">{entry.label}</span>}
+                        </span>
+                        {entry.action === 'skip' && <span className="ssh-import-details">{entry.reason}</span>}
+                        {entry.action === 'add' && conn && (
+                          <span className="ssh-import-details">
+                            {conn.username}@{conn.host}{conn.port !== 22 ? `:${conn.port}` : ''}
+                            {' · '}
+                            {conn.privateKey || 'SSH agent'}
+                            {conn.folder && ` · ${conn.folder}`}
+                            {conn.tags && ` · ${conn.tags.join(', ')}`}
+                          </span>
+                        )}
+                        {entry.action === 'update' && entry.changes?.map((change) => (
+                          <span key={change.field} className="ssh-import-details bulk-import-change">
+                            {FIELD_LABELS[change.field]}: <del>{change.from || '(none)'}</del> → <ins>{change.to}</ins>
+                          </span>
+                        ))}
+                      </div>
+                    </label>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="ssh-import-footer">
+          <span className="ssh-import-hint">
+            {step === 'review' ? 'Hosts are matched to saved connections by host, port and user, then by name.' : ''}
+          </span>
+          {step === 'file' && <button className="btn-secondary" onClick={onClose}>Cancel</button>}
+          {step === 'map' && (
+            <>
+              <button className="btn-secondary" onClick={() => setStep('file')}>Back</button>
+              <button className="btn-primary" onClick={handleReview} disabled={isLoading}>
+                {isLoading ? 'Checking...' : 'Review Changes'}
+              </button>
+            </>
+          )}
+          {step === 'review' && (
+            <>
+              <button className="btn-secondary" onClick={() => setStep('map')}>Back</button>
+              <button className="btn-primary" onClick={handleImport} disabled={importCount === 0 || isSaving}>
+                {isSaving ? 'Importing...' : `Apply ${importCount} Change${importCount === 1 ? '' : 's'}`}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default BulkImport;
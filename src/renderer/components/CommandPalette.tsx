@@ -182,6 +182,18 @@ function CommandPalette({
       },
     });
 
+    items.push({
+      id: 'action-recordings',
+      type: 'action',
+      title: 'Session Recordings',
+      subtitle: 'Play back recorded terminal sessions (Ctrl+Shift+L)',
+      icon: '⏺️',
+      action: () => {
+        onClose();
+        document.dispatchEvent(new CustomEvent('command-palette:recordings'));
+      },
+    });
+
     items.push({
       id: 'action-split-horizontal',
       type: 'action',
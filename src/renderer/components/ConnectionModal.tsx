@@ -1,15 +1,44 @@
-import React, { useState, useEffect } from 'react';
-import { Connection } from '../types/electron';
+import React, { useState, useEffect, useRef } from 'react';
+import { Connection, AdvancedSettings, ProxySettings, CertificateInspection, DiagnosticStage, AuthMethodEntry } from '../types/electron';
 import { v4 as uuidv4 } from 'uuid';
+import { getFolderPaths, normalizeFolder, parseTags } from '../utils/connectionGroups';
+import { parseEnvInput, formatEnvInput } from '../utils/commandInput';
 import './ConnectionModal.css';
 
 interface ConnectionModalProps {
   connection: Connection | null;
+  connections?: Connection[]; // Saved connections, offered as jump hosts
   onSave: (connection: Connection) => void;
   onClose: () => void;
 }
 
-function ConnectionModal({ connection, onSave, onClose }: ConnectionModalProps) {
+const STAGE_ICONS: Record<DiagnosticStage['status'], string> = {
+  pending: '○',
+  running: '◌',
+  pass: '✓',
+  warn: '!',
+  fail: '✕',
+  skipped: '–',
+};
+
+const AUTH_METHOD_LABELS: Record<AuthMethodEntry['type'], string> = {
+  key: 'Key',
+  agent: 'Agent',
+  password: 'Password',
+  'keyboard-interactive': 'Keyboard-interactive',
+};
+
+function getFileName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath;
+}
+
+function formatValidity(info: NonNullable<CertificateInspection['info']>): string {
+  const from = info.validAfter !== null ? new Date(info.validAfter).toLocaleString() : 'always';
+  const to = info.validBefore !== null ? new Date(info.validBefore).toLocaleString() : 'forever';
+  return `${from} – ${to}`;
+}
+
+function ConnectionModal({ connection, connections = [], onSave, onClose }: ConnectionModalProps) {
   const [formData, setFormData] = useState<Connection>({
     id: '',
     name: '',
@@ -19,13 +48,27 @@ function ConnectionModal({ connection, onSave, onClose }: ConnectionModalProps)
     password: '',
     privateKey: '',
   });
-  const [authMethod, setAuthMethod] = useState<'password' | 'key'>('password');
+  const [authMethod, setAuthMethod] = useState<NonNullable<Connection['authMethod']>>('password');
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [tagsInput, setTagsInput] = useState('');
+  const [showStartup, setShowStartup] = useState(false);
+  const [showLogging, setShowLogging] = useState(false);
+  const [envInput, setEnvInput] = useState('');
+  const [certInspection, setCertInspection] = useState<CertificateInspection | null>(null);
+  const [testStages, setTestStages] = useState<DiagnosticStage[] | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const testIdRef = useRef<string | null>(null);
 
   useEffect(() => {
     if (connection) {
       setFormData(connection);
-      setAuthMethod(connection.privateKey ? 'key' : 'password');
+      setAuthMethod(connection.authMethod || (connection.privateKey ? 'key' : 'password'));
+      setShowAdvanced(!!connection.advanced);
+      setTagsInput((connection.tags || []).join(', '));
+      setShowStartup(!!(connection.env || connection.startupScript || connection.defaultDirectory || connection.persistentSession));
+      setShowLogging(!!connection.sessionLog);
+      setEnvInput(formatEnvInput(connection.env));
     } else {
       setFormData({
         id: uuidv4(),
@@ -36,25 +79,211 @@ function ConnectionModal({ connection, onSave, onClose }: ConnectionModalProps)
         password: '',
         privateKey: '',
       });
+      setTagsInput('');
+      setEnvInput('');
     }
   }, [connection]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
+    const { name, value, type, checked } = e.target;
     setFormData((prev) => ({
       ...prev,
-      [name]: name === 'port' ? parseInt(value) || 22 : value,
+      [name]: type === 'checkbox' ? checked : name === 'port' ? parseInt(value) || 22 : value,
     }));
     if (errors[name]) {
       setErrors((prev) => ({ ...prev, [name]: '' }));
     }
   };
 
+  // Advanced settings live in a nested object; numeric fields are undefined when left empty
+  const advanced = formData.advanced || {};
+
+  const handleAdvancedChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value, type, checked } = e.target;
+    const fieldValue = type === 'checkbox' ? checked : type === 'number' ? (value === '' ? undefined : Number(value)) : value;
+    setFormData((prev) => ({ ...prev, advanced: { ...prev.advanced, [name]: fieldValue } }));
+    if (errors[name]) {
+      setErrors((prev) => ({ ...prev, [name]: '' }));
+    }
+  };
+
+  // Logging is on while sessionLog is set; numeric limits are undefined when left empty
+  const handleSessionLogChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value, type, checked } = e.target;
+    if (name === 'enabled') {
+      setFormData((prev) => ({ ...prev, sessionLog: checked ? { timestamps: true } : undefined }));
+      return;
+    }
+    const fieldValue = type === 'checkbox' ? checked : value === '' ? undefined : Number(value);
+    setFormData((prev) => ({ ...prev, sessionLog: { ...prev.sessionLog, [name]: fieldValue } }));
+    if (errors[name]) {
+      setErrors((prev) => ({ ...prev, [name]: '' }));
+    }
+  };
+
+  // Drop empty fields so connections without overrides keep using the defaults
+  const cleanAdvanced = (): AdvancedSettings | undefined => {
+    const cleaned: AdvancedSettings = {};
+    for (const key of ['kexAlgorithms', 'ciphers', 'macs', 'hostKeyAlgorithms'] as const) {
+      const list = advanced[key]?.replace(/\s+/g, '');
+      if (list) cleaned[key] = list;
+    }
+    if (advanced.compression) cleaned.compression = true;
+    for (const key of ['keepaliveInterval', 'keepaliveCountMax', 'readyTimeout'] as const) {
+      if (advanced[key] !== undefined) cleaned[key] = advanced[key];
+    }
+    return Object.keys(cleaned).length > 0 ? cleaned : undefined;
+  };
+
+  // Proxy: unset follows the default from Preferences
+  const proxyChoice = formData.proxy?.type || 'default';
+
+  const handleProxyTypeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const type = e.target.value as ProxySettings['type'] | 'default';
+    setFormData((prev) => ({
+      ...prev,
+      proxy: type === 'default'
+        ? undefined
+        : { host: '', port: type === 'socks5' ? 1080 : 3128, ...prev.proxy, type },
+    }));
+  };
+
+  const handleProxyChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({
+      ...prev,
+      proxy: { ...prev.proxy!, [name]: name === 'port' ? parseInt(value) || 0 : value },
+    }));
+    const errorKey = `proxy${name[0].toUpperCase()}${name.slice(1)}`;
+    if (errors[errorKey]) {
+      setErrors((prev) => ({ ...prev, [errorKey]: '' }));
+    }
+  };
+
   const handleSelectPrivateKey = async () => {
     const path = await window.electronAPI.selectPrivateKey();
     if (path) {
       setFormData((prev) => ({ ...prev, privateKey: path }));
+      // Pick up a certificate sitting next to the key, like ssh does
+      if (!formData.certificate) {
+        const suggested = `${path}-cert.pub`;
+        const inspection = await window.electronAPI.inspectCertificate(suggested);
+        if (inspection.info) {
+          setFormData((prev) => ({ ...prev, certificate: suggested }));
+        }
+      }
+    }
+  };
+
+  const handleSelectCertificate = async () => {
+    const path = await window.electronAPI.selectCertificate(formData.privateKey || undefined);
+    if (path) {
+      setFormData((prev) => ({ ...prev, certificate: path }));
+    }
+  };
+
+  // Show principals and validity for the selected certificate
+  useEffect(() => {
+    if (!formData.certificate) {
+      setCertInspection(null);
+      return;
     }
+    let cancelled = false;
+    window.electronAPI.inspectCertificate(formData.certificate).then((inspection) => {
+      if (!cancelled) setCertInspection(inspection);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [formData.certificate]);
+
+  // Telnet has no auth methods: the optional password only answers the device's login prompt
+  const isTelnet = formData.protocol === 'telnet';
+
+  // Ordered auth list for the 'multiple' method; main tries the entries top to bottom
+  const authMethods = formData.authMethods || [];
+  const usesPassword = isTelnet || authMethod === 'password' || (authMethod === 'multiple' && authMethods.some((m) => m.type === 'password'));
+  const usesAgent = authMethod === 'agent' || (authMethod === 'multiple' && authMethods.some((m) => m.type === 'agent'));
+
+  // Follow the protocol's default port unless a custom one was entered
+  const handleProtocolChange = (protocol: NonNullable<Connection['protocol']>) => {
+    setFormData((prev) => ({
+      ...prev,
+      protocol,
+      port: prev.port === 22 || prev.port === 23 ? (protocol === 'telnet' ? 23 : 22) : prev.port,
+    }));
+    setTestStages(null);
+  };
+
+  const handleAddAuthMethod = async (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const type = e.target.value as AuthMethodEntry['type'] | '';
+    if (!type) return;
+    let entry: AuthMethodEntry;
+    if (type === 'key') {
+      const path = await window.electronAPI.selectPrivateKey();
+      if (!path) return;
+      const suggested = `${path}-cert.pub`;
+      const inspection = await window.electronAPI.inspectCertificate(suggested);
+      entry = { type: 'key', privateKey: path, certificate: inspection.info ? suggested : undefined };
+    } else {
+      entry = { type };
+    }
+    setFormData((prev) => ({ ...prev, authMethods: [...(prev.authMethods || []), entry] }));
+    if (errors.authMethods) {
+      setErrors((prev) => ({ ...prev, authMethods: '' }));
+    }
+  };
+
+  const handleRemoveAuthMethod = (index: number) => {
+    setFormData((prev) => ({ ...prev, authMethods: (prev.authMethods || []).filter((_, i) => i !== index) }));
+  };
+
+  const handleMoveAuthMethod = (index: number, direction: -1 | 1) => {
+    setFormData((prev) => {
+      const methods = [...(prev.authMethods || [])];
+      const target = index + direction;
+      if (target < 0 || target >= methods.length) return prev;
+      [methods[index], methods[target]] = [methods[target], methods[index]];
+      return { ...prev, authMethods: methods };
+    });
+  };
+
+  // Attach a certificate to a key entry, or drop the one it has
+  const handleToggleAuthCertificate = async (index: number) => {
+    const entry = authMethods[index];
+    if (entry?.type !== 'key') return;
+    const certificate = entry.certificate ? undefined : await window.electronAPI.selectCertificate(entry.privateKey);
+    if (!entry.certificate && !certificate) return;
+    setFormData((prev) => ({
+      ...prev,
+      authMethods: (prev.authMethods || []).map((m, i) => (i === index && m.type === 'key' ? { ...m, certificate } : m)),
+    }));
+  };
+
+  // Jump host chain (ProxyJump) - ordered list of saved connection IDs
+  const jumpHosts = formData.jumpHosts || [];
+  const availableJumpHosts = connections.filter(
+    (c) => c.id !== formData.id && !jumpHosts.includes(c.id)
+  );
+
+  const handleAddJumpHost = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const id = e.target.value;
+    if (!id) return;
+    setFormData((prev) => ({ ...prev, jumpHosts: [...(prev.jumpHosts || []), id] }));
+  };
+
+  const handleRemoveJumpHost = (id: string) => {
+    setFormData((prev) => ({ ...prev, jumpHosts: (prev.jumpHosts || []).filter((h) => h !== id) }));
+  };
+
+  const handleMoveJumpHost = (index: number, direction: -1 | 1) => {
+    setFormData((prev) => {
+      const hosts = [...(prev.jumpHosts || [])];
+      const target = index + direction;
+      if (target < 0 || target >= hosts.length) return prev;
+      [hosts[index], hosts[target]] = [hosts[target], hosts[index]];
+      return { ...prev, jumpHosts: hosts };
+    });
   };
 
   const validate = (): boolean => {
@@ -66,32 +295,153 @@ function ConnectionModal({ connection, onSave, onClose }: ConnectionModalProps)
     if (!formData.host.trim()) {
       newErrors.host = 'Host is required';
     }
-    if (!formData.username.trim()) {
-      newErrors.username = 'Username is required';
+    if (formData.proxy && formData.proxy.type !== 'none') {
+      if (!formData.proxy.host.trim()) {
+        newErrors.proxyHost = 'Proxy host is required';
+      }
+      if (!(formData.proxy.port >= 1 && formData.proxy.port <= 65535)) {
+        newErrors.proxyPort = 'Invalid port';
+      }
     }
-    if (authMethod === 'password' && !formData.password) {
-      newErrors.password = 'Password is required';
+    if (formData.sessionLog) {
+      const { maxSizeMB, maxAgeHours } = formData.sessionLog;
+      if (maxSizeMB !== undefined && !(maxSizeMB > 0)) {
+        newErrors.maxSizeMB = 'Must be more than 0';
+      }
+      if (maxAgeHours !== undefined && !(maxAgeHours > 0)) {
+        newErrors.maxAgeHours = 'Must be more than 0';
+      }
+      if (newErrors.maxSizeMB || newErrors.maxAgeHours) {
+        setShowLogging(true);
+      }
     }
-    if (authMethod === 'key' && !formData.privateKey) {
-      newErrors.privateKey = 'Private key is required';
+    // The rest only applies to SSH; telnet logins are optional and answered at the prompt
+    if (!isTelnet) {
+      if (!formData.username.trim()) {
+        newErrors.username = 'Username is required';
+      }
+      if (usesPassword && !formData.password && !formData.passwordSecretId) {
+        newErrors.password = 'Password is required';
+      }
+      if (authMethod === 'key' && !formData.privateKey) {
+        newErrors.privateKey = 'Private key is required';
+      }
+      if (authMethod === 'multiple' && authMethods.length === 0) {
+        newErrors.authMethods = 'Add at least one method';
+      }
+      if (formData.totpSecret && !/^[A-Z2-7]+=*$/i.test(formData.totpSecret.replace(/\s/g, ''))) {
+        newErrors.totpSecret = 'TOTP secret must be base32 (letters A-Z and digits 2-7)';
+      }
+      for (const key of ['kexAlgorithms', 'ciphers', 'macs', 'hostKeyAlgorithms'] as const) {
+        const list = advanced[key]?.replace(/\s+/g, '');
+        if (list && !/^[+\-^]?[\w.@-]+(,[\w.@-]+)*$/.test(list)) {
+          newErrors[key] = 'Use a comma-separated list of algorithm names';
+        }
+      }
+      if (advanced.keepaliveInterval !== undefined && !(advanced.keepaliveInterval >= 0)) {
+        newErrors.keepaliveInterval = 'Must be 0 or more';
+      }
+      if (advanced.keepaliveCountMax !== undefined && !(advanced.keepaliveCountMax >= 1)) {
+        newErrors.keepaliveCountMax = 'Must be at least 1';
+      }
+      if (advanced.readyTimeout !== undefined && !(advanced.readyTimeout >= 1)) {
+        newErrors.readyTimeout = 'Must be at least 1 second';
+      }
+      if (Object.keys(newErrors).some((key) => key in advanced)) {
+        setShowAdvanced(true);
+      }
+      const { invalidLine } = parseEnvInput(envInput);
+      if (invalidLine) {
+        newErrors.env = `Invalid line "${invalidLine}" - use KEY=value with letters, digits and _ in the name`;
+        setShowStartup(true);
+      }
     }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
+  // The connection as it will be saved: fields of other auth methods and empty values dropped
+  const buildConnection = (): Connection => {
+    const { env } = parseEnvInput(envInput);
+    const proxyAuth = !!formData.proxy && formData.proxy.type !== 'none' && !!formData.proxy.username?.trim();
+    const built: Connection = {
+      ...formData,
+      protocol: isTelnet ? 'telnet' : undefined,
+      authMethod,
+      authMethods: authMethod === 'multiple' ? authMethods : undefined,
+      password: usesPassword ? formData.password || undefined : undefined,
+      passwordSecretId: usesPassword ? formData.passwordSecretId : undefined,
+      privateKey: authMethod === 'key' ? formData.privateKey : undefined,
+      certificate: authMethod === 'key' ? formData.certificate || undefined : undefined,
+      agentPath: formData.agentPath?.trim() || undefined,
+      agentForward: formData.agentForward || undefined,
+      totpSecret: formData.totpSecret?.replace(/\s/g, '') || undefined,
+      jumpHosts: jumpHosts.length > 0 ? jumpHosts : undefined,
+      folder: normalizeFolder(formData.folder),
+      tags: parseTags(tagsInput).length > 0 ? parseTags(tagsInput) : undefined,
+      advanced: cleanAdvanced(),
+      env: Object.keys(env).length > 0 ? env : undefined,
+      startupScript: formData.startupScript?.trim() ? formData.startupScript : undefined,
+      defaultDirectory: formData.defaultDirectory?.trim() || undefined,
+      proxy: formData.proxy && formData.proxy.type !== 'none'
+        ? { ...formData.proxy, host: formData.proxy.host.trim(), username: formData.proxy.username?.trim() || undefined }
+        : formData.proxy,
+      proxyPassword: proxyAuth ? formData.proxyPassword || undefined : undefined,
+      proxyPasswordSecretId: proxyAuth ? formData.proxyPasswordSecretId : undefined,
+    };
+    if (!isTelnet) return built;
+    // Only the address, login, grouping and route apply to telnet
+    return {
+      ...built,
+      authMethod: undefined,
+      authMethods: undefined,
+      privateKey: undefined,
+      certificate: undefined,
+      agentPath: undefined,
+      agentForward: undefined,
+      totpSecret: undefined,
+      totpSecretId: undefined,
+      advanced: undefined,
+      env: undefined,
+      startupScript: undefined,
+      defaultDirectory: undefined,
+      persistentSession: undefined,
+    };
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (validate()) {
-      const savedData = {
-        ...formData,
-        password: authMethod === 'password' ? formData.password : undefined,
-        privateKey: authMethod === 'key' ? formData.privateKey : undefined,
-      };
-      onSave(savedData);
+      onSave(buildConnection());
     }
   };
 
+  // Run the staged connection test against the unsaved form; stages stream in as they finish
+  const handleTest = async () => {
+    if (!validate()) return;
+    const testId = uuidv4();
+    testIdRef.current = testId;
+    setIsTesting(true);
+    setTestStages([]);
+    try {
+      const stages = await window.electronAPI.testConnection(testId, buildConnection());
+      if (testIdRef.current === testId) setTestStages(stages);
+    } catch (err: any) {
+      if (testIdRef.current === testId) {
+        setTestStages([{ id: 'auth', label: 'Connection test', status: 'fail', detail: err.message || 'Test failed' }]);
+      }
+    } finally {
+      if (testIdRef.current === testId) setIsTesting(false);
+    }
+  };
+
+  useEffect(() => {
+    return window.electronAPI.onTestProgress(({ testId, stages }) => {
+      if (testId === testIdRef.current) setTestStages(stages);
+    });
+  }, []);
+
   const handleOverlayClick = (e: React.MouseEvent) => {
     if (e.target === e.currentTarget) {
       onClose();
@@ -126,6 +476,29 @@ function ConnectionModal({ connection, onSave, onClose }: ConnectionModalProps)
             {errors.name && <span className="error-text">{errors.name}</span>}
           </div>
 
+          <div className="form-group">
+            <label>Protocol</label>
+            <div className="auth-toggle">
+              <button
+                type="button"
+                className={`auth-btn ${!isTelnet ? 'active' : ''}`}
+                onClick={() => handleProtocolChange('ssh')}
+              >
+                SSH
+              </button>
+              <button
+                type="button"
+                className={`auth-btn ${isTelnet ? 'active' : ''}`}
+                onClick={() => handleProtocolChange('telnet')}
+              >
+                Telnet
+              </button>
+            </div>
+            {isTelnet && (
+              <span className="field-hint">Unencrypted - only for devices without SSH. Jump hosts and proxies still apply.</span>
+            )}
+          </div>
+
           <div className="form-row">
             <div className="form-group flex-1">
               <label htmlFor="host">Host</label>
@@ -155,7 +528,7 @@ function ConnectionModal({ connection, onSave, onClose }: ConnectionModalProps)
           </div>
 
           <div className="form-group">
-            <label htmlFor="username">Username</label>
+            <label htmlFor="username">{isTelnet ? 'Username (optional)' : 'Username'}</label>
             <input
               type="text"
               id="username"
@@ -168,70 +541,714 @@ function ConnectionModal({ connection, onSave, onClose }: ConnectionModalProps)
             {errors.username && <span className="error-text">{errors.username}</span>}
           </div>
 
-          <div className="form-group">
-            <label>Authentication Method</label>
-            <div className="auth-toggle">
-              <button
-                type="button"
-                className={`auth-btn ${authMethod === 'password' ? 'active' : ''}`}
-                onClick={() => setAuthMethod('password')}
-              >
-                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                  <rect x="3" y="11" width="18" height="11" rx="2" ry="2"></rect>
-                  <path d="M7 11V7a5 5 0 0 1 10 0v4"></path>
-                </svg>
-                Password
-              </button>
-              <button
-                type="button"
-                className={`auth-btn ${authMethod === 'key' ? 'active' : ''}`}
-                onClick={() => setAuthMethod('key')}
-              >
-                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                  <path d="M21 2l-2 2m-7.61 7.61a5.5 5.5 0 1 1-7.778 7.778 5.5 5.5 0 0 1 7.777-7.777zm0 0L15.5 7.5m0 0l3 3L22 7l-3-3m-3.5 3.5L19 4"></path>
-                </svg>
-                Private Key
-              </button>
+          <div className="form-row">
+            <div className="form-group flex-1">
+              <label htmlFor="folder">Folder</label>
+              <input
+                type="text"
+                id="folder"
+                name="folder"
+                value={formData.folder || ''}
+                onChange={handleChange}
+                placeholder="e.g. Prod/EU"
+                list="connection-folder-paths"
+              />
+              <datalist id="connection-folder-paths">
+                {getFolderPaths(connections).map((path) => (
+                  <option key={path} value={path} />
+                ))}
+              </datalist>
+            </div>
+            <div className="form-group flex-1">
+              <label htmlFor="tags">Tags</label>
+              <input
+                type="text"
+                id="tags"
+                value={tagsInput}
+                onChange={(e) => setTagsInput(e.target.value)}
+                placeholder="env:prod, role:db"
+              />
             </div>
           </div>
 
-          {authMethod === 'password' ? (
+          {!isTelnet && (
+            <>
+              <div className="form-group">
+                <label>Authentication Method</label>
+                <div className="auth-toggle">
+                  <button
+                    type="button"
+                    className={`auth-btn ${authMethod === 'password' ? 'active' : ''}`}
+                    onClick={() => setAuthMethod('password')}
+                  >
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <rect x="3" y="11" width="18" height="11" rx="2" ry="2"></rect>
+                      <path d="M7 11V7a5 5 0 0 1 10 0v4"></path>
+                    </svg>
+                    Password
+                  </button>
+                  <button
+                    type="button"
+                    className={`auth-btn ${authMethod === 'key' ? 'active' : ''}`}
+                    onClick={() => setAuthMethod('key')}
+                  >
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <path d="M21 2l-2 2m-7.61 7.61a5.5 5.5 0 1 1-7.778 7.778 5.5 5.5 0 0 1 7.777-7.777zm0 0L15.5 7.5m0 0l3 3L22 7l-3-3m-3.5 3.5L19 4"></path>
+                    </svg>
+                    Private Key
+                  </button>
+                  <button
+                    type="button"
+                    className={`auth-btn ${authMethod === 'agent' ? 'active' : ''}`}
+                    onClick={() => setAuthMethod('agent')}
+                  >
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z"></path>
+                    </svg>
+                    Agent
+                  </button>
+                  <button
+                    type="button"
+                    className={`auth-btn ${authMethod === 'multiple' ? 'active' : ''}`}
+                    onClick={() => setAuthMethod('multiple')}
+                  >
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <line x1="8" y1="6" x2="21" y2="6"></line>
+                      <line x1="8" y1="12" x2="21" y2="12"></line>
+                      <line x1="8" y1="18" x2="21" y2="18"></line>
+                      <line x1="3" y1="6" x2="3.01" y2="6"></line>
+                      <line x1="3" y1="12" x2="3.01" y2="12"></line>
+                      <line x1="3" y1="18" x2="3.01" y2="18"></line>
+                    </svg>
+                    Multiple
+                  </button>
+                </div>
+              </div>
+
+              {authMethod === 'multiple' && (
+                <div className="form-group">
+                  <label>Try In Order</label>
+                  {authMethods.length > 0 && (
+                    <div className="jump-host-list">
+                      {authMethods.map((entry, index) => (
+                        <div key={index} className="jump-host-item">
+                          <span className="jump-host-index">{index + 1}</span>
+                          <span className="jump-host-name" title={entry.type === 'key' ? [entry.privateKey, entry.certificate].filter(Boolean).join('\n') : undefined}>
+                            {AUTH_METHOD_LABELS[entry.type]}
+                            {entry.type === 'key' && ` ${getFileName(entry.privateKey)}${entry.certificate ? ' + certificate' : ''}`}
+                          </span>
+                          {entry.type === 'key' && (
+                            <button
+                              type="button"
+                              onClick={() => handleToggleAuthCertificate(index)}
+                              title={entry.certificate ? 'Remove certificate' : 'Add certificate'}
+                            >
+                              <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                <circle cx="12" cy="8" r="6"></circle>
+                                <polyline points="8.21 13.89 7 23 12 20 17 23 15.79 13.88"></polyline>
+                              </svg>
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            onClick={() => handleMoveAuthMethod(index, -1)}
+                            disabled={index === 0}
+                            title="Move up"
+                          >
+                            <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                              <polyline points="18 15 12 9 6 15"></polyline>
+                            </svg>
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleMoveAuthMethod(index, 1)}
+                            disabled={index === authMethods.length - 1}
+                            title="Move down"
+                          >
+                            <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                              <polyline points="6 9 12 15 18 9"></polyline>
+                            </svg>
+                          </button>
+                          <button type="button" onClick={() => handleRemoveAuthMethod(index)} title="Remove">
+                            <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                              <line x1="18" y1="6" x2="6" y2="18"></line>
+                              <line x1="6" y1="6" x2="18" y2="18"></line>
+                            </svg>
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <select value="" onChange={handleAddAuthMethod} className={errors.authMethods ? 'error' : ''}>
+                    <option value="">Add method...</option>
+                    <option value="key">Private key file...</option>
+                    {(['agent', 'password', 'keyboard-interactive'] as const)
+                      .filter((type) => !authMethods.some((m) => m.type === type))
+                      .map((type) => (
+                        <option key={type} value={type}>{AUTH_METHOD_LABELS[type]}</option>
+                      ))}
+                  </select>
+                  {errors.authMethods && <span className="error-text">{errors.authMethods}</span>}
+                  <span className="field-hint">Methods the server doesn't accept are skipped. The connection status shows which one got in.</span>
+                </div>
+              )}
+            </>
+          )}
+          {usesPassword && (
             <div className="form-group">
-              <label htmlFor="password">Password</label>
+              <label htmlFor="password">{isTelnet ? 'Password (optional)' : 'Password'}</label>
               <input
                 type="password"
                 id="password"
                 name="password"
                 value={formData.password || ''}
                 onChange={handleChange}
-                placeholder="Enter password"
+                placeholder={formData.passwordSecretId ? 'Saved in vault - leave empty to keep' : 'Enter password'}
                 className={errors.password ? 'error' : ''}
               />
               {errors.password && <span className="error-text">{errors.password}</span>}
+              {isTelnet && <span className="field-hint">Username and password answer the device's login prompts. Leave empty to log in by hand.</span>}
             </div>
-          ) : (
-            <div className="form-group">
-              <label htmlFor="privateKey">Private Key</label>
-              <div className="file-input">
+          )}
+          {!isTelnet && (
+            <>
+              {authMethod === 'key' && (
+                <div className="form-group">
+                  <label htmlFor="privateKey">Private Key</label>
+                  <div className="file-input">
+                    <input
+                      type="text"
+                      id="privateKey"
+                      name="privateKey"
+                      value={formData.privateKey || ''}
+                      onChange={handleChange}
+                      placeholder="Select private key file..."
+                      readOnly
+                      className={errors.privateKey ? 'error' : ''}
+                    />
+                    <button type="button" onClick={handleSelectPrivateKey}>
+                      Browse
+                    </button>
+                  </div>
+                  {errors.privateKey && <span className="error-text">{errors.privateKey}</span>}
+                </div>
+              )}
+              {authMethod === 'key' && (
+                <div className="form-group">
+                  <label htmlFor="certificate">Certificate (optional)</label>
+                  <div className="file-input">
+                    <input
+                      type="text"
+                      id="certificate"
+                      name="certificate"
+                      value={formData.certificate || ''}
+                      onChange={handleChange}
+                      placeholder="OpenSSH certificate, e.g. id_ed25519-cert.pub"
+                      readOnly
+                      className={certInspection?.error ? 'error' : ''}
+                    />
+                    <button type="button" onClick={handleSelectCertificate}>
+                      Browse
+                    </button>
+                  </div>
+                  {formData.certificate && (
+                    <button type="button" className="link-btn" onClick={() => setFormData((prev) => ({ ...prev, certificate: undefined }))}>
+                      Remove certificate
+                    </button>
+                  )}
+                  {certInspection?.error && <span className="error-text">{certInspection.error}</span>}
+                  {certInspection?.info && (
+                    <div className={`cert-summary${certInspection.problem ? ' invalid' : ''}`}>
+                      <div>
+                        <span>Principals</span>
+                        {certInspection.info.principals.length > 0 ? certInspection.info.principals.join(', ') : 'any'}
+                      </div>
+                      <div>
+                        <span>Valid</span>
+                        {formatValidity(certInspection.info)}
+                      </div>
+                      <div>
+                        <span>Key ID</span>
+                        {certInspection.info.keyId || '(none)'} (serial {certInspection.info.serial})
+                      </div>
+                      <div>
+                        <span>CA</span>
+                        {certInspection.info.caFingerprint}
+                      </div>
+                      {certInspection.problem && <div className="cert-problem">{certInspection.problem}</div>}
+                    </div>
+                  )}
+                </div>
+              )}
+              {(usesAgent || formData.agentForward) && (
+                <div className="form-group">
+                  <label htmlFor="agentPath">Agent Socket (optional)</label>
+                  <input
+                    type="text"
+                    id="agentPath"
+                    name="agentPath"
+                    value={formData.agentPath || ''}
+                    onChange={handleChange}
+                    placeholder="Defaults to $SSH_AUTH_SOCK"
+                  />
+                  <span className="field-hint">On Windows use "pageant" or leave empty for the OpenSSH agent.</span>
+                </div>
+              )}
+
+              <div className="form-group">
+                <label htmlFor="totpSecret">TOTP Secret (optional)</label>
                 <input
-                  type="text"
-                  id="privateKey"
-                  name="privateKey"
-                  value={formData.privateKey || ''}
+                  type="password"
+                  id="totpSecret"
+                  name="totpSecret"
+                  value={formData.totpSecret || ''}
                   onChange={handleChange}
-                  placeholder="Select private key file..."
-                  readOnly
-                  className={errors.privateKey ? 'error' : ''}
+                  placeholder={formData.totpSecretId ? 'Saved in vault - leave empty to keep' : 'Base32 secret from your authenticator setup'}
+                  autoComplete="off"
+                  className={errors.totpSecret ? 'error' : ''}
                 />
-                <button type="button" onClick={handleSelectPrivateKey}>
-                  Browse
+                {errors.totpSecret && <span className="error-text">{errors.totpSecret}</span>}
+                {formData.totpSecretId && (
+                  <button
+                    type="button"
+                    className="link-btn"
+                    onClick={() => setFormData((prev) => ({ ...prev, totpSecretId: undefined }))}
+                  >
+                    Remove saved TOTP secret
+                  </button>
+                )}
+                <span className="field-hint">Answers "Verification code" prompts automatically. Other prompts are asked when connecting.</span>
+              </div>
+
+              <div className="form-group">
+                <label className="checkbox-label">
+                  <input
+                    type="checkbox"
+                    name="agentForward"
+                    checked={!!formData.agentForward}
+                    onChange={handleChange}
+                  />
+                  Forward local SSH agent
+                </label>
+                <span className="field-hint">Lets git and ssh on the server use your local keys. Only enable for trusted hosts.</span>
+              </div>
+            </>
+          )}
+
+          <div className="form-group">
+            <label>Jump Hosts (ProxyJump)</label>
+            {jumpHosts.length > 0 && (
+              <div className="jump-host-list">
+                {jumpHosts.map((id, index) => {
+                  const hop = connections.find((c) => c.id === id);
+                  return (
+                    <div key={id} className={`jump-host-item ${hop ? '' : 'missing'}`}>
+                      <span className="jump-host-index">{index + 1}</span>
+                      <span className="jump-host-name">
+                        {hop ? `${hop.name} (${hop.username}@${hop.host})` : 'Deleted connection'}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => handleMoveJumpHost(index, -1)}
+                        disabled={index === 0}
+                        title="Move up"
+                      >
+                        <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                          <polyline points="18 15 12 9 6 15"></polyline>
+                        </svg>
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleMoveJumpHost(index, 1)}
+                        disabled={index === jumpHosts.length - 1}
+                        title="Move down"
+                      >
+                        <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                          <polyline points="6 9 12 15 18 9"></polyline>
+                        </svg>
+                      </button>
+                      <button type="button" onClick={() => handleRemoveJumpHost(id)} title="Remove">
+                        <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                          <line x1="18" y1="6" x2="6" y2="18"></line>
+                          <line x1="6" y1="6" x2="18" y2="18"></line>
+                        </svg>
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            <select value="" onChange={handleAddJumpHost} disabled={availableJumpHosts.length === 0}>
+              <option value="">
+                {availableJumpHosts.length === 0 ? 'No other saved connections' : 'Add jump host...'}
+              </option>
+              {availableJumpHosts.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name} ({c.username}@{c.host})
+                </option>
+              ))}
+            </select>
+            <span className="field-hint">Hops are dialed in order; the last one connects to this host.</span>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="proxyType">Proxy</label>
+            <select id="proxyType" value={proxyChoice} onChange={handleProxyTypeChange}>
+              <option value="default">Default (from Preferences)</option>
+              <option value="none">Direct connection</option>
+              <option value="socks5">SOCKS5</option>
+              <option value="http">HTTP CONNECT</option>
+            </select>
+            {formData.proxy && formData.proxy.type !== 'none' && (
+              <div className="proxy-fields">
+                <div className="form-row">
+                  <div className="form-group flex-1">
+                    <input
+                      type="text"
+                      name="host"
+                      value={formData.proxy.host}
+                      onChange={handleProxyChange}
+                      placeholder="proxy.example.com"
+                      className={errors.proxyHost ? 'error' : ''}
+                    />
+                    {errors.proxyHost && <span className="error-text">{errors.proxyHost}</span>}
+                  </div>
+                  <div className="form-group port-group">
+                    <input
+                      type="number"
+                      name="port"
+                      value={formData.proxy.port || ''}
+                      onChange={handleProxyChange}
+                      min="1"
+                      max="65535"
+                      className={errors.proxyPort ? 'error' : ''}
+                    />
+                    {errors.proxyPort && <span className="error-text">{errors.proxyPort}</span>}
+                  </div>
+                </div>
+                <div className="form-row">
+                  <div className="form-group flex-1">
+                    <input
+                      type="text"
+                      name="username"
+                      value={formData.proxy.username || ''}
+                      onChange={handleProxyChange}
+                      placeholder="Username (optional)"
+                      autoComplete="off"
+                    />
+                  </div>
+                  <div className="form-group flex-1">
+                    <input
+                      type="password"
+                      name="proxyPassword"
+                      value={formData.proxyPassword || ''}
+                      onChange={handleChange}
+                      placeholder={formData.proxyPasswordSecretId ? 'Saved - leave empty to keep' : 'Password'}
+                      autoComplete="off"
+                      disabled={!formData.proxy.username}
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
+            <span className="field-hint">
+              {formData.jumpHosts && formData.jumpHosts.length > 0
+                ? 'With jump hosts, the first hop uses its own proxy setting.'
+                : 'SOCKS5 and HTTP CONNECT proxies can require a username and password.'}
+            </span>
+          </div>
+
+          <div className="advanced-section">
+            <button
+              type="button"
+              className={`advanced-toggle ${showLogging ? 'open' : ''}`}
+              onClick={() => setShowLogging(!showLogging)}
+            >
+              <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <polyline points="9 18 15 12 9 6"></polyline>
+              </svg>
+              Session Logging
+            </button>
+
+            {showLogging && (
+              <div className="advanced-body">
+                <div className="form-group">
+                  <label className="checkbox-label">
+                    <input
+                      type="checkbox"
+                      name="enabled"
+                      checked={!!formData.sessionLog}
+                      onChange={handleSessionLogChange}
+                    />
+                    Log terminal output to text files
+                  </label>
+                  <span className="field-hint">Escape codes are stripped. Each terminal writes its own file; open the folder from the terminal's context menu.</span>
+                </div>
+
+                {formData.sessionLog && (
+                  <>
+                    <div className="form-group">
+                      <label className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          name="timestamps"
+                          checked={!!formData.sessionLog.timestamps}
+                          onChange={handleSessionLogChange}
+                        />
+                        Timestamp each line
+                      </label>
+                    </div>
+                    <div className="form-row">
+                      <div className="form-group flex-1">
+                        <label htmlFor="maxSizeMB">New File After (MB)</label>
+                        <input
+                          type="number"
+                          id="maxSizeMB"
+                          name="maxSizeMB"
+                          value={formData.sessionLog.maxSizeMB ?? ''}
+                          onChange={handleSessionLogChange}
+                          placeholder="10"
+                          min="1"
+                          className={errors.maxSizeMB ? 'error' : ''}
+                        />
+                        {errors.maxSizeMB && <span className="error-text">{errors.maxSizeMB}</span>}
+                      </div>
+                      <div className="form-group flex-1">
+                        <label htmlFor="maxAgeHours">New File After (hours)</label>
+                        <input
+                          type="number"
+                          id="maxAgeHours"
+                          name="maxAgeHours"
+                          value={formData.sessionLog.maxAgeHours ?? ''}
+                          onChange={handleSessionLogChange}
+                          placeholder="No limit"
+                          min="1"
+                          className={errors.maxAgeHours ? 'error' : ''}
+                        />
+                        {errors.maxAgeHours && <span className="error-text">{errors.maxAgeHours}</span>}
+                      </div>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+
+          {!isTelnet && (
+            <>
+              <div className="advanced-section">
+                <button
+                  type="button"
+                  className={`advanced-toggle ${showStartup ? 'open' : ''}`}
+                  onClick={() => setShowStartup(!showStartup)}
+                >
+                  <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <polyline points="9 18 15 12 9 6"></polyline>
+                  </svg>
+                  Shell Startup
+                </button>
+
+                {showStartup && (
+                  <div className="advanced-body">
+                    <div className="form-group">
+                      <label htmlFor="defaultDirectory">Working Directory</label>
+                      <input
+                        type="text"
+                        id="defaultDirectory"
+                        name="defaultDirectory"
+                        value={formData.defaultDirectory || ''}
+                        onChange={handleChange}
+                        placeholder="~/projects/app"
+                        spellCheck={false}
+                        className="mono-input"
+                      />
+                      <span className="field-hint">New terminals start here unless opened from a specific folder.</span>
+                    </div>
+
+                    <div className="form-group">
+                      <label htmlFor="env">Environment Variables</label>
+                      <textarea
+                        id="env"
+                        value={envInput}
+                        onChange={(e) => {
+                          setEnvInput(e.target.value);
+                          if (errors.env) {
+                            setErrors((prev) => ({ ...prev, env: '' }));
+                          }
+                        }}
+                        placeholder={'KUBECONFIG=~/.kube/staging\nLANG=en_US.UTF-8'}
+                        rows={3}
+                        spellCheck={false}
+                        className={`mono-input ${errors.env ? 'error' : ''}`}
+                      />
+                      {errors.env && <span className="error-text">{errors.env}</span>}
+                      <span className="field-hint">
+                        One KEY=value per line. The server only accepts names allowed by AcceptEnv in its sshd_config (often just LANG and LC_*).
+                      </span>
+                    </div>
+
+                    <div className="form-group">
+                      <label htmlFor="startupScript">Startup Script</label>
+                      <textarea
+                        id="startupScript"
+                        value={formData.startupScript || ''}
+                        onChange={(e) => setFormData((prev) => ({ ...prev, startupScript: e.target.value }))}
+                        placeholder={'source ~/venvs/app/bin/activate\nexport KUBECONFIG=~/.kube/staging'}
+                        rows={4}
+                        spellCheck={false}
+                        className="mono-input"
+                      />
+                      <span className="field-hint">Typed into each new terminal once the prompt appears.</span>
+                    </div>
+
+                    <div className="form-group">
+                      <label htmlFor="persistentSession">Persistent Session</label>
+                      <select
+                        id="persistentSession"
+                        value={formData.persistentSession || ''}
+                        onChange={(e) => setFormData((prev) => ({
+                          ...prev,
+                          persistentSession: (e.target.value || undefined) as Connection['persistentSession'],
+                        }))}
+                      >
+                        <option value="">None</option>
+                        <option value="tmux">tmux</option>
+                        <option value="screen">GNU screen</option>
+                      </select>
+                      <span className="field-hint">
+                        Runs each terminal inside its own session, so running programs survive a dropped connection and are reattached on resume. Must be installed on the server.
+                      </span>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="advanced-section">
+                <button
+                  type="button"
+                  className={`advanced-toggle ${showAdvanced ? 'open' : ''}`}
+                  onClick={() => setShowAdvanced(!showAdvanced)}
+                >
+                  <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <polyline points="9 18 15 12 9 6"></polyline>
+                  </svg>
+                  Advanced
                 </button>
+
+                {showAdvanced && (
+                  <div className="advanced-body">
+                    <span className="field-hint advanced-intro">
+                      Leave empty to use the defaults. Lists replace the defaults, or start with + to add, - to remove and ^ to prefer algorithms (e.g. +diffie-hellman-group1-sha1).
+                    </span>
+                    {([
+                      ['kexAlgorithms', 'Key Exchange (KexAlgorithms)', 'curve25519-sha256,ecdh-sha2-nistp256'],
+                      ['hostKeyAlgorithms', 'Host Key Algorithms', 'ssh-ed25519,rsa-sha2-512'],
+                      ['ciphers', 'Ciphers', 'aes128-gcm@openssh.com,aes256-ctr'],
+                      ['macs', 'MACs', 'hmac-sha2-256-etm@openssh.com,hmac-sha1'],
+                    ] as const).map(([key, label, placeholder]) => (
+                      <div className="form-group" key={key}>
+                        <label htmlFor={key}>{label}</label>
+                        <input
+                          type="text"
+                          id={key}
+                          name={key}
+                          value={advanced[key] || ''}
+                          onChange={handleAdvancedChange}
+                          placeholder={placeholder}
+                          spellCheck={false}
+                          className={`mono-input ${errors[key] ? 'error' : ''}`}
+                        />
+                        {errors[key] && <span className="error-text">{errors[key]}</span>}
+                      </div>
+                    ))}
+
+                    <div className="form-row">
+                      <div className="form-group flex-1">
+                        <label htmlFor="keepaliveInterval">Keepalive (s)</label>
+                        <input
+                          type="number"
+                          id="keepaliveInterval"
+                          name="keepaliveInterval"
+                          value={advanced.keepaliveInterval ?? ''}
+                          onChange={handleAdvancedChange}
+                          placeholder="10"
+                          min="0"
+                          className={errors.keepaliveInterval ? 'error' : ''}
+                        />
+                        {errors.keepaliveInterval && <span className="error-text">{errors.keepaliveInterval}</span>}
+                      </div>
+                      <div className="form-group flex-1">
+                        <label htmlFor="keepaliveCountMax">Max Missed</label>
+                        <input
+                          type="number"
+                          id="keepaliveCountMax"
+                          name="keepaliveCountMax"
+                          value={advanced.keepaliveCountMax ?? ''}
+                          onChange={handleAdvancedChange}
+                          placeholder="3"
+                          min="1"
+                          className={errors.keepaliveCountMax ? 'error' : ''}
+                        />
+                        {errors.keepaliveCountMax && <span className="error-text">{errors.keepaliveCountMax}</span>}
+                      </div>
+                      <div className="form-group flex-1">
+                        <label htmlFor="readyTimeout">Timeout (s)</label>
+                        <input
+                          type="number"
+                          id="readyTimeout"
+                          name="readyTimeout"
+                          value={advanced.readyTimeout ?? ''}
+                          onChange={handleAdvancedChange}
+                          placeholder="15"
+                          min="1"
+                          className={errors.readyTimeout ? 'error' : ''}
+                        />
+                        {errors.readyTimeout && <span className="error-text">{errors.readyTimeout}</span>}
+                      </div>
+                    </div>
+
+                    <div className="form-group">
+                      <label className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          name="compression"
+                          checked={!!advanced.compression}
+                          onChange={handleAdvancedChange}
+                        />
+                        Enable compression
+                      </label>
+                      <span className="field-hint">Helps on slow links; costs CPU on fast ones.</span>
+                    </div>
+                  </div>
+                )}
               </div>
-              {errors.privateKey && <span className="error-text">{errors.privateKey}</span>}
+            </>
+          )}
+
+          {testStages && (
+            <div className="test-results">
+              {testStages.length === 0 && <div className="test-stage running">Starting test...</div>}
+              {testStages.map((stage) => (
+                <div key={stage.id} className={`test-stage ${stage.status}`}>
+                  <span className="test-stage-icon">{STAGE_ICONS[stage.status]}</span>
+                  <div className="test-stage-body">
+                    <div className="test-stage-title">
+                      {stage.label}
+                      {stage.detail && <span className="test-stage-detail">{stage.detail}</span>}
+                    </div>
+                    {stage.hint && <div className="test-stage-hint">{stage.hint}</div>}
+                  </div>
+                </div>
+              ))}
             </div>
           )}
 
           <div className="modal-actions">
+            {!isTelnet && (
+              <button type="button" className="test-btn" onClick={handleTest} disabled={isTesting}>
+                {isTesting ? 'Testing...' : 'Test'}
+              </button>
+            )}
             <button type="button" className="cancel-btn" onClick={onClose}>
               Cancel
             </button>
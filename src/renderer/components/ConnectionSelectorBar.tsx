@@ -0,0 +1,46 @@
+import { ConnectionSelector, GroupableConnection, getFolderPaths, getTags } from '../utils/connectionGroups';
+import './ConnectionSelectorBar.css';
+
+interface ConnectionSelectorBarProps {
+  connections: GroupableConnection[];
+  isActive?: (selector: ConnectionSelector) => boolean;
+  onSelect: (selector: ConnectionSelector) => void;
+}
+
+// Folder and tag chips for picking groups of servers at once
+function ConnectionSelectorBar({ connections, isActive, onSelect }: ConnectionSelectorBarProps) {
+  const folders = getFolderPaths(connections);
+  const tags = getTags(connections);
+
+  if (folders.length === 0 && tags.length === 0) return null;
+
+  const renderChip = (selector: ConnectionSelector) => (
+    <button
+      key={`${selector.type}:${selector.value}`}
+      className={`selector-chip ${selector.type} ${isActive?.(selector) ? 'active' : ''}`}
+      onClick={() => onSelect(selector)}
+      title={selector.type === 'folder' ? `Folder ${selector.value} (with subfolders)` : `Tag ${selector.value}`}
+    >
+      {selector.type === 'folder' ? (
+        <svg width="11" height="11" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M22 19a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h5l2 3h9a2 2 0 0 1 2 2z"></path>
+        </svg>
+      ) : (
+        <svg width="11" height="11" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M20.59 13.41l-7.17 7.17a2 2 0 0 1-2.83 0L2 12V2h10l8.59 8.59a2 2 0 0 1 0 2.82z"></path>
+          <line x1="7" y1="7" x2="7.01" y2="7"></line>
+        </svg>
+      )}
+      {selector.value}
+    </button>
+  );
+
+  return (
+    <div className="selector-bar">
+      {folders.map(value => renderChip({ type: 'folder', value }))}
+      {tags.map(value => renderChip({ type: 'tag', value }))}
+    </div>
+  );
+}
+
+export default ConnectionSelectorBar;
@@ -1,11 +1,13 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { PackageShortcut } from '../types/electron';
+import { ConnectionStatus, PackageShortcut } from '../types/electron';
 import { v4 as uuidv4 } from 'uuid';
+import { getConnectionStateLabel } from '../utils/connectionState';
 import './Dashboard.css';
 
 interface DashboardProps {
   connectionId: string;
   currentPath?: string;
+  connectionStatus?: ConnectionStatus;
 }
 
 interface GitAccount {
@@ -48,11 +50,14 @@ interface GitRepo {
   hasChanges: boolean;
 }
 
-function Dashboard({ connectionId, currentPath = '/' }: DashboardProps) {
+function Dashboard({ connectionId, currentPath = '/', connectionStatus }: DashboardProps) {
   // System Stats
   const [stats, setStats] = useState<SystemStats | null>(null);
   const [statsLoading, setStatsLoading] = useState(true);
   const statsIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Skip stats polls while the connection is down (read by the interval without restarting it)
+  const isConnectionUpRef = useRef(true);
+  isConnectionUpRef.current = !connectionStatus || connectionStatus.state === 'ready' || connectionStatus.state === 'degraded';
 
   // Package Installer
   const [packages, setPackages] = useState<PackageShortcut[]>([]);
@@ -118,6 +123,7 @@ function Dashboard({ connectionId, currentPath = '/' }: DashboardProps) {
 
   // ========== SYSTEM STATS ==========
   const fetchStats = useCallback(async () => {
+    if (!isConnectionUpRef.current) return;
     try {
       const cmd = `
         echo "CPU:$(top -bn1 | grep "Cpu(s)" | awk '{print $2}' | cut -d'%' -f1 2>/dev/null || echo "0")"
@@ -1292,6 +1298,12 @@ function Dashboard({ connectionId, currentPath = '/' }: DashboardProps) {
           </svg>
           Firewall
         </button>
+        {connectionStatus && (
+          <div className="widget-nav-status" title={connectionStatus.error}>
+            <span className={`state-dot ${connectionStatus.state}`}></span>
+            {getConnectionStateLabel({ ...connectionStatus, error: undefined })}
+          </div>
+        )}
       </div>
 
       {/* Widget Content */}
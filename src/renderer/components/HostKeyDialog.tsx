@@ -0,0 +1,81 @@
+import { HostKeyPromptRequest } from '../types/electron';
+import './HostKeyDialog.css';
+
+interface HostKeyDialogProps {
+  request: HostKeyPromptRequest;
+  onRespond: (trust: boolean) => void;
+}
+
+function HostKeyDialog({ request, onRespond }: HostKeyDialogProps) {
+  const isChanged = request.status === 'changed';
+  const target = request.port === 22 ? request.host : `${request.host}:${request.port}`;
+
+  return (
+    <div className="modal-overlay">
+      <div className={`modal-content host-key-modal ${isChanged ? 'changed' : ''}`} onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>
+            {isChanged ? (
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M10.29 3.86L1.82 18a2 2 0 0 0 1.71 3h16.94a2 2 0 0 0 1.71-3L13.71 3.86a2 2 0 0 0-3.42 0z"></path>
+                <line x1="12" y1="9" x2="12" y2="13"></line>
+                <line x1="12" y1="17" x2="12.01" y2="17"></line>
+              </svg>
+            ) : (
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z"></path>
+              </svg>
+            )}
+            {isChanged ? 'Host Key Has Changed!' : 'Unknown Host'}
+          </h3>
+        </div>
+        <div className="modal-body">
+          {isChanged ? (
+            <>
+              <p className="host-key-warning">
+                The host key for <strong>{target}</strong> ({request.connectionName}) does not match the one
+                you trusted before. Someone could be intercepting this connection (man-in-the-middle attack),
+                or the server was reinstalled.
+              </p>
+              <p className="host-key-text">The connection has been blocked.</p>
+              <div className="host-key-fingerprint">
+                <span className="host-key-label">Trusted {request.keyType}</span>
+                <code>{request.knownFingerprint}</code>
+              </div>
+              <div className="host-key-fingerprint mismatch">
+                <span className="host-key-label">Presented by server</span>
+                <code>{request.fingerprint}</code>
+              </div>
+              <p className="host-key-hint">
+                If you know the key was changed on purpose, remove the old entry in Preferences → Known Hosts and connect again.
+              </p>
+            </>
+          ) : (
+            <>
+              <p className="host-key-text">
+                The authenticity of <strong>{target}</strong> ({request.connectionName}) can't be established.
+                Check that the fingerprint matches the server before trusting it.
+              </p>
+              <div className="host-key-fingerprint">
+                <span className="host-key-label">{request.keyType}</span>
+                <code>{request.fingerprint}</code>
+              </div>
+            </>
+          )}
+        </div>
+        <div className="modal-footer">
+          {isChanged ? (
+            <button className="btn-primary" onClick={() => onRespond(false)} autoFocus>Close</button>
+          ) : (
+            <>
+              <button className="btn-secondary" onClick={() => onRespond(false)}>Cancel</button>
+              <button className="btn-primary" onClick={() => onRespond(true)}>Trust and Connect</button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default HostKeyDialog;
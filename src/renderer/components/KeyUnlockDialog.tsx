@@ -0,0 +1,96 @@
+import { useState, useEffect } from 'react';
+import { PassphrasePromptRequest, PassphrasePromptResponse } from '../types/electron';
+import './KeyUnlockDialog.css';
+
+interface KeyUnlockDialogProps {
+  request: PassphrasePromptRequest;
+  onSubmit: (response: PassphrasePromptResponse) => void;
+  onCancel: () => void;
+}
+
+function KeyUnlockDialog({ request, onSubmit, onCancel }: KeyUnlockDialogProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [remember, setRemember] = useState<PassphrasePromptResponse['remember']>('session');
+
+  // Each new request (e.g. after a wrong passphrase) starts with an empty field
+  useEffect(() => {
+    setPassphrase('');
+  }, [request.requestId]);
+
+  const handleSubmit = () => {
+    if (!passphrase) return;
+    onSubmit({ passphrase, remember });
+  };
+
+  const keyName = request.keyPath.split(/[\\/]/).pop() || request.keyPath;
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content key-unlock-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>Unlock Private Key</h3>
+          <button className="modal-close" onClick={onCancel}>
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"></line>
+              <line x1="6" y1="6" x2="18" y2="18"></line>
+            </svg>
+          </button>
+        </div>
+        <div className="modal-body">
+          <p className="key-unlock-info">
+            <strong>{keyName}</strong> is protected by a passphrase. Enter it to connect to{' '}
+            <strong>{request.connectionName}</strong>.
+          </p>
+          <p className="key-unlock-path" title={request.keyPath}>{request.keyPath}</p>
+          <div className="form-group">
+            <label>Passphrase</label>
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Enter passphrase"
+              autoFocus
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSubmit();
+                if (e.key === 'Escape') onCancel();
+              }}
+            />
+            {request.error && <span className="key-unlock-error">{request.error}</span>}
+          </div>
+          {request.canRemember !== false && (
+            <div className="form-group">
+              <label>Remember</label>
+              <div className="key-unlock-remember">
+                <label>
+                  <input type="radio" checked={remember === 'none'} onChange={() => setRemember('none')} />
+                  Don't remember
+                </label>
+                <label>
+                  <input type="radio" checked={remember === 'session'} onChange={() => setRemember('session')} />
+                  Until the app is closed
+                </label>
+                <label className={request.canStore ? '' : 'disabled'} title={request.canStore ? '' : 'OS encryption is not available'}>
+                  <input
+                    type="radio"
+                    checked={remember === 'store'}
+                    onChange={() => setRemember('store')}
+                    disabled={!request.canStore}
+                  />
+                  Save encrypted on this computer
+                </label>
+              </div>
+            </div>
+          )}
+        </div>
+        <div className="modal-footer">
+          <button className="btn-secondary" onClick={onCancel}>Cancel</button>
+          <button className="btn-primary" onClick={handleSubmit} disabled={!passphrase}>
+            Unlock
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default KeyUnlockDialog;
@@ -0,0 +1,73 @@
+import { useState, useEffect } from 'react';
+import { KeyboardInteractivePromptRequest } from '../types/electron';
+import './KeyboardInteractiveDialog.css';
+
+interface KeyboardInteractiveDialogProps {
+  request: KeyboardInteractivePromptRequest;
+  onSubmit: (answers: string[]) => void;
+  onCancel: () => void;
+}
+
+function KeyboardInteractiveDialog({ request, onSubmit, onCancel }: KeyboardInteractiveDialogProps) {
+  const [answers, setAnswers] = useState<string[]>([]);
+
+  useEffect(() => {
+    setAnswers(request.prompts.map(() => ''));
+  }, [request.requestId]);
+
+  const handleChange = (index: number, value: string) => {
+    setAnswers(prev => prev.map((a, i) => (i === index ? value : a)));
+  };
+
+  const handleSubmit = () => {
+    onSubmit(request.prompts.map((_, i) => answers[i] || ''));
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content keyboard-interactive-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>{request.name || 'Authentication Required'}</h3>
+          <button className="modal-close" onClick={onCancel}>
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"></line>
+              <line x1="6" y1="6" x2="18" y2="18"></line>
+            </svg>
+          </button>
+        </div>
+        <div className="modal-body">
+          <p className="keyboard-interactive-server">
+            <strong>{request.connectionName}</strong> is asking for more information to log in.
+          </p>
+          {request.instructions && (
+            <pre className="keyboard-interactive-instructions">{request.instructions}</pre>
+          )}
+          {request.prompts.map((p, index) => (
+            <div className="form-group" key={index}>
+              <label>{p.prompt.trim().replace(/:$/, '')}</label>
+              <input
+                type={p.echo ? 'text' : 'password'}
+                value={answers[index] || ''}
+                onChange={(e) => handleChange(index, e.target.value)}
+                autoFocus={index === 0}
+                autoComplete={/code|token|otp/i.test(p.prompt) ? 'one-time-code' : 'off'}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleSubmit();
+                  if (e.key === 'Escape') onCancel();
+                }}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="modal-footer">
+          <button className="btn-secondary" onClick={onCancel}>Cancel</button>
+          <button className="btn-primary" onClick={handleSubmit}>
+            Continue
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default KeyboardInteractiveDialog;
@@ -3,13 +3,16 @@ import { Terminal as XTerm } from '@xterm/xterm';
 import { FitAddon } from '@xterm/addon-fit';
 import { SearchAddon } from '@xterm/addon-search';
 import '@xterm/xterm/css/xterm.css';
+import { LocalProfile } from '../types/electron';
 import './Terminal.css';
 
 interface LocalConsoleProps {
   onClose?: () => void;
+  profileId?: string; // Start this profile without asking (e.g. for a duplicated tab)
+  onProfileSelect?: (profile: LocalProfile) => void;
 }
 
-function LocalConsole({ onClose }: LocalConsoleProps) {
+function LocalConsole({ onClose, profileId, onProfileSelect }: LocalConsoleProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const terminalRef = useRef<HTMLDivElement>(null);
   const xtermRef = useRef<XTerm | null>(null);
@@ -21,6 +24,12 @@ function LocalConsole({ onClose }: LocalConsoleProps) {
   const [error, setError] = useState<string | null>(null);
   const [shellClosed, setShellClosed] = useState(false);
   const [isReconnecting, setIsReconnecting] = useState(false);
+  const [terminalReady, setTerminalReady] = useState(false);
+
+  // Profile picker - profile stays undefined until one is chosen, null means no profiles exist
+  // and the default shell runs
+  const [profiles, setProfiles] = useState<LocalProfile[] | null>(null);
+  const [profile, setProfile] = useState<LocalProfile | null | undefined>(undefined);
 
   // Search state
   const [showSearch, setShowSearch] = useState(false);
@@ -152,7 +161,7 @@ function LocalConsole({ onClose }: LocalConsoleProps) {
 
     setTimeout(() => {
       handleResize();
-      initializeShell();
+      setTerminalReady(true);
     }, 150);
 
     window.addEventListener('resize', debouncedResize);
@@ -184,19 +193,45 @@ function LocalConsole({ onClose }: LocalConsoleProps) {
     };
   }, []);
 
+  useEffect(() => {
+    window.electronAPI.localProfilesGetAll().then(list => {
+      setProfiles(list);
+      // Only ask when there is a real choice
+      const initial = list.find(p => p.id === profileId) || (list.length <= 1 ? list[0] || null : undefined);
+      if (initial !== undefined) chooseProfile(initial);
+    });
+  }, []);
+
+  const chooseProfile = (chosen: LocalProfile | null) => {
+    setProfile(chosen);
+    if (chosen) onProfileSelect?.(chosen);
+  };
+
+  // Start once the terminal is sized and a profile is chosen
+  useEffect(() => {
+    if (terminalReady && profile !== undefined) {
+      initializeShell();
+      xtermRef.current?.focus();
+    }
+  }, [terminalReady, profile]);
+
   const initializeShell = async () => {
     try {
-      const result = await window.electronAPI.localShell();
-      shellIdRef.current = result.shellId;
+      const result = await window.electronAPI.localShell(profile?.id, xtermRef.current?.cols, xtermRef.current?.rows);
+      if (!result.success || !result.shellId) {
+        throw new Error(result.error || 'Failed to start local shell');
+      }
+      const shellId = result.shellId;
+      shellIdRef.current = shellId;
       setIsReady(true);
 
-      const removeDataListener = window.electronAPI.onLocalData(result.shellId, (data) => {
+      const removeDataListener = window.electronAPI.onLocalData(shellId, (data) => {
         if (xtermRef.current) {
           xtermRef.current.write(data);
         }
       });
 
-      const removeCloseListener = window.electronAPI.onLocalClose(result.shellId, (code) => {
+      const removeCloseListener = window.electronAPI.onLocalClose(shellId, (code) => {
         if (xtermRef.current) {
           xtermRef.current.write(`\r\n\x1b[31mShell closed with code ${code}.\x1b[0m\r\n`);
         }
@@ -207,7 +242,7 @@ function LocalConsole({ onClose }: LocalConsoleProps) {
       if (xtermRef.current && fitAddonRef.current) {
         fitAddonRef.current.fit();
         window.electronAPI.localResize(
-          result.shellId,
+          shellId,
           xtermRef.current.cols,
           xtermRef.current.rows
         );
@@ -286,10 +321,10 @@ function LocalConsole({ onClose }: LocalConsoleProps) {
   const handleSavePath = useCallback(async () => {
     if (!pathInput.trim()) return;
 
-    const result = await window.electronAPI.localSavePath(pathInput.trim());
+    const result = await window.electronAPI.localSavePath(pathInput.trim(), profile?.id);
     if (result.success) {
       setSavedPath(result.path || pathInput.trim());
-      setSaveMessage('Path saved! New consoles will start here.');
+      setSaveMessage(profile ? `Path saved! New ${profile.name} consoles will start here.` : 'Path saved! New consoles will start here.');
       setShowSavePath(false);
       xtermRef.current?.focus();
     } else {
@@ -297,7 +332,7 @@ function LocalConsole({ onClose }: LocalConsoleProps) {
     }
 
     setTimeout(() => setSaveMessage(null), 3000);
-  }, [pathInput]);
+  }, [pathInput, profile]);
 
   const handleContainerKeyDown = useCallback((e: React.KeyboardEvent) => {
     const isCtrlOrCmd = e.ctrlKey || e.metaKey;
@@ -330,13 +365,14 @@ function LocalConsole({ onClose }: LocalConsoleProps) {
     }
   }, [searchTerm]);
 
-  // Load saved path on mount
+  // Load the profile's saved path once it is chosen
   useEffect(() => {
-    window.electronAPI.localGetSavedPath().then(path => {
+    if (profile === undefined) return;
+    window.electronAPI.localGetSavedPath(profile?.id).then(path => {
       setSavedPath(path);
       setPathInput(path);
     });
-  }, []);
+  }, [profile]);
 
   return (
     <div
@@ -471,7 +507,30 @@ function LocalConsole({ onClose }: LocalConsoleProps) {
           <span>{error}</span>
         </div>
       )}
-      {!isReady && !error && !shellClosed && (
+      {profiles && profile === undefined && (
+        <div className="terminal-reconnect-overlay">
+          <div className="reconnect-content">
+            <span className="reconnect-title">Choose a Profile</span>
+            <span className="reconnect-subtitle">Profiles are managed in Preferences</span>
+            <div className="local-profile-options">
+              {profiles.map((option, index) => (
+                <button
+                  key={option.id}
+                  className="local-profile-option"
+                  onClick={() => chooseProfile(option)}
+                  autoFocus={index === 0}
+                >
+                  <span className="local-profile-option-name">{option.name}</span>
+                  <span className="local-profile-option-command">
+                    {[option.command || 'Default shell', ...(option.args || [])].join(' ')}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+      {!isReady && !error && !shellClosed && profile !== undefined && (
         <div className="terminal-loading">
           <div className="loading-spinner"></div>
           <span>Starting local shell...</span>
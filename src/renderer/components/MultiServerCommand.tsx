@@ -1,4 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
+import ConnectionSelectorBar from './ConnectionSelectorBar';
+import { ConnectionSelector, matchesSelector } from '../utils/connectionGroups';
 import './MultiServerCommand.css';
 
 interface Connection {
@@ -7,8 +9,11 @@ interface Connection {
   host: string;
   port: number;
   username: string;
+  protocol?: 'ssh' | 'telnet';
   avatarIcon?: string;
   avatarColor?: string;
+  folder?: string;
+  tags?: string[];
 }
 
 interface ServerOutput {
@@ -38,8 +43,8 @@ function MultiServerCommand({
   const [outputs, setOutputs] = useState<Map<string, ServerOutput>>(new Map());
   const inputRef = useRef<HTMLInputElement>(null);
 
-  // Get only connected servers
-  const connectedServers = connections.filter(c => activeConnectionIds.includes(c.id));
+  // Get only connected servers; telnet devices can't run exec commands
+  const connectedServers = connections.filter(c => activeConnectionIds.includes(c.id) && c.protocol !== 'telnet');
 
   // Reset state when opened
   useEffect(() => {
@@ -69,6 +74,21 @@ function MultiServerCommand({
     );
   };
 
+  // Select every connected server in a folder or with a tag; deselect them if all already are
+  const toggleSelector = (selector: ConnectionSelector) => {
+    const ids = connectedServers.filter(c => matchesSelector(c, selector)).map(c => c.id);
+    setSelectedServers(prev =>
+      ids.every(id => prev.includes(id))
+        ? prev.filter(id => !ids.includes(id))
+        : Array.from(new Set([...prev, ...ids]))
+    );
+  };
+
+  const isSelectorActive = (selector: ConnectionSelector) => {
+    const ids = connectedServers.filter(c => matchesSelector(c, selector)).map(c => c.id);
+    return ids.length > 0 && ids.every(id => selectedServers.includes(id));
+  };
+
   // Execute command on all selected servers
   const executeCommand = async () => {
     if (!command.trim() || selectedServers.length === 0) return;
@@ -181,6 +201,12 @@ function MultiServerCommand({
               </button>
             </div>
 
+            <ConnectionSelectorBar
+              connections={connectedServers}
+              isActive={isSelectorActive}
+              onSelect={toggleSelector}
+            />
+
             {connectedServers.length === 0 ? (
               <div className="no-servers">
                 <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -1,4 +1,6 @@
 import React, { useState, useEffect } from 'react';
+import { Connection, DefaultProxy, KnownHostEntry, LocalProfile, ManagedKey, VaultStatus } from '../types/electron';
+import { parseEnvInput, formatEnvInput, parseArgsInput, formatArgsInput } from '../utils/commandInput';
 import './Preferences.css';
 
 interface PreferencesConfig {
@@ -69,18 +71,61 @@ const FONT_FAMILIES = [
   'Menlo',
 ];
 
+// Starting points for new Local Console profiles
+const LOCAL_PROFILE_PRESETS: Omit<LocalProfile, 'id'>[] = [
+  { name: 'Bash (login shell)', command: 'bash', args: ['-l'] },
+  { name: 'Zsh', command: 'zsh', args: ['-l'] },
+  { name: 'Fish', command: 'fish' },
+  { name: 'PowerShell', command: 'pwsh', args: ['-NoLogo'] },
+  { name: 'Python REPL', command: 'python3' },
+];
+
+// Local profile being added or edited, with arguments and environment as typed
+interface LocalProfileForm {
+  id?: string; // Unset for a new profile
+  name: string;
+  command: string;
+  args: string;
+  cwd: string;
+  env: string;
+}
+
+const EMPTY_PROFILE_FORM: LocalProfileForm = { name: '', command: '', args: '', cwd: '', env: '' };
+
 interface PreferencesProps {
   isOpen: boolean;
   onClose: () => void;
   onPreferencesChange: (prefs: PreferencesConfig) => void;
+  connections: Connection[];
+  onConnectionsChange: (connections: Connection[]) => void; // After a key install switched a connection to key auth
 }
 
-function Preferences({ isOpen, onClose, onPreferencesChange }: PreferencesProps) {
+function Preferences({ isOpen, onClose, onPreferencesChange, connections, onConnectionsChange }: PreferencesProps) {
   const [preferences, setPreferences] = useState<PreferencesConfig>(DEFAULT_PREFERENCES);
   const [hasChanges, setHasChanges] = useState(false);
   const [syncStatus, setSyncStatus] = useState<'idle' | 'pushing' | 'pulling' | 'success' | 'error'>('idle');
   const [syncMessage, setSyncMessage] = useState('');
   const [showToken, setShowToken] = useState(false);
+  const [knownHosts, setKnownHosts] = useState<KnownHostEntry[]>([]);
+  const [knownHostsMessage, setKnownHostsMessage] = useState('');
+  const [exportMessage, setExportMessage] = useState('');
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus | null>(null);
+  const [vaultMode, setVaultMode] = useState<'safeStorage' | 'master'>('safeStorage');
+  const [masterPassword, setMasterPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [vaultMessage, setVaultMessage] = useState('');
+  const [proxy, setProxy] = useState<DefaultProxy>({ type: 'none', host: '', port: 1080 });
+  const [proxyMessage, setProxyMessage] = useState('');
+  const [keys, setKeys] = useState<ManagedKey[]>([]);
+  const [newKey, setNewKey] = useState<{ name: string; type: 'ed25519' | 'rsa'; passphrase: string; confirm: string }>({ name: '', type: 'ed25519', passphrase: '', confirm: '' });
+  const [isGeneratingKey, setIsGeneratingKey] = useState(false);
+  const [installingKey, setInstallingKey] = useState<string | null>(null); // Key whose install picker is open
+  const [installConnectionId, setInstallConnectionId] = useState('');
+  const [isInstallingKey, setIsInstallingKey] = useState(false);
+  const [keysMessage, setKeysMessage] = useState('');
+  const [localProfiles, setLocalProfiles] = useState<LocalProfile[]>([]);
+  const [profileForm, setProfileForm] = useState<LocalProfileForm>(EMPTY_PROFILE_FORM);
+  const [profilesMessage, setProfilesMessage] = useState('');
 
   // Load preferences on mount
   useEffect(() => {
@@ -95,6 +140,253 @@ function Preferences({ isOpen, onClose, onPreferencesChange }: PreferencesProps)
     }
   }, []);
 
+  // Known hosts live in the main process store, refresh whenever the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      loadKnownHosts();
+      setKnownHostsMessage('');
+      setExportMessage('');
+      setVaultMessage('');
+      setMasterPassword('');
+      setConfirmPassword('');
+      setProxyMessage('');
+      setKeysMessage('');
+      setInstallingKey(null);
+      setProfileForm(EMPTY_PROFILE_FORM);
+      setProfilesMessage('');
+      window.electronAPI.keysList().then(setKeys);
+      window.electronAPI.localProfilesGetAll().then(setLocalProfiles);
+      window.electronAPI.proxyGetDefault().then(saved => {
+        setProxy(saved || { type: 'none', host: '', port: 1080 });
+      });
+      window.electronAPI.vaultStatus().then(status => {
+        setVaultStatus(status);
+        setVaultMode(status.mode || (status.safeStorageAvailable ? 'safeStorage' : 'master'));
+      });
+    }
+  }, [isOpen]);
+
+  // Lock state can also change from connection prompts
+  useEffect(() => {
+    return window.electronAPI.onVaultStatus(setVaultStatus);
+  }, []);
+
+  const setupVault = async () => {
+    if (vaultMode === 'master') {
+      if (masterPassword.length < 8) {
+        setVaultMessage('Master password must be at least 8 characters');
+        return;
+      }
+      if (masterPassword !== confirmPassword) {
+        setVaultMessage('Passwords do not match');
+        return;
+      }
+    }
+    const result = await window.electronAPI.vaultSetup(vaultMode, vaultMode === 'master' ? masterPassword : undefined);
+    setVaultMessage(result.success ? 'Vault updated' : result.error || 'Failed to set up vault');
+    setMasterPassword('');
+    setConfirmPassword('');
+    setVaultStatus(await window.electronAPI.vaultStatus());
+  };
+
+  const toggleVaultLock = async () => {
+    if (!vaultStatus) return;
+    if (vaultStatus.locked) {
+      const result = await window.electronAPI.vaultUnlock(vaultStatus.mode === 'master' ? masterPassword : undefined);
+      setVaultMessage(result.success ? '' : result.error || 'Failed to unlock vault');
+      setMasterPassword('');
+    } else {
+      await window.electronAPI.vaultLock();
+      setVaultMessage('');
+    }
+    setVaultStatus(await window.electronAPI.vaultStatus());
+  };
+
+  const updateProxy = (changes: Partial<DefaultProxy>) => {
+    setProxy(prev => ({ ...prev, ...changes }));
+    setProxyMessage('');
+  };
+
+  const saveProxy = async () => {
+    if (proxy.type !== 'none') {
+      if (!proxy.host.trim()) {
+        setProxyMessage('Proxy host is required');
+        return;
+      }
+      if (!(proxy.port >= 1 && proxy.port <= 65535)) {
+        setProxyMessage('Invalid proxy port');
+        return;
+      }
+    }
+    const username = proxy.username?.trim() || undefined;
+    try {
+      await window.electronAPI.proxySetDefault(proxy.type === 'none' ? null : {
+        ...proxy,
+        host: proxy.host.trim(),
+        username,
+        password: username ? proxy.password || undefined : undefined,
+        passwordSecretId: username ? proxy.passwordSecretId : undefined,
+      });
+      const saved = await window.electronAPI.proxyGetDefault();
+      setProxy(saved || { type: 'none', host: '', port: 1080 });
+      setProxyMessage('Proxy saved');
+    } catch (err: any) {
+      setProxyMessage(err.message || 'Failed to save proxy');
+    }
+  };
+
+  const loadKnownHosts = async () => {
+    const entries = await window.electronAPI.knownHostsGetAll();
+    setKnownHosts(entries.sort((a, b) => a.host.localeCompare(b.host)));
+  };
+
+  const removeKnownHost = async (entry: KnownHostEntry) => {
+    await window.electronAPI.knownHostsRemove(entry.host, entry.keyType);
+    loadKnownHosts();
+  };
+
+  const importKnownHosts = async () => {
+    const result = await window.electronAPI.knownHostsImport();
+    if (result.success) {
+      setKnownHostsMessage(
+        `Imported ${result.imported} key${result.imported === 1 ? '' : 's'}` +
+        (result.skipped > 0 ? `, skipped ${result.skipped} hashed or wildcard entr${result.skipped === 1 ? 'y' : 'ies'}` : '')
+      );
+      loadKnownHosts();
+    } else {
+      setKnownHostsMessage(result.error || 'Failed to import known_hosts');
+    }
+  };
+
+  // Keys can only be installed through connections that still log in with a password
+  const passwordConnections = connections.filter(c => c.protocol !== 'telnet' && (c.authMethod || (c.privateKey ? 'key' : 'password')) === 'password');
+
+  const generateKey = async () => {
+    if (!newKey.name.trim()) {
+      setKeysMessage('Key name is required');
+      return;
+    }
+    if (newKey.passphrase !== newKey.confirm) {
+      setKeysMessage('Passphrases do not match');
+      return;
+    }
+    setIsGeneratingKey(true);
+    setKeysMessage('');
+    const result = await window.electronAPI.keysGenerate({
+      name: newKey.name,
+      type: newKey.type,
+      passphrase: newKey.passphrase || undefined,
+    });
+    setIsGeneratingKey(false);
+    if (result.success) {
+      setNewKey(prev => ({ ...prev, name: '', passphrase: '', confirm: '' }));
+      setKeysMessage(`Generated ${result.key?.name}`);
+      setKeys(await window.electronAPI.keysList());
+    } else {
+      setKeysMessage(result.error || 'Failed to generate key');
+    }
+  };
+
+  const deleteKey = async (key: ManagedKey) => {
+    const result = await window.electronAPI.keysDelete(key.name);
+    setKeysMessage(result.success ? '' : result.error || 'Failed to delete key');
+    setKeys(await window.electronAPI.keysList());
+  };
+
+  const openInstallPicker = (key: ManagedKey) => {
+    setInstallingKey(installingKey === key.name ? null : key.name);
+    setInstallConnectionId(passwordConnections[0]?.id || '');
+    setKeysMessage('');
+  };
+
+  const installKey = async () => {
+    if (!installingKey || !installConnectionId) return;
+    const target = connections.find(c => c.id === installConnectionId);
+    setIsInstallingKey(true);
+    setKeysMessage('');
+    const result = await window.electronAPI.keysInstall(installingKey, installConnectionId);
+    setIsInstallingKey(false);
+    if (result.success) {
+      setKeysMessage(`${result.alreadyInstalled ? 'Key was already authorized on' : 'Installed key on'} ${target?.name}. It now logs in with ${installingKey}.`);
+      setInstallingKey(null);
+      if (result.connections) {
+        onConnectionsChange(result.connections);
+      }
+    } else {
+      setKeysMessage(result.error || 'Failed to install key');
+    }
+  };
+
+  const updateProfileForm = (changes: Partial<LocalProfileForm>) => {
+    setProfileForm(prev => ({ ...prev, ...changes }));
+    setProfilesMessage('');
+  };
+
+  const applyProfilePreset = (preset: Omit<LocalProfile, 'id'>) => {
+    updateProfileForm({
+      name: preset.name,
+      command: preset.command || '',
+      args: formatArgsInput(preset.args),
+    });
+  };
+
+  const editLocalProfile = (profile: LocalProfile) => {
+    setProfileForm({
+      id: profile.id,
+      name: profile.name,
+      command: profile.command || '',
+      args: formatArgsInput(profile.args),
+      cwd: profile.cwd || '',
+      env: formatEnvInput(profile.env),
+    });
+    setProfilesMessage('');
+  };
+
+  const saveLocalProfile = async () => {
+    if (!profileForm.name.trim()) {
+      setProfilesMessage('Profile name is required');
+      return;
+    }
+    const { args, error } = parseArgsInput(profileForm.args);
+    if (error) {
+      setProfilesMessage(`Arguments: ${error}`);
+      return;
+    }
+    const { env, invalidLine } = parseEnvInput(profileForm.env);
+    if (invalidLine) {
+      setProfilesMessage(`Invalid environment line "${invalidLine}" - use KEY=value`);
+      return;
+    }
+    const profile: LocalProfile = {
+      id: profileForm.id || `profile-${Date.now()}`,
+      name: profileForm.name.trim(),
+      command: profileForm.command.trim() || undefined,
+      args: args.length > 0 ? args : undefined,
+      cwd: profileForm.cwd.trim() || undefined,
+      env: Object.keys(env).length > 0 ? env : undefined,
+    };
+    setLocalProfiles(await window.electronAPI.localProfilesSave(profile));
+    setProfileForm(EMPTY_PROFILE_FORM);
+    setProfilesMessage(`Saved ${profile.name}`);
+  };
+
+  const deleteLocalProfile = async (profile: LocalProfile) => {
+    setLocalProfiles(await window.electronAPI.localProfilesDelete(profile.id));
+    if (profileForm.id === profile.id) {
+      setProfileForm(EMPTY_PROFILE_FORM);
+    }
+    setProfilesMessage('');
+  };
+
+  const exportSshConfig = async () => {
+    const result = await window.electronAPI.sshConfigExport();
+    if (result.success) {
+      setExportMessage(`Exported ${result.count} connection${result.count === 1 ? '' : 's'} to ${result.filePath}`);
+    } else if (!result.canceled) {
+      setExportMessage(result.error || 'Failed to export SSH config');
+    }
+  };
+
   // Save preferences
   const savePreferences = () => {
     localStorage.setItem('app-preferences', JSON.stringify(preferences));
@@ -385,6 +677,125 @@ function Preferences({ isOpen, onClose, onPreferencesChange }: PreferencesProps)
             </div>
           </section>
 
+          {/* Local Console Profiles Section */}
+          <section className="pref-section">
+            <h3>
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <rect x="2" y="3" width="20" height="14" rx="2" ry="2"></rect>
+                <line x1="8" y1="21" x2="16" y2="21"></line>
+                <line x1="12" y1="17" x2="12" y2="21"></line>
+              </svg>
+              Local Console Profiles
+            </h3>
+            <p className="section-desc">Programs a Personal Console tab can run. With more than one profile, new consoles ask which to start.</p>
+
+            {localProfiles.length === 0 ? (
+              <div className="known-hosts-empty">No profiles - consoles start the default shell</div>
+            ) : (
+              <div className="known-hosts-list">
+                {localProfiles.map(profile => (
+                  <div key={profile.id} className={`known-host-item ${profileForm.id === profile.id ? 'local-profile-editing' : ''}`}>
+                    <div className="known-host-info">
+                      <span className="known-host-name">
+                        {profile.name}
+                        {profile.cwd && <span className="known-host-type">{profile.cwd}</span>}
+                      </span>
+                      <code className="known-host-fingerprint">
+                        {profile.command ? [profile.command, formatArgsInput(profile.args)].filter(Boolean).join(' ') : `Default shell ${formatArgsInput(profile.args)}`.trim()}
+                      </code>
+                    </div>
+                    <button
+                      className="sync-btn pull-btn managed-key-install"
+                      onClick={() => editLocalProfile(profile)}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      className="known-host-remove"
+                      onClick={() => deleteLocalProfile(profile)}
+                      title="Delete"
+                    >
+                      <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <polyline points="3 6 5 6 21 6"></polyline>
+                        <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path>
+                      </svg>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {!profileForm.id && (
+              <div className="pref-group local-profile-form">
+                <select
+                  value=""
+                  onChange={e => {
+                    const preset = LOCAL_PROFILE_PRESETS[parseInt(e.target.value)];
+                    if (preset) applyProfilePreset(preset);
+                  }}
+                >
+                  <option value="">Start from a preset...</option>
+                  {LOCAL_PROFILE_PRESETS.map((preset, index) => (
+                    <option key={preset.name} value={index}>{preset.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div className={`pref-group proxy-row ${profileForm.id ? 'local-profile-form' : ''}`}>
+              <input
+                type="text"
+                value={profileForm.name}
+                onChange={e => updateProfileForm({ name: e.target.value })}
+                placeholder="Profile name"
+              />
+              <input
+                type="text"
+                value={profileForm.command}
+                onChange={e => updateProfileForm({ command: e.target.value })}
+                placeholder="Command (empty for the default shell)"
+                spellCheck={false}
+              />
+            </div>
+            <div className="pref-group proxy-row">
+              <input
+                type="text"
+                value={profileForm.args}
+                onChange={e => updateProfileForm({ args: e.target.value })}
+                placeholder='Arguments, e.g. -l or "-c" "htop"'
+                spellCheck={false}
+              />
+              <input
+                type="text"
+                value={profileForm.cwd}
+                onChange={e => updateProfileForm({ cwd: e.target.value })}
+                placeholder="Starting folder, e.g. ~/projects"
+                spellCheck={false}
+              />
+            </div>
+            <div className="pref-group">
+              <textarea
+                className="local-profile-env"
+                value={profileForm.env}
+                onChange={e => updateProfileForm({ env: e.target.value })}
+                placeholder={'Environment, one KEY=value per line\nVIRTUAL_ENV_DISABLE_PROMPT=1'}
+                rows={3}
+                spellCheck={false}
+              />
+              <span className="field-hint">A folder saved from a console (Ctrl+Shift+S) takes precedence over the starting folder, separately for each profile.</span>
+            </div>
+            <div className="sync-actions">
+              <button className="sync-btn push-btn" onClick={saveLocalProfile}>
+                {profileForm.id ? 'Save Profile' : 'Add Profile'}
+              </button>
+              {profileForm.id && (
+                <button className="sync-btn pull-btn" onClick={() => { setProfileForm(EMPTY_PROFILE_FORM); setProfilesMessage(''); }}>
+                  Cancel
+                </button>
+              )}
+            </div>
+            {profilesMessage && <span className="field-hint">{profilesMessage}</span>}
+          </section>
+
           {/* GitHub Sync Section */}
           <section className="pref-section">
             <h3>
@@ -519,6 +930,334 @@ function Preferences({ isOpen, onClose, onPreferencesChange }: PreferencesProps)
             )}
           </section>
 
+          {/* Proxy Section */}
+          <section className="pref-section">
+            <h3>
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <circle cx="12" cy="12" r="10"></circle>
+                <line x1="2" y1="12" x2="22" y2="12"></line>
+                <path d="M12 2a15.3 15.3 0 0 1 4 10 15.3 15.3 0 0 1-4 10 15.3 15.3 0 0 1-4-10 15.3 15.3 0 0 1 4-10z"></path>
+              </svg>
+              Proxy
+            </h3>
+            <p className="section-desc">Default proxy for SSH connections. Connections can override it in their settings.</p>
+
+            <div className="pref-group">
+              <label>Proxy Type</label>
+              <select
+                value={proxy.type}
+                onChange={e => {
+                  const type = e.target.value as DefaultProxy['type'];
+                  updateProxy({ type, port: proxy.host ? proxy.port : type === 'http' ? 3128 : 1080 });
+                }}
+              >
+                <option value="none">None (connect directly)</option>
+                <option value="socks5">SOCKS5</option>
+                <option value="http">HTTP CONNECT</option>
+              </select>
+            </div>
+
+            {proxy.type !== 'none' && (
+              <>
+                <div className="pref-group proxy-row">
+                  <input
+                    type="text"
+                    value={proxy.host}
+                    onChange={e => updateProxy({ host: e.target.value })}
+                    placeholder="proxy.example.com"
+                  />
+                  <input
+                    type="number"
+                    value={proxy.port || ''}
+                    onChange={e => updateProxy({ port: parseInt(e.target.value) || 0 })}
+                    min="1"
+                    max="65535"
+                  />
+                </div>
+                <div className="pref-group proxy-row">
+                  <input
+                    type="text"
+                    value={proxy.username || ''}
+                    onChange={e => updateProxy({ username: e.target.value })}
+                    placeholder="Username (optional)"
+                    autoComplete="off"
+                  />
+                  <input
+                    type="password"
+                    value={proxy.password || ''}
+                    onChange={e => updateProxy({ password: e.target.value })}
+                    placeholder={proxy.passwordSecretId ? 'Saved - leave empty to keep' : 'Password'}
+                    autoComplete="off"
+                    disabled={!proxy.username}
+                  />
+                </div>
+              </>
+            )}
+
+            <div className="sync-actions">
+              <button className="sync-btn push-btn" onClick={saveProxy}>
+                Save Proxy
+              </button>
+            </div>
+            {proxyMessage && <span className="field-hint">{proxyMessage}</span>}
+          </section>
+
+          {/* Credential Vault Section */}
+          <section className="pref-section">
+            <h3>
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <rect x="3" y="11" width="18" height="11" rx="2" ry="2"></rect>
+                <path d="M7 11V7a5 5 0 0110 0v4"></path>
+              </svg>
+              Credential Vault
+            </h3>
+            <p className="section-desc">Connection passwords and TOTP secrets are encrypted at rest</p>
+
+            {vaultStatus && (
+              <>
+                <div className={`vault-status ${vaultStatus.locked ? 'locked' : vaultStatus.mode ? 'unlocked' : ''}`}>
+                  <span className="vault-status-dot"></span>
+                  {!vaultStatus.mode
+                    ? 'Not set up'
+                    : `${vaultStatus.locked ? 'Locked' : 'Unlocked'} · ${vaultStatus.mode === 'master' ? 'Master password' : 'OS keychain'} · ${vaultStatus.secretCount} secret${vaultStatus.secretCount === 1 ? '' : 's'}`}
+                </div>
+
+                {vaultStatus.plaintextCount > 0 && (
+                  <div className="sync-status error">
+                    {vaultStatus.plaintextCount} connection{vaultStatus.plaintextCount === 1 ? ' stores its' : 's store their'} password in plain text.
+                    {vaultStatus.locked ? ' Unlock the vault to encrypt them.' : ' Set up the vault to encrypt them.'}
+                  </div>
+                )}
+
+                {vaultStatus.mode && (
+                  <div className="pref-group vault-lock-row">
+                    {vaultStatus.locked && vaultStatus.mode === 'master' && (
+                      <input
+                        type="password"
+                        value={masterPassword}
+                        onChange={e => setMasterPassword(e.target.value)}
+                        onKeyDown={e => { if (e.key === 'Enter') toggleVaultLock(); }}
+                        placeholder="Master password"
+                      />
+                    )}
+                    <button className="sync-btn pull-btn" onClick={toggleVaultLock}>
+                      {vaultStatus.locked ? 'Unlock Vault' : 'Lock Vault'}
+                    </button>
+                  </div>
+                )}
+
+                {!vaultStatus.locked && (
+                  <>
+                    <div className="pref-group">
+                      <label>{vaultStatus.mode ? 'Change Protection' : 'Protect Secrets With'}</label>
+                      <select value={vaultMode} onChange={e => setVaultMode(e.target.value as 'safeStorage' | 'master')}>
+                        <option value="safeStorage" disabled={!vaultStatus.safeStorageAvailable}>
+                          OS keychain{vaultStatus.safeStorageAvailable ? '' : ' (not available)'}
+                        </option>
+                        <option value="master">Master password</option>
+                      </select>
+                    </div>
+
+                    {vaultMode === 'master' && (
+                      <div className="pref-group">
+                        <label>{vaultStatus.mode === 'master' ? 'New Master Password' : 'Master Password'}</label>
+                        <input
+                          type="password"
+                          value={masterPassword}
+                          onChange={e => setMasterPassword(e.target.value)}
+                          placeholder="At least 8 characters"
+                        />
+                        <input
+                          type="password"
+                          className="vault-confirm-input"
+                          value={confirmPassword}
+                          onChange={e => setConfirmPassword(e.target.value)}
+                          placeholder="Confirm master password"
+                        />
+                        <span className="field-hint">There is no way to recover secrets if you forget it.</span>
+                      </div>
+                    )}
+
+                    {(vaultMode !== vaultStatus.mode || vaultMode === 'master') && (
+                      <div className="sync-actions">
+                        <button className="sync-btn push-btn" onClick={setupVault}>
+                          {!vaultStatus.mode ? 'Set Up Vault' : vaultMode === vaultStatus.mode ? 'Change Master Password' : 'Switch Protection'}
+                        </button>
+                      </div>
+                    )}
+                  </>
+                )}
+
+                {vaultMessage && <span className="field-hint">{vaultMessage}</span>}
+              </>
+            )}
+          </section>
+
+          {/* SSH Keys Section */}
+          <section className="pref-section">
+            <h3>
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M21 2l-2 2m-7.61 7.61a5.5 5.5 0 1 1-7.778 7.778 5.5 5.5 0 0 1 7.777-7.777zm0 0L15.5 7.5m0 0l3 3L22 7l-3-3m-3.5 3.5L19 4"></path>
+              </svg>
+              SSH Keys
+            </h3>
+            <p className="section-desc">Generate keypairs and install them on servers you log into with a password</p>
+
+            {keys.length === 0 ? (
+              <div className="known-hosts-empty">No keys generated yet</div>
+            ) : (
+              <div className="known-hosts-list">
+                {keys.map(key => (
+                  <div key={key.name} className="managed-key">
+                    <div className="known-host-item">
+                      <div className="known-host-info">
+                        <span className="known-host-name">
+                          {key.name}
+                          <span className="known-host-type">{key.type}{key.encrypted ? ' · passphrase' : ''}</span>
+                        </span>
+                        <code className="known-host-fingerprint" title={key.comment}>{key.fingerprint}</code>
+                      </div>
+                      <button
+                        className="sync-btn pull-btn managed-key-install"
+                        onClick={() => openInstallPicker(key)}
+                        disabled={passwordConnections.length === 0}
+                        title={passwordConnections.length === 0 ? 'No password-authenticated connections' : 'Append to ~/.ssh/authorized_keys on a server'}
+                      >
+                        Install public key
+                      </button>
+                      <button
+                        className="known-host-remove"
+                        onClick={() => deleteKey(key)}
+                        title="Delete"
+                      >
+                        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                          <polyline points="3 6 5 6 21 6"></polyline>
+                          <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path>
+                        </svg>
+                      </button>
+                    </div>
+                    {installingKey === key.name && (
+                      <div className="pref-group vault-lock-row">
+                        <select value={installConnectionId} onChange={e => setInstallConnectionId(e.target.value)}>
+                          {passwordConnections.map(c => (
+                            <option key={c.id} value={c.id}>{c.name}</option>
+                          ))}
+                        </select>
+                        <button className="sync-btn push-btn" onClick={installKey} disabled={isInstallingKey || !installConnectionId}>
+                          {isInstallingKey ? 'Installing...' : 'Install'}
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="pref-group proxy-row managed-key-form">
+              <input
+                type="text"
+                value={newKey.name}
+                onChange={e => setNewKey(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Key name, e.g. id_work"
+              />
+              <select value={newKey.type} onChange={e => setNewKey(prev => ({ ...prev, type: e.target.value as 'ed25519' | 'rsa' }))}>
+                <option value="ed25519">Ed25519</option>
+                <option value="rsa">RSA 4096</option>
+              </select>
+            </div>
+            <div className="pref-group proxy-row">
+              <input
+                type="password"
+                value={newKey.passphrase}
+                onChange={e => setNewKey(prev => ({ ...prev, passphrase: e.target.value }))}
+                placeholder="Passphrase (optional)"
+              />
+              <input
+                type="password"
+                value={newKey.confirm}
+                onChange={e => setNewKey(prev => ({ ...prev, confirm: e.target.value }))}
+                placeholder="Confirm passphrase"
+              />
+            </div>
+            <div className="sync-actions">
+              <button className="sync-btn push-btn" onClick={generateKey} disabled={isGeneratingKey}>
+                {isGeneratingKey ? 'Generating...' : 'Generate Key'}
+              </button>
+            </div>
+            {keysMessage && <span className="field-hint">{keysMessage}</span>}
+          </section>
+
+          {/* OpenSSH Config Section */}
+          <section className="pref-section">
+            <h3>
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path>
+                <polyline points="14 2 14 8 20 8"></polyline>
+              </svg>
+              OpenSSH Config
+            </h3>
+            <p className="section-desc">Use your saved connections from plain ssh, scp and Ansible. Passwords are never exported.</p>
+
+            <div className="sync-actions">
+              <button className="sync-btn pull-btn" onClick={exportSshConfig}>
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M12 19V5M5 12l7-7 7 7"/>
+                </svg>
+                Export All Connections
+              </button>
+            </div>
+            {exportMessage && <span className="field-hint">{exportMessage}</span>}
+          </section>
+
+          {/* Known Hosts Section */}
+          <section className="pref-section">
+            <h3>
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z"></path>
+              </svg>
+              Known Hosts
+            </h3>
+            <p className="section-desc">Host keys you trusted. Connections to a host whose key changed are blocked.</p>
+
+            {knownHosts.length === 0 ? (
+              <div className="known-hosts-empty">No trusted hosts yet</div>
+            ) : (
+              <div className="known-hosts-list">
+                {knownHosts.map(entry => (
+                  <div key={`${entry.host}-${entry.keyType}`} className="known-host-item">
+                    <div className="known-host-info">
+                      <span className="known-host-name">
+                        {entry.host}
+                        <span className="known-host-type">{entry.keyType}</span>
+                      </span>
+                      <code className="known-host-fingerprint">{entry.fingerprint}</code>
+                    </div>
+                    <button
+                      className="known-host-remove"
+                      onClick={() => removeKnownHost(entry)}
+                      title="Remove"
+                    >
+                      <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <polyline points="3 6 5 6 21 6"></polyline>
+                        <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path>
+                      </svg>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="sync-actions">
+              <button className="sync-btn pull-btn" onClick={importKnownHosts}>
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M12 5v14M5 12l7 7 7-7"/>
+                </svg>
+                Import from ~/.ssh/known_hosts
+              </button>
+            </div>
+            {knownHostsMessage && <span className="field-hint">{knownHostsMessage}</span>}
+          </section>
+
           {/* Keyboard Shortcuts Reference */}
           <section className="pref-section">
             <h3>
@@ -545,6 +1284,10 @@ function Preferences({ isOpen, onClose, onPreferencesChange }: PreferencesProps)
                 <kbd>Ctrl+Shift+D</kbd>
                 <span>Split Terminal Down</span>
               </div>
+              <div className="shortcut-item">
+                <kbd>Ctrl+Shift+B</kbd>
+                <span>Broadcast Input to Split Panes</span>
+              </div>
               <div className="shortcut-item">
                 <kbd>Ctrl+Shift+M</kbd>
                 <span>Multi-Server Command</span>
@@ -557,6 +1300,10 @@ function Preferences({ isOpen, onClose, onPreferencesChange }: PreferencesProps)
                 <kbd>Ctrl+Shift+T</kbd>
                 <span>SSH Tunnel Manager</span>
               </div>
+              <div className="shortcut-item">
+                <kbd>Ctrl+Shift+L</kbd>
+                <span>Session Recordings</span>
+              </div>
             </div>
           </section>
         </div>
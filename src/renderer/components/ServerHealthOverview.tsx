@@ -1,4 +1,6 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import ConnectionSelectorBar from './ConnectionSelectorBar';
+import { ConnectionSelector, matchesSelector } from '../utils/connectionGroups';
 import './ServerHealthOverview.css';
 
 interface Connection {
@@ -7,8 +9,11 @@ interface Connection {
   host: string;
   port: number;
   username: string;
+  protocol?: 'ssh' | 'telnet';
   avatarIcon?: string;
   avatarColor?: string;
+  folder?: string;
+  tags?: string[];
 }
 
 interface ServerHealth {
@@ -44,6 +49,14 @@ function ServerHealthOverview({
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [autoRefresh, setAutoRefresh] = useState(true);
   const refreshIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Optional folder/tag filter; only matching servers are shown and polled
+  const [selector, setSelector] = useState<ConnectionSelector | null>(null);
+
+  // Telnet devices have no exec channel to collect stats over
+  const visibleConnections = useMemo(
+    () => connections.filter(c => c.protocol !== 'telnet' && (!selector || matchesSelector(c, selector))),
+    [connections, selector]
+  );
 
   // Parse memory/disk sizes like "1.5G" to bytes
   const parseSize = (str: string): number => {
@@ -173,7 +186,7 @@ function ServerHealthOverview({
     if (isRefreshing) return;
     setIsRefreshing(true);
 
-    const promises = connections.map(conn => fetchServerHealth(conn));
+    const promises = visibleConnections.map(conn => fetchServerHealth(conn));
     const results = await Promise.all(promises);
 
     const newHealthData = new Map<string, ServerHealth>();
@@ -183,7 +196,7 @@ function ServerHealthOverview({
     setHealthData(newHealthData);
 
     setIsRefreshing(false);
-  }, [connections, fetchServerHealth, isRefreshing]);
+  }, [visibleConnections, fetchServerHealth, isRefreshing]);
 
   // Initial load and auto-refresh
   useEffect(() => {
@@ -223,7 +236,7 @@ function ServerHealthOverview({
   if (!isOpen) return null;
 
   const onlineCount = Array.from(healthData.values()).filter(h => h.status === 'online').length;
-  const totalCount = connections.length;
+  const totalCount = visibleConnections.length;
 
   return (
     <div className="health-overview-overlay" onClick={onClose}>
@@ -274,6 +287,12 @@ function ServerHealthOverview({
           </div>
         </div>
 
+        <ConnectionSelectorBar
+          connections={connections}
+          isActive={s => selector?.type === s.type && selector.value === s.value}
+          onSelect={s => setSelector(selector?.type === s.type && selector.value === s.value ? null : s)}
+        />
+
         <div className="health-overview-body">
           {connections.length === 0 ? (
             <div className="no-servers">
@@ -288,7 +307,7 @@ function ServerHealthOverview({
             </div>
           ) : (
             <div className="server-grid">
-              {connections.map(connection => {
+              {visibleConnections.map(connection => {
                 const health = healthData.get(connection.id);
                 const isConnected = activeConnectionIds.includes(connection.id);
 
@@ -0,0 +1,347 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Terminal as XTerm } from '@xterm/xterm';
+import { SearchAddon } from '@xterm/addon-search';
+import { CastRecording, RecordingInfo } from '../types/electron';
+import { buildTextIndex, findMatchTimes, formatPlaybackTime } from '../utils/recordingSearch';
+import '@xterm/xterm/css/xterm.css';
+import './SessionRecordings.css';
+
+interface SessionRecordingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2, 4, 8];
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Recordings list and player for the asciicast files written by the Terminal record toggle.
+// Playback replays the events into a read-only xterm; seeking back replays from the start.
+function SessionRecordings({ isOpen, onClose }: SessionRecordingsProps) {
+  const [recordings, setRecordings] = useState<RecordingInfo[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [recording, setRecording] = useState<CastRecording | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [matchIndex, setMatchIndex] = useState(-1);
+
+  const viewRef = useRef<HTMLDivElement>(null);
+  const xtermRef = useRef<XTerm | null>(null);
+  const searchAddonRef = useRef<SearchAddon | null>(null);
+  const playbackRef = useRef({ position: 0, nextEvent: 0 }); // What the terminal shows right now
+
+  const loadRecordings = async () => {
+    setRecordings(await window.electronAPI.recordingList());
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      loadRecordings();
+    } else {
+      setSelected(null);
+      setRecording(null);
+      setIsPlaying(false);
+      setSearchTerm('');
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const handleSelect = async (fileName: string) => {
+    setIsPlaying(false);
+    setSelected(fileName);
+    setError(null);
+    const result = await window.electronAPI.recordingLoad(fileName);
+    if (result.success && result.recording) {
+      setRecording(result.recording);
+    } else {
+      setRecording(null);
+      setError(result.error || 'Failed to load the recording');
+    }
+  };
+
+  const handleDelete = async (fileName: string) => {
+    const result = await window.electronAPI.recordingDelete(fileName);
+    if (!result.success) {
+      setError(result.error || 'Failed to delete the recording');
+      return;
+    }
+    if (selected === fileName) {
+      setSelected(null);
+      setRecording(null);
+      setIsPlaying(false);
+    }
+    loadRecordings();
+  };
+
+  // A fresh read-only terminal per recording, sized like the recorded one
+  useEffect(() => {
+    if (!recording || !viewRef.current) return;
+    const term = new XTerm({
+      cols: recording.header.width,
+      rows: recording.header.height,
+      disableStdin: true,
+      cursorBlink: false,
+      fontSize: 13,
+      fontFamily: '"JetBrains Mono", "Fira Code", "Cascadia Code", Menlo, Monaco, "Courier New", monospace',
+      lineHeight: 1.2,
+      theme: {
+        background: '#1a1b26',
+        foreground: '#c0caf5',
+        cursor: '#c0caf5',
+        cursorAccent: '#1a1b26',
+        selectionBackground: '#33467c',
+        selectionForeground: '#c0caf5',
+        black: '#15161e',
+        red: '#f7768e',
+        green: '#9ece6a',
+        yellow: '#e0af68',
+        blue: '#7aa2f7',
+        magenta: '#bb9af7',
+        cyan: '#7dcfff',
+        white: '#a9b1d6',
+        brightBlack: '#414868',
+        brightRed: '#f7768e',
+        brightGreen: '#9ece6a',
+        brightYellow: '#e0af68',
+        brightBlue: '#7aa2f7',
+        brightMagenta: '#bb9af7',
+        brightCyan: '#7dcfff',
+        brightWhite: '#c0caf5',
+      },
+      scrollback: 5000,
+    });
+    const searchAddon = new SearchAddon();
+    term.loadAddon(searchAddon);
+    term.open(viewRef.current);
+    xtermRef.current = term;
+    searchAddonRef.current = searchAddon;
+    playbackRef.current = { position: 0, nextEvent: 0 };
+    setPosition(0);
+    setMatchIndex(-1);
+    return () => {
+      term.dispose();
+      xtermRef.current = null;
+      searchAddonRef.current = null;
+    };
+  }, [recording]);
+
+  const duration = recording && recording.events.length > 0 ? recording.events[recording.events.length - 1][0] : 0;
+
+  // Bring the terminal to `target` seconds: play forward from the current frame, or reset and
+  // replay from the start to go back. Resizes run from write callbacks so they land in order.
+  const renderTo = useCallback((target: number) => {
+    const term = xtermRef.current;
+    if (!term || !recording) return;
+    const playback = playbackRef.current;
+    if (target < playback.position) {
+      term.reset();
+      term.resize(recording.header.width, recording.header.height);
+      playback.nextEvent = 0;
+    }
+    const events = recording.events;
+    let pending = '';
+    while (playback.nextEvent < events.length && events[playback.nextEvent][0] <= target) {
+      const [, code, data] = events[playback.nextEvent++];
+      if (code === 'o') {
+        pending += data;
+      } else if (code === 'r') {
+        const [cols, rows] = data.split('x').map(Number);
+        if (cols > 0 && rows > 0) {
+          term.write(pending, () => term.resize(cols, rows));
+          pending = '';
+        }
+      }
+    }
+    if (pending) term.write(pending);
+    playback.position = target;
+    setPosition(target);
+  }, [recording]);
+
+  useEffect(() => {
+    if (!isPlaying || !recording) return;
+    let last = performance.now();
+    let frame = requestAnimationFrame(function tick(now: number) {
+      const target = Math.min(duration, playbackRef.current.position + ((now - last) / 1000) * speed);
+      last = now;
+      renderTo(target);
+      if (target >= duration) {
+        setIsPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, speed, recording, duration, renderTo]);
+
+  const togglePlay = () => {
+    if (!isPlaying && playbackRef.current.position >= duration) {
+      renderTo(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  const textIndex = useMemo(() => (recording ? buildTextIndex(recording) : null), [recording]);
+  const query = searchTerm.trim();
+  const matchTimes = useMemo(() => (textIndex && query ? findMatchTimes(textIndex, query) : []), [textIndex, query]);
+
+  useEffect(() => {
+    setMatchIndex(-1);
+  }, [matchTimes]);
+
+  // Jump to the moment a match was printed and select it on screen
+  const goToMatch = (direction: 1 | -1) => {
+    if (matchTimes.length === 0) return;
+    const next = matchIndex === -1
+      ? (direction === 1 ? 0 : matchTimes.length - 1)
+      : (matchIndex + direction + matchTimes.length) % matchTimes.length;
+    setMatchIndex(next);
+    setIsPlaying(false);
+    renderTo(matchTimes[next]);
+    const term = xtermRef.current;
+    term?.write('', () => {
+      term.clearSelection();
+      searchAddonRef.current?.findPrevious(query, { caseSensitive: false });
+    });
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="recordings-overlay" onClick={onClose}>
+      <div className="recordings-modal" onClick={e => e.stopPropagation()}>
+        <div className="recordings-header">
+          <div className="header-title">
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <circle cx="12" cy="12" r="10"></circle>
+              <circle cx="12" cy="12" r="4"></circle>
+            </svg>
+            <span>Session Recordings</span>
+          </div>
+          <button className="recordings-folder-btn" onClick={() => window.electronAPI.recordingShowFolder()}>
+            Open Folder
+          </button>
+          <button className="close-btn" onClick={onClose}>
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"></line>
+              <line x1="6" y1="6" x2="18" y2="18"></line>
+            </svg>
+          </button>
+        </div>
+
+        <div className="recordings-body">
+          <div className="recordings-list">
+            {recordings.length === 0 && (
+              <div className="recordings-empty">
+                No recordings yet. Right-click a terminal and choose Start Recording.
+              </div>
+            )}
+            {recordings.map((rec) => (
+              <div
+                key={rec.fileName}
+                className={`recordings-item ${selected === rec.fileName ? 'selected' : ''}`}
+                onClick={() => handleSelect(rec.fileName)}
+              >
+                <div className="recordings-item-info">
+                  <span className="recordings-item-title">
+                    {rec.active && <span className="recording-dot" title="Still recording"></span>}
+                    {rec.title}
+                  </span>
+                  <span className="recordings-item-details">
+                    {new Date(rec.startedAt).toLocaleString()} · {formatPlaybackTime(rec.duration)} · {formatSize(rec.size)}
+                  </span>
+                </div>
+                <button
+                  className="recordings-delete"
+                  onClick={(e) => { e.stopPropagation(); handleDelete(rec.fileName); }}
+                  disabled={rec.active}
+                  title={rec.active ? 'Stop the recording first' : 'Delete recording'}
+                >
+                  <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <polyline points="3 6 5 6 21 6"></polyline>
+                    <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path>
+                  </svg>
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="recordings-player">
+            {error && <div className="recordings-error">{error}</div>}
+            {!recording && !error && <div className="recordings-placeholder">Select a recording to play it</div>}
+            {recording && (
+              <>
+                <div className="recordings-search">
+                  <input
+                    type="text"
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') goToMatch(e.shiftKey ? -1 : 1);
+                    }}
+                    placeholder="Search the recording..."
+                  />
+                  {query && (
+                    <span className="recordings-match-count">
+                      {matchTimes.length === 0 ? 'No matches' : `${matchIndex + 1 || '-'} / ${matchTimes.length}`}
+                    </span>
+                  )}
+                  <button onClick={() => goToMatch(-1)} disabled={matchTimes.length === 0} title="Previous match (Shift+Enter)">
+                    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <polyline points="18 15 12 9 6 15"></polyline>
+                    </svg>
+                  </button>
+                  <button onClick={() => goToMatch(1)} disabled={matchTimes.length === 0} title="Next match (Enter)">
+                    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <polyline points="6 9 12 15 18 9"></polyline>
+                    </svg>
+                  </button>
+                </div>
+                <div className="recordings-screen">
+                  <div ref={viewRef} />
+                </div>
+                <div className="recordings-controls">
+                  <button className="recordings-play" onClick={togglePlay} title={isPlaying ? 'Pause' : 'Play'}>
+                    {isPlaying ? (
+                      <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+                        <rect x="6" y="4" width="4" height="16"></rect>
+                        <rect x="14" y="4" width="4" height="16"></rect>
+                      </svg>
+                    ) : (
+                      <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+                        <polygon points="5 3 19 12 5 21 5 3"></polygon>
+                      </svg>
+                    )}
+                  </button>
+                  <span className="recordings-time">{formatPlaybackTime(position)} / {formatPlaybackTime(duration)}</span>
+                  <input
+                    type="range"
+                    className="recordings-seek"
+                    min={0}
+                    max={duration || 0}
+                    step={0.1}
+                    value={position}
+                    onChange={(e) => renderTo(Number(e.target.value))}
+                  />
+                  <select value={speed} onChange={(e) => setSpeed(Number(e.target.value))} title="Playback speed">
+                    {SPEEDS.map((s) => (
+                      <option key={s} value={s}>{s}x</option>
+                    ))}
+                  </select>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SessionRecordings;
@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
-import { Connection } from '../types/electron';
+import { Connection, ConnectionStatus } from '../types/electron';
 import { maskIP, maskUsername, PreferencesConfig } from './Preferences';
+import { FolderNode, buildFolderTree, countConnections, getFolderPaths, isInFolder, matchesFilter, normalizeFolder, parseTags } from '../utils/connectionGroups';
+import { getConnectionStateLabel } from '../utils/connectionState';
 import './Sidebar.css';
 
 const AVATAR_COLORS = [
@@ -26,6 +28,7 @@ const AVATAR_ICONS = [
 interface SidebarProps {
   connections: Connection[];
   activeConnectionIds: string[];
+  connectionStates?: Record<string, ConnectionStatus>; // Live state per connection ID
   onConnect: (connection: Connection, mode: 'terminal' | 'sftp' | 'dashboard') => void;
   onEdit: (connection: Connection) => void;
   onDelete: (id: string) => void;
@@ -38,12 +41,16 @@ interface SidebarProps {
   preferences?: PreferencesConfig;
   onOpenLocalConsole?: () => void;
   isLocalConsoleActive?: boolean;
-  onReorderConnections?: (connections: Connection[]) => void;
+  onReorderConnections?: (connections: Connection[]) => void; // Also used for folder and tag changes
+  onImportSshConfig?: () => void;
+  onBulkImport?: () => void; // CSV, JSON and Ansible inventory import
+  onExportSshConfig?: (connectionIds: string[]) => void;
 }
 
 function Sidebar({
   connections,
   activeConnectionIds,
+  connectionStates = {},
   onConnect,
   onEdit,
   onDelete,
@@ -57,17 +64,42 @@ function Sidebar({
   onOpenLocalConsole,
   isLocalConsoleActive = false,
   onReorderConnections,
+  onImportSshConfig,
+  onBulkImport,
+  onExportSshConfig,
 }: SidebarProps) {
   const [searchTerm, setSearchTerm] = useState('');
+  // Ctrl/Cmd+click selection, used for bulk actions in the context menu
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [contextMenu, setContextMenu] = useState<{
     connectionId: string;
     x: number;
     y: number;
   } | null>(null);
 
+  const [folderMenu, setFolderMenu] = useState<{ path: string; x: number; y: number } | null>(null);
+
   // Drag state for reordering connections
   const [draggedConnection, setDraggedConnection] = useState<string | null>(null);
   const [dragOverConnection, setDragOverConnection] = useState<string | null>(null);
+  const [dragOverFolder, setDragOverFolder] = useState<string | null>(null);
+
+  // Collapsed folder paths, remembered across restarts
+  const [collapsedFolders, setCollapsedFolders] = useState<string[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('sidebar-collapsed-folders') || '[]');
+    } catch {
+      return [];
+    }
+  });
+
+  // "Move to Folder" / "Edit Tags" / "Rename Folder" dialog
+  const [groupModal, setGroupModal] = useState<{
+    mode: 'folder' | 'tags' | 'renameFolder';
+    ids: string[];
+    folder?: string;
+    value: string;
+  } | null>(null);
 
   // Avatar customization modal
   const [avatarModal, setAvatarModal] = useState<{
@@ -76,18 +108,88 @@ function Sidebar({
   const [selectedIcon, setSelectedIcon] = useState<string>('');
   const [selectedColor, setSelectedColor] = useState<string>('');
 
-  const filteredConnections = connections.filter(
-    (conn) =>
-      conn.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      conn.host.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const filteredConnections = connections.filter((conn) => matchesFilter(conn, searchTerm));
+  const folderTree = buildFolderTree(filteredConnections);
+  const folderPaths = getFolderPaths(connections);
+
+  const toggleFolder = (path: string) => {
+    setCollapsedFolders(prev => {
+      const next = prev.includes(path) ? prev.filter(p => p !== path) : [...prev, path];
+      localStorage.setItem('sidebar-collapsed-folders', JSON.stringify(next));
+      return next;
+    });
+  };
+
+  const updateConnections = (update: (conn: Connection) => Connection) => {
+    onReorderConnections?.(connections.map(update));
+  };
+
+  const openGroupModal = (mode: 'folder' | 'tags', ids: string[]) => {
+    const targets = connections.filter(c => ids.includes(c.id));
+    const value = mode === 'folder'
+      ? (targets.every(c => c.folder === targets[0]?.folder) ? targets[0]?.folder || '' : '')
+      : targets.length === 1 ? (targets[0].tags || []).join(', ') : '';
+    setGroupModal({ mode, ids, value });
+    closeContextMenu();
+  };
+
+  const saveGroupModal = () => {
+    if (!groupModal) return;
+    const { mode, ids, folder, value } = groupModal;
+
+    if (mode === 'renameFolder' && folder) {
+      // Rename by replacing the path prefix, so subfolders move along
+      const parent = folder.includes('/') ? folder.slice(0, folder.lastIndexOf('/')) : '';
+      const renamed = normalizeFolder(parent ? `${parent}/${value}` : value);
+      updateConnections(c => isInFolder(c, folder)
+        ? { ...c, folder: normalizeFolder(`${renamed || ''}${c.folder!.slice(folder.length)}`) }
+        : c);
+      setCollapsedFolders(prev => prev.filter(p => p !== folder));
+    } else if (mode === 'folder') {
+      updateConnections(c => ids.includes(c.id) ? { ...c, folder: normalizeFolder(value) } : c);
+    } else if (mode === 'tags') {
+      const tags = parseTags(value);
+      // With several connections selected the entered tags are added to each of them
+      updateConnections(c => {
+        if (!ids.includes(c.id)) return c;
+        const next = ids.length > 1 ? Array.from(new Set([...(c.tags || []), ...tags])) : tags;
+        return { ...c, tags: next.length > 0 ? next : undefined };
+      });
+    }
+    setGroupModal(null);
+  };
+
+  // Removing a folder moves its connections (and subfolders) up one level
+  const removeFolder = (folder: string) => {
+    const parent = folder.includes('/') ? folder.slice(0, folder.lastIndexOf('/')) : '';
+    updateConnections(c => isInFolder(c, folder)
+      ? { ...c, folder: normalizeFolder(`${parent}${c.folder!.slice(folder.length)}`) }
+      : c);
+    setFolderMenu(null);
+  };
 
   const handleContextMenu = (e: React.MouseEvent, connectionId: string) => {
     e.preventDefault();
     setContextMenu({ connectionId, x: e.clientX, y: e.clientY });
   };
 
-  const closeContextMenu = () => setContextMenu(null);
+  const closeContextMenu = () => {
+    setContextMenu(null);
+    setFolderMenu(null);
+  };
+
+  const handleConnectionClick = (e: React.MouseEvent, conn: Connection) => {
+    if (e.ctrlKey || e.metaKey) {
+      setSelectedIds(prev => prev.includes(conn.id) ? prev.filter(id => id !== conn.id) : [...prev, conn.id]);
+      return;
+    }
+    setSelectedIds([]);
+    onConnect(conn, 'terminal');
+  };
+
+  // Bulk actions apply to the selection when the right-clicked item is part of it
+  const getContextTargets = (connectionId: string) =>
+    selectedIds.includes(connectionId) ? selectedIds : [connectionId];
 
   React.useEffect(() => {
     const handleClick = () => closeContextMenu();
@@ -131,6 +233,10 @@ function Sidebar({
   const renderAvatar = (conn: Connection) => {
     const iconData = getAvatarIcon(conn);
     const color = getConnectionColor(conn);
+    const status = connectionStates[conn.id];
+    const stateDot = status && (
+      <span className={`state-dot connection-state-dot ${status.state}`} title={getConnectionStateLabel(status)}></span>
+    );
 
     if (iconData) {
       return (
@@ -138,6 +244,7 @@ function Sidebar({
           <svg width="18" height="18" viewBox="0 0 24 24" fill="currentColor">
             <path d={iconData.icon} />
           </svg>
+          {stateDot}
         </div>
       );
     }
@@ -145,6 +252,7 @@ function Sidebar({
     return (
       <div className="connection-avatar" style={{ backgroundColor: color }}>
         {conn.name.charAt(0).toUpperCase()}
+        {stateDot}
       </div>
     );
   };
@@ -184,9 +292,10 @@ function Sidebar({
       return;
     }
 
+    // Dropping onto a connection in another folder moves it into that folder
     const newConnections = [...connections];
     const [draggedItem] = newConnections.splice(draggedIndex, 1);
-    newConnections.splice(targetIndex, 0, draggedItem);
+    newConnections.splice(targetIndex, 0, { ...draggedItem, folder: connections[targetIndex].folder });
 
     onReorderConnections(newConnections);
     setDraggedConnection(null);
@@ -196,6 +305,124 @@ function Sidebar({
   const handleDragEnd = () => {
     setDraggedConnection(null);
     setDragOverConnection(null);
+    setDragOverFolder(null);
+  };
+
+  const handleFolderDragOver = (e: React.DragEvent, path: string) => {
+    if (!draggedConnection) return;
+    e.preventDefault();
+    setDragOverFolder(path);
+  };
+
+  const handleFolderDrop = (e: React.DragEvent, path: string) => {
+    e.preventDefault();
+    if (draggedConnection) {
+      updateConnections(c => c.id === draggedConnection ? { ...c, folder: path } : c);
+    }
+    handleDragEnd();
+  };
+
+  const renderConnection = (conn: Connection, depth: number) => (
+    <div
+      key={conn.id}
+      className={`connection-item ${activeConnectionIds.includes(conn.id) ? 'active' : ''} ${selectedIds.includes(conn.id) ? 'selected' : ''} ${collapsed ? 'collapsed' : ''} ${dragOverConnection === conn.id ? 'drag-over' : ''} ${draggedConnection === conn.id ? 'dragging' : ''}`}
+      style={!collapsed && depth > 0 ? { paddingLeft: 10 + depth * 14 } : undefined}
+      onClick={(e) => handleConnectionClick(e, conn)}
+      onContextMenu={(e) => handleContextMenu(e, conn.id)}
+      title={collapsed ? `${conn.name}\n${maskUsername(conn.username, preferences?.hideUsernames)}@${maskIP(conn.host, preferences?.hideIPs)}` : undefined}
+      draggable={!collapsed && !!onReorderConnections}
+      onDragStart={(e) => handleDragStart(e, conn.id)}
+      onDragOver={(e) => handleDragOver(e, conn.id)}
+      onDragLeave={handleDragLeave}
+      onDrop={(e) => handleDrop(e, conn.id)}
+      onDragEnd={handleDragEnd}
+    >
+      {renderAvatar(conn)}
+      {!collapsed && (
+        <>
+          <div className="connection-details">
+            <span className="connection-name">{conn.name}</span>
+            <span className="connection-host">
+              {conn.protocol === 'telnet' && 'telnet://'}
+              {conn.username && `${maskUsername(conn.username, preferences?.hideUsernames)}@`}{maskIP(conn.host, preferences?.hideIPs)}
+            </span>
+            {conn.tags && conn.tags.length > 0 && (
+              <span className="connection-tags">
+                {conn.tags.map(tag => (
+                  <span key={tag} className="connection-tag" onClick={(e) => { e.stopPropagation(); setSearchTerm(tag); }}>{tag}</span>
+                ))}
+              </span>
+            )}
+          </div>
+          <div className="connection-actions">
+            {conn.protocol !== 'telnet' && (
+              <button
+                className="action-btn"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onConnect(conn, 'sftp');
+                }}
+                title="Open SFTP"
+              >
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M22 19a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h5l2 3h9a2 2 0 0 1 2 2z"></path>
+                </svg>
+              </button>
+            )}
+            <button
+              className="action-btn"
+              onClick={(e) => {
+                e.stopPropagation();
+                onEdit(conn);
+              }}
+              title="Edit"
+            >
+              <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7"></path>
+                <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z"></path>
+              </svg>
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+
+  // Folders are always expanded while filtering so matches stay visible
+  const renderFolder = (node: FolderNode<Connection>, depth: number): React.ReactNode => {
+    const isCollapsed = !searchTerm && collapsedFolders.includes(node.path);
+    return (
+      <div key={node.path} className="folder-group">
+        <div
+          className={`folder-header ${dragOverFolder === node.path ? 'drag-over' : ''}`}
+          style={{ paddingLeft: 10 + depth * 14 }}
+          onClick={() => toggleFolder(node.path)}
+          onContextMenu={(e) => {
+            e.preventDefault();
+            setContextMenu(null);
+            setFolderMenu({ path: node.path, x: e.clientX, y: e.clientY });
+          }}
+          onDragOver={(e) => handleFolderDragOver(e, node.path)}
+          onDragLeave={() => setDragOverFolder(null)}
+          onDrop={(e) => handleFolderDrop(e, node.path)}
+        >
+          <svg className={`folder-chevron ${isCollapsed ? '' : 'open'}`} width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <polyline points="9 18 15 12 9 6"></polyline>
+          </svg>
+          <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M22 19a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h5l2 3h9a2 2 0 0 1 2 2z"></path>
+          </svg>
+          <span className="folder-name">{node.name}</span>
+          <span className="folder-count">{countConnections(node)}</span>
+        </div>
+        {!isCollapsed && (
+          <>
+            {node.folders.map(child => renderFolder(child, depth + 1))}
+            {node.connections.map(conn => renderConnection(conn, depth + 1))}
+          </>
+        )}
+      </div>
+    );
   };
 
   return (
@@ -225,6 +452,25 @@ function Sidebar({
               </svg>
             </button>
           )}
+          {!collapsed && onImportSshConfig && (
+            <button className="home-btn" onClick={onImportSshConfig} title="Import from ~/.ssh/config">
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+                <polyline points="7 10 12 15 17 10"></polyline>
+                <line x1="12" y1="15" x2="12" y2="3"></line>
+              </svg>
+            </button>
+          )}
+          {!collapsed && onBulkImport && (
+            <button className="home-btn" onClick={onBulkImport} title="Import hosts from CSV, JSON or Ansible inventory">
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path>
+                <polyline points="14 2 14 8 20 8"></polyline>
+                <line x1="12" y1="18" x2="12" y2="12"></line>
+                <line x1="9" y1="15" x2="15" y2="15"></line>
+              </svg>
+            </button>
+          )}
           {!collapsed && (
             <button className="new-btn" onClick={onNewConnection} title="New Connection">
               <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -253,7 +499,7 @@ function Sidebar({
           </svg>
           <input
             type="text"
-            placeholder="Search hosts..."
+            placeholder="Filter by name, host or tag..."
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
           />
@@ -285,7 +531,7 @@ function Sidebar({
 
         {!collapsed && <div className="sidebar-divider"></div>}
 
-        {filteredConnections.length === 0 && !collapsed ? (
+        {connections.length === 0 && !collapsed ? (
           <div className="empty-state">
             <svg width="40" height="40" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
               <rect x="2" y="3" width="20" height="14" rx="2" ry="2"></rect>
@@ -294,60 +540,24 @@ function Sidebar({
             </svg>
             <p>No connections yet</p>
             <button onClick={onNewConnection}>Add your first host</button>
+            {onImportSshConfig && (
+              <button className="empty-state-link" onClick={onImportSshConfig}>or import from ~/.ssh/config</button>
+            )}
+            {onBulkImport && (
+              <button className="empty-state-link" onClick={onBulkImport}>or from a CSV, JSON or Ansible inventory file</button>
+            )}
+          </div>
+        ) : filteredConnections.length === 0 && !collapsed ? (
+          <div className="empty-state">
+            <p>No hosts match "{searchTerm}"</p>
           </div>
+        ) : collapsed ? (
+          filteredConnections.map((conn) => renderConnection(conn, 0))
         ) : (
-          filteredConnections.map((conn) => (
-            <div
-              key={conn.id}
-              className={`connection-item ${activeConnectionIds.includes(conn.id) ? 'active' : ''} ${collapsed ? 'collapsed' : ''} ${dragOverConnection === conn.id ? 'drag-over' : ''} ${draggedConnection === conn.id ? 'dragging' : ''}`}
-              onClick={() => onConnect(conn, 'terminal')}
-              onContextMenu={(e) => handleContextMenu(e, conn.id)}
-              title={collapsed ? `${conn.name}\n${maskUsername(conn.username, preferences?.hideUsernames)}@${maskIP(conn.host, preferences?.hideIPs)}` : undefined}
-              draggable={!collapsed && !!onReorderConnections}
-              onDragStart={(e) => handleDragStart(e, conn.id)}
-              onDragOver={(e) => handleDragOver(e, conn.id)}
-              onDragLeave={handleDragLeave}
-              onDrop={(e) => handleDrop(e, conn.id)}
-              onDragEnd={handleDragEnd}
-            >
-              {renderAvatar(conn)}
-              {!collapsed && (
-                <>
-                  <div className="connection-details">
-                    <span className="connection-name">{conn.name}</span>
-                    <span className="connection-host">{maskUsername(conn.username, preferences?.hideUsernames)}@{maskIP(conn.host, preferences?.hideIPs)}</span>
-                  </div>
-                  <div className="connection-actions">
-                    <button
-                      className="action-btn"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onConnect(conn, 'sftp');
-                      }}
-                      title="Open SFTP"
-                    >
-                      <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                        <path d="M22 19a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h5l2 3h9a2 2 0 0 1 2 2z"></path>
-                      </svg>
-                    </button>
-                    <button
-                      className="action-btn"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onEdit(conn);
-                      }}
-                      title="Edit"
-                    >
-                      <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                        <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7"></path>
-                        <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z"></path>
-                      </svg>
-                    </button>
-                  </div>
-                </>
-              )}
-            </div>
-          ))
+          <>
+            {folderTree.folders.map(folder => renderFolder(folder, 0))}
+            {folderTree.connections.map(conn => renderConnection(conn, 0))}
+          </>
         )}
       </div>
 
@@ -369,18 +579,20 @@ function Sidebar({
             </svg>
             Open Terminal
           </button>
-          <button
-            onClick={() => {
-              const conn = connections.find((c) => c.id === contextMenu.connectionId);
-              if (conn) onConnect(conn, 'sftp');
-              closeContextMenu();
-            }}
-          >
-            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-              <path d="M22 19a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h5l2 3h9a2 2 0 0 1 2 2z"></path>
-            </svg>
-            Open SFTP
-          </button>
+          {connections.find((c) => c.id === contextMenu.connectionId)?.protocol !== 'telnet' && (
+            <button
+              onClick={() => {
+                const conn = connections.find((c) => c.id === contextMenu.connectionId);
+                if (conn) onConnect(conn, 'sftp');
+                closeContextMenu();
+              }}
+            >
+              <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M22 19a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h5l2 3h9a2 2 0 0 1 2 2z"></path>
+              </svg>
+              Open SFTP
+            </button>
+          )}
           <div className="context-menu-divider" />
           <button
             onClick={() => {
@@ -408,6 +620,40 @@ function Sidebar({
             </svg>
             Edit Connection
           </button>
+          {onReorderConnections && (
+            <>
+              <button onClick={() => openGroupModal('folder', getContextTargets(contextMenu.connectionId))}>
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M22 19a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h5l2 3h9a2 2 0 0 1 2 2z"></path>
+                </svg>
+                Move to Folder...
+              </button>
+              <button onClick={() => openGroupModal('tags', getContextTargets(contextMenu.connectionId))}>
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M20.59 13.41l-7.17 7.17a2 2 0 0 1-2.83 0L2 12V2h10l8.59 8.59a2 2 0 0 1 0 2.82z"></path>
+                  <line x1="7" y1="7" x2="7.01" y2="7"></line>
+                </svg>
+                {getContextTargets(contextMenu.connectionId).length > 1 ? 'Add Tags...' : 'Edit Tags...'}
+              </button>
+            </>
+          )}
+          {onExportSshConfig && (
+            <button
+              onClick={() => {
+                onExportSshConfig(getContextTargets(contextMenu.connectionId));
+                closeContextMenu();
+              }}
+            >
+              <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+                <polyline points="17 8 12 3 7 8"></polyline>
+                <line x1="12" y1="3" x2="12" y2="15"></line>
+              </svg>
+              {getContextTargets(contextMenu.connectionId).length > 1
+                ? `Export ${getContextTargets(contextMenu.connectionId).length} as SSH Config`
+                : 'Export as SSH Config'}
+            </button>
+          )}
           <button
             className="danger"
             onClick={() => {
@@ -424,6 +670,93 @@ function Sidebar({
         </div>
       )}
 
+      {folderMenu && (
+        <div
+          className="context-menu"
+          style={{ top: folderMenu.y, left: folderMenu.x }}
+        >
+          <button
+            onClick={() => {
+              setGroupModal({ mode: 'renameFolder', ids: [], folder: folderMenu.path, value: folderMenu.path.split('/').pop() || '' });
+              setFolderMenu(null);
+            }}
+          >
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7"></path>
+              <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z"></path>
+            </svg>
+            Rename Folder...
+          </button>
+          <button className="danger" onClick={() => removeFolder(folderMenu.path)}>
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <polyline points="3 6 5 6 21 6"></polyline>
+              <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path>
+            </svg>
+            Remove Folder
+          </button>
+        </div>
+      )}
+
+      {/* Folder / Tags Modal */}
+      {groupModal && (
+        <div className="avatar-modal-overlay" onClick={() => setGroupModal(null)}>
+          <div className="avatar-modal group-modal" onClick={(e) => e.stopPropagation()}>
+            <div className="avatar-modal-header">
+              <h3>
+                {groupModal.mode === 'folder' ? 'Move to Folder' : groupModal.mode === 'tags' ? (groupModal.ids.length > 1 ? 'Add Tags' : 'Edit Tags') : 'Rename Folder'}
+              </h3>
+              <button className="modal-close" onClick={() => setGroupModal(null)}>
+                <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <line x1="18" y1="6" x2="6" y2="18"></line>
+                  <line x1="6" y1="6" x2="18" y2="18"></line>
+                </svg>
+              </button>
+            </div>
+
+            <div className="avatar-modal-body">
+              <div className="avatar-section">
+                <label>
+                  {groupModal.mode === 'folder' ? 'Folder' : groupModal.mode === 'tags' ? 'Tags' : 'Name'}
+                  {groupModal.ids.length > 1 && ` (${groupModal.ids.length} connections)`}
+                </label>
+                <input
+                  type="text"
+                  className="group-modal-input"
+                  value={groupModal.value}
+                  onChange={(e) => setGroupModal({ ...groupModal, value: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') saveGroupModal();
+                    if (e.key === 'Escape') setGroupModal(null);
+                  }}
+                  list={groupModal.mode === 'folder' ? 'sidebar-folder-paths' : undefined}
+                  placeholder={groupModal.mode === 'folder' ? 'e.g. Prod/EU - leave empty for no folder' : groupModal.mode === 'tags' ? 'e.g. env:prod, role:db' : 'Folder name'}
+                  autoFocus
+                />
+                <datalist id="sidebar-folder-paths">
+                  {folderPaths.map(path => <option key={path} value={path} />)}
+                </datalist>
+                <span className="group-modal-hint">
+                  {groupModal.mode === 'folder'
+                    ? 'Use / to nest folders.'
+                    : groupModal.mode === 'tags'
+                      ? 'Separate tags with commas or spaces.'
+                      : 'Subfolders move along with the folder.'}
+                </span>
+              </div>
+            </div>
+
+            <div className="avatar-modal-footer">
+              <button className="btn-secondary" onClick={() => setGroupModal(null)}>
+                Cancel
+              </button>
+              <button className="btn-primary" onClick={saveGroupModal} disabled={groupModal.mode === 'renameFolder' && !normalizeFolder(groupModal.value)}>
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Avatar Customization Modal */}
       {avatarModal && (
         <div className="avatar-modal-overlay" onClick={() => setAvatarModal(null)}>
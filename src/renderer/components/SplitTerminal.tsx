@@ -43,6 +43,20 @@ const SplitTerminal = forwardRef<SplitTerminalRef, SplitTerminalProps>(function
   const terminalRefs = useRef<Map<string, TerminalRef>>(new Map());
   const [resizing, setResizing] = useState<{ node: SplitNode; index: number } | null>(null);
 
+  // Broadcast input (like tmux synchronize-panes): input typed in one pane is written to every
+  // other pane that has not excluded itself
+  const [broadcast, setBroadcast] = useState(false);
+  const [excludedPanes, setExcludedPanes] = useState<string[]>([]);
+  const isBroadcasting = broadcast && panes.length > 1;
+
+  // Closing down to a single pane ends the broadcast, so a later split does not resume it unnoticed
+  useEffect(() => {
+    if (panes.length <= 1) {
+      setBroadcast(false);
+      setExcludedPanes([]);
+    }
+  }, [panes.length]);
+
   // Expose sendCommand method via ref - sends to first available terminal
   useImperativeHandle(ref, () => ({
     sendCommand: (command: string) => {
@@ -148,6 +162,7 @@ const SplitTerminal = forwardRef<SplitTerminalRef, SplitTerminalProps>(function
 
       // Remove the pane from panes array
       setPanes(prev => prev.filter(p => p.id !== paneId));
+      setExcludedPanes(prev => prev.filter(id => id !== paneId));
 
       // Update active pane if needed
       if (activePane === paneId) {
@@ -160,6 +175,24 @@ const SplitTerminal = forwardRef<SplitTerminalRef, SplitTerminalProps>(function
     }
   }, [root, activePane]);
 
+  const toggleBroadcast = useCallback(() => {
+    setBroadcast(prev => !prev);
+    setExcludedPanes([]);
+  }, []);
+
+  const togglePaneExcluded = useCallback((paneId: string) => {
+    setExcludedPanes(prev => prev.includes(paneId) ? prev.filter(id => id !== paneId) : [...prev, paneId]);
+  }, []);
+
+  const mirrorInput = (sourcePaneId: string, data: string) => {
+    if (!isBroadcasting || excludedPanes.includes(sourcePaneId)) return;
+    panes.forEach(pane => {
+      if (pane.id !== sourcePaneId && !excludedPanes.includes(pane.id)) {
+        terminalRefs.current.get(pane.id)?.sendCommand(data);
+      }
+    });
+  };
+
   // Handle resize
   const handleResizeStart = useCallback((node: SplitNode, index: number, e: React.MouseEvent) => {
     e.preventDefault();
@@ -240,11 +273,16 @@ const SplitTerminal = forwardRef<SplitTerminalRef, SplitTerminalProps>(function
         e.preventDefault();
         closePane(activePane);
       }
+      // Ctrl+Shift+B: Toggle broadcast input, only in the tab being typed in
+      if ((e.ctrlKey || e.metaKey) && e.shiftKey && (e.key === 'B' || e.key === 'b') && containerRef.current?.contains(document.activeElement)) {
+        e.preventDefault();
+        toggleBroadcast();
+      }
     };
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [activePane, splitPane, closePane]);
+  }, [activePane, splitPane, closePane, toggleBroadcast]);
 
   // Calculate layout bounds for each pane from the tree structure
   const calculatePaneLayouts = useCallback((node: SplitNode, bounds: { left: number; top: number; width: number; height: number }): Map<string, { left: number; top: number; width: number; height: number }> => {
@@ -302,15 +340,39 @@ const SplitTerminal = forwardRef<SplitTerminalRef, SplitTerminalProps>(function
   const renderLayoutNode = (node: SplitNode): React.ReactNode => {
     if (node.type === 'leaf' && node.paneId) {
       const isActive = activePane === node.paneId;
+      const isExcluded = excludedPanes.includes(node.paneId);
       return (
         <div
-          className={`split-pane ${isActive ? 'active' : ''}`}
+          className={`split-pane ${isActive ? 'active' : ''} ${isBroadcasting && !isExcluded ? 'broadcasting' : ''}`}
           onClick={() => setActivePane(node.paneId!)}
           data-pane-id={node.paneId}
         >
           <div className="pane-header">
-            <span className="pane-title">Terminal</span>
+            <span className="pane-title">
+              Terminal
+              {isBroadcasting && (
+                <button
+                  className={`pane-broadcast-badge ${isExcluded ? 'excluded' : ''}`}
+                  onClick={(e) => { e.stopPropagation(); togglePaneExcluded(node.paneId!); }}
+                  title={isExcluded ? 'Not receiving broadcast input - click to rejoin' : 'Receiving broadcast input - click to exclude this pane'}
+                >
+                  {isExcluded ? 'Excluded' : 'Broadcast'}
+                </button>
+              )}
+            </span>
             <div className="pane-actions">
+              {panes.length > 1 && (
+                <button
+                  className={`pane-action ${broadcast ? 'broadcast-on' : ''}`}
+                  onClick={(e) => { e.stopPropagation(); toggleBroadcast(); }}
+                  title={broadcast ? 'Stop Broadcasting Input (Ctrl+Shift+B)' : 'Broadcast Input to All Panes (Ctrl+Shift+B)'}
+                >
+                  <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <circle cx="12" cy="12" r="2"/>
+                    <path d="M16.24 7.76a6 6 0 0 1 0 8.49m-8.48-.01a6 6 0 0 1 0-8.49m11.31-2.82a10 10 0 0 1 0 14.14m-14.14 0a10 10 0 0 1 0-14.14"/>
+                  </svg>
+                </button>
+              )}
               <button
                 className="pane-action"
                 onClick={(e) => { e.stopPropagation(); splitPane(node.paneId!, 'horizontal'); }}
@@ -410,6 +472,7 @@ const SplitTerminal = forwardRef<SplitTerminalRef, SplitTerminalProps>(function
                 }}
                 connectionId={pane.connectionId}
                 initialPath={pane.initialPath}
+                onInput={(data) => mirrorInput(pane.id, data)}
               />
             </div>
           );
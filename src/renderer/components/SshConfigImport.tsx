@@ -0,0 +1,199 @@
+import { useState, useEffect } from 'react';
+import { Connection, SshConfigImportEntry } from '../types/electron';
+import './SshConfigImport.css';
+
+interface SshConfigImportProps {
+  isOpen: boolean;
+  onClose: () => void;
+  connections: Connection[];
+  onImported: (connections: Connection[]) => void;
+}
+
+function SshConfigImport({ isOpen, onClose, connections, onImported }: SshConfigImportProps) {
+  const [filePath, setFilePath] = useState('');
+  const [entries, setEntries] = useState<SshConfigImportEntry[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadConfig = async (path?: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await window.electronAPI.sshConfigParse(path);
+      setFilePath(result.filePath);
+      setEntries(result.entries);
+      // Preselect hosts that aren't already saved; ProxyJump-only hops come along when needed
+      setSelected(new Set(
+        result.entries.filter(e => !e.duplicateOf && !e.viaProxyJump).map(e => e.connection.id)
+      ));
+      if (!result.success) {
+        setError(result.error || 'Failed to read SSH config');
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to read SSH config');
+    }
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      loadConfig();
+    }
+  }, [isOpen]);
+
+  const handleChooseFile = async () => {
+    const paths = await window.electronAPI.openFileDialog();
+    if (paths && paths.length > 0) {
+      loadConfig(paths[0]);
+    }
+  };
+
+  const toggleEntry = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    const hostEntries = entries.filter(e => !e.viaProxyJump);
+    const allSelected = hostEntries.every(e => selected.has(e.connection.id));
+    setSelected(allSelected ? new Set() : new Set(hostEntries.map(e => e.connection.id)));
+  };
+
+  // Selected entries plus any imported jump hosts they depend on (transitively)
+  const getEntriesToImport = (): Connection[] => {
+    const byId = new Map(entries.map(e => [e.connection.id, e.connection]));
+    const ids = new Set(selected);
+    const queue = [...ids];
+    while (queue.length > 0) {
+      const conn = byId.get(queue.shift()!);
+      for (const hopId of conn?.jumpHosts || []) {
+        if (byId.has(hopId) && !ids.has(hopId)) {
+          ids.add(hopId);
+          queue.push(hopId);
+        }
+      }
+    }
+    return entries.filter(e => ids.has(e.connection.id)).map(e => e.connection);
+  };
+
+  const handleImport = async () => {
+    const toImport = getEntriesToImport();
+    if (toImport.length === 0) return;
+
+    setIsSaving(true);
+    try {
+      const saved = await window.electronAPI.saveAllConnections([...connections, ...toImport]);
+      onImported(saved);
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save connections');
+    }
+    setIsSaving(false);
+  };
+
+  const hopName = (id: string) =>
+    entries.find(e => e.connection.id === id)?.connection.name
+    || connections.find(c => c.id === id)?.name
+    || id;
+
+  if (!isOpen) return null;
+
+  const importCount = getEntriesToImport().length;
+
+  return (
+    <div className="ssh-import-overlay" onClick={onClose}>
+      <div className="ssh-import-modal" onClick={e => e.stopPropagation()}>
+        <div className="ssh-import-header">
+          <div className="header-title">
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+              <polyline points="7 10 12 15 17 10"></polyline>
+              <line x1="12" y1="15" x2="12" y2="3"></line>
+            </svg>
+            <span>Import from SSH Config</span>
+          </div>
+          <button className="close-btn" onClick={onClose}>
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"></line>
+              <line x1="6" y1="6" x2="18" y2="18"></line>
+            </svg>
+          </button>
+        </div>
+
+        <div className="ssh-import-file">
+          <span className="ssh-import-path" title={filePath}>{filePath}</span>
+          <button onClick={handleChooseFile}>Choose File...</button>
+        </div>
+
+        <div className="ssh-import-body">
+          {error && <div className="ssh-import-error">{error}</div>}
+
+          {isLoading ? (
+            <div className="ssh-import-empty">Reading config...</div>
+          ) : entries.length === 0 ? (
+            !error && <div className="ssh-import-empty">No Host entries found</div>
+          ) : (
+            <>
+              <label className="ssh-import-select-all">
+                <input
+                  type="checkbox"
+                  checked={entries.filter(e => !e.viaProxyJump).every(e => selected.has(e.connection.id))}
+                  onChange={toggleAll}
+                />
+                Select all
+              </label>
+              <div className="ssh-import-list">
+                {entries.map(({ connection: conn, duplicateOf, viaProxyJump }) => (
+                  <label
+                    key={conn.id}
+                    className={`ssh-import-item ${duplicateOf ? 'duplicate' : ''} ${viaProxyJump ? 'hop' : ''}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selected.has(conn.id)}
+                      onChange={() => toggleEntry(conn.id)}
+                    />
+                    <div className="ssh-import-info">
+                      <span className="ssh-import-name">
+                        {conn.name}
+                        {duplicateOf && <span className="ssh-import-badge duplicate">Duplicate of {duplicateOf}</span>}
+                        {viaProxyJump && <span className="ssh-import-badge">Jump host</span>}
+                      </span>
+                      <span className="ssh-import-details">
+                        {conn.username}@{conn.host}{conn.port !== 22 ? `:${conn.port}` : ''}
+                        {' · '}
+                        {conn.privateKey ? conn.privateKey : 'SSH agent'}
+                      </span>
+                      {conn.jumpHosts && conn.jumpHosts.length > 0 && (
+                        <span className="ssh-import-details">via {conn.jumpHosts.map(hopName).join(' → ')}</span>
+                      )}
+                    </div>
+                  </label>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="ssh-import-footer">
+          <span className="ssh-import-hint">Jump hosts used by selected entries are imported with them.</span>
+          <button className="btn-secondary" onClick={onClose}>Cancel</button>
+          <button className="btn-primary" onClick={handleImport} disabled={importCount === 0 || isSaving}>
+            {isSaving ? 'Importing...' : `Import ${importCount} Connection${importCount === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SshConfigImport;
@@ -3,6 +3,8 @@ import { Terminal as XTerm } from '@xterm/xterm';
 import { FitAddon } from '@xterm/addon-fit';
 import { SearchAddon } from '@xterm/addon-search';
 import { v4 as uuidv4 } from 'uuid';
+import { ConnectionStatus } from '../types/electron';
+import { getConnectionStateLabel } from '../utils/connectionState';
 import '@xterm/xterm/css/xterm.css';
 import './Terminal.css';
 
@@ -15,13 +17,29 @@ interface CommandShortcut {
 interface TerminalProps {
   connectionId: string;
   initialPath?: string;
+  onInput?: (data: string) => void; // Typed or pasted input, e.g. to mirror into other panes
 }
 
 export interface TerminalRef {
   sendCommand: (command: string) => void;
 }
 
-const Terminal = forwardRef<TerminalRef, TerminalProps>(function Terminal({ connectionId, initialPath }, ref) {
+// Replies xterm sends on its own (device attributes, cursor position, focus, mouse and OSC/DCS
+// reports). They describe this terminal, so they are not passed to onInput.
+const TERMINAL_REPORT = /^(?:\x1b\[[?>=]?[\d;$]*[cnRIOy]|\x1b\[M[\s\S]{3}|\x1b\[<[\d;]+[Mm]|\x1b[P\]][\s\S]*(?:\x07|\x1b\\))$/;
+
+// Dim yellow rule written into the scrollback around a connection drop
+const gapMarker = (text: string) => `\r\n\x1b[2;33m──── ${text} ────\x1b[0m\r\n`;
+
+function formatGap(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+const Terminal = forwardRef<TerminalRef, TerminalProps>(function Terminal({ connectionId, initialPath, onInput }, ref) {
   const containerRef = useRef<HTMLDivElement>(null);
   const terminalRef = useRef<HTMLDivElement>(null);
   const xtermRef = useRef<XTerm | null>(null);
@@ -29,11 +47,27 @@ const Terminal = forwardRef<TerminalRef, TerminalProps>(function Terminal({ conn
   const searchAddonRef = useRef<SearchAddon | null>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
   const shellIdRef = useRef<string | null>(null); // Unique shell ID for this terminal instance
+  const onInputRef = useRef(onInput);
+  onInputRef.current = onInput;
   const [isReady, setIsReady] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [shellClosed, setShellClosed] = useState(false);
   const [isReconnecting, setIsReconnecting] = useState(false);
 
+  // Resume after a connection drop: the shell is reopened in this pane once the connection
+  // manager reports the connection ready again
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus | undefined>();
+  const [droppedAt, setDroppedAt] = useState<number | null>(null);
+  const isResumingRef = useRef(false);
+  const cwdRef = useRef<string | null>(null); // Last working directory reported by the shell
+  const sessionNameRef = useRef(`nicessh-${uuidv4().slice(0, 8)}`); // tmux/screen session for this pane
+
+  // Session recording: main writes this pane's output to an asciicast file until stopped.
+  // The recording follows the pane across resumes and ends when the shell does.
+  const [recording, setRecording] = useState<{ id: string; startedAt: number } | null>(null);
+  const recordingRef = useRef<{ id: string; startedAt: number } | null>(null);
+  const [recordingElapsed, setRecordingElapsed] = useState(0);
+
   // Search state
   const [showSearch, setShowSearch] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
@@ -87,9 +121,17 @@ const Terminal = forwardRef<TerminalRef, TerminalProps>(function Terminal({ conn
     localStorage.setItem('globalCommandShortcuts', JSON.stringify(updated));
   };
 
+  // Input from the user (keys, pastes, shortcuts), as opposed to writes from other panes
+  const sendInput = (data: string) => {
+    if (shellIdRef.current) {
+      window.electronAPI.write(shellIdRef.current, data);
+      onInputRef.current?.(data);
+    }
+  };
+
   const executeShortcut = (command: string) => {
-    if (xtermRef.current && shellIdRef.current) {
-      window.electronAPI.write(shellIdRef.current, command + '\n');
+    if (xtermRef.current) {
+      sendInput(command + '\n');
     }
     setShowCommandMenu(false);
   };
@@ -178,6 +220,25 @@ const Terminal = forwardRef<TerminalRef, TerminalProps>(function Terminal({ conn
 
     term.open(terminalRef.current);
 
+    // Track the working directory for resume: OSC 7 (file://host/path) from shell integration,
+    // or a "user@host: dir" window title as set by the default bash prompt on most distros.
+    // Returning false lets xterm's own handlers still see the sequence.
+    term.parser.registerOscHandler(7, (data) => {
+      try {
+        cwdRef.current = decodeURIComponent(new URL(data).pathname) || cwdRef.current;
+      } catch (e) {
+        // Not a file:// URL
+      }
+      return false;
+    });
+    const trackTitle = (data: string) => {
+      const match = data.match(/^[^\s:@]+@[^\s:]+:\s*(~.*|\/.*)$/);
+      if (match) cwdRef.current = match[1];
+      return false;
+    };
+    term.parser.registerOscHandler(0, trackTitle);
+    term.parser.registerOscHandler(2, trackTitle);
+
     // Custom key handler for Ctrl+Shift+C (copy) and Ctrl+Shift+V (paste)
     term.attachCustomKeyEventHandler((e: KeyboardEvent) => {
       // Only handle keydown events
@@ -185,13 +246,17 @@ const Terminal = forwardRef<TerminalRef, TerminalProps>(function Terminal({ conn
 
       const isCtrlOrCmd = e.ctrlKey || e.metaKey;
 
-      // Let app-level shortcuts pass through (Ctrl+Shift+M/H/T, Ctrl+K, Ctrl+,)
-      if (isCtrlOrCmd && e.shiftKey && (e.key === 'M' || e.key === 'm' || e.key === 'H' || e.key === 'h' || e.key === 'T' || e.key === 't')) {
+      // Let app-level shortcuts pass through (Ctrl+Shift+M/H/T/L, Ctrl+K, Ctrl+,)
+      if (isCtrlOrCmd && e.shiftKey && (e.key === 'M' || e.key === 'm' || e.key === 'H' || e.key === 'h' || e.key === 'T' || e.key === 't' || e.key === 'L' || e.key === 'l')) {
         return true; // Let it bubble up to App.tsx
       }
       if (isCtrlOrCmd && (e.key === 'k' || e.key === 'K' || e.key === ',')) {
         return true; // Let it bubble up to App.tsx
       }
+      // Ctrl+Shift+B toggles broadcast input in SplitTerminal - keep ^B (the tmux prefix) out of the shell
+      if (isCtrlOrCmd && e.shiftKey && (e.key === 'B' || e.key === 'b')) {
+        return false;
+      }
       const isKeyC = e.code === 'KeyC' || e.key === 'c' || e.key === 'C';
 
       // Ctrl+Shift+C - Copy selected text (including multi-line)
@@ -217,8 +282,8 @@ const Terminal = forwardRef<TerminalRef, TerminalProps>(function Terminal({ conn
         e.preventDefault();
         e.stopPropagation();
         navigator.clipboard.readText().then(text => {
-          if (text && shellIdRef.current) {
-            window.electronAPI.write(shellIdRef.current, text);
+          if (text) {
+            sendInput(text);
           }
         }).catch(err => {
           console.error('Failed to paste:', err);
@@ -282,6 +347,9 @@ const Terminal = forwardRef<TerminalRef, TerminalProps>(function Terminal({ conn
       // Only write if shell is ready
       if (shellIdRef.current) {
         window.electronAPI.write(shellIdRef.current, data);
+        if (!TERMINAL_REPORT.test(data)) {
+          onInputRef.current?.(data);
+        }
       }
 
       // Track command input
@@ -305,6 +373,10 @@ const Terminal = forwardRef<TerminalRef, TerminalProps>(function Terminal({ conn
       if (resizeTimer) clearTimeout(resizeTimer);
       window.removeEventListener('resize', debouncedResize);
       resizeObserver.disconnect();
+      if (recordingRef.current) {
+        window.electronAPI.recordingStop(recordingRef.current.id);
+        recordingRef.current = null;
+      }
       // Close the shell session when terminal is disposed
       if (shellIdRef.current) {
         window.electronAPI.shellClose(shellIdRef.current);
@@ -314,12 +386,24 @@ const Terminal = forwardRef<TerminalRef, TerminalProps>(function Terminal({ conn
     };
   }, [connectionId]);
 
-  const initializeShell = async () => {
+  const initializeShell = async (resume = false) => {
     try {
       // Request a new shell session with a unique ID
-      const result = await window.electronAPI.shell(connectionId);
+      // Main changes to initialPath (or the connection's default directory) and runs its
+      // startup script once the prompt is up. A resumed shell goes back to the last known
+      // directory and reattaches this pane's tmux/screen session, if the connection uses one.
+      const result = await window.electronAPI.shell(connectionId, undefined, {
+        initialPath: resume ? cwdRef.current || initialPath : initialPath,
+        cols: xtermRef.current?.cols,
+        rows: xtermRef.current?.rows,
+        sessionName: sessionNameRef.current,
+        resume,
+      });
       shellIdRef.current = result.shellId;
       setIsReady(true);
+      if (recordingRef.current) {
+        window.electronAPI.recordingAttach(recordingRef.current.id, result.shellId);
+      }
 
       // Listen for data from this specific shell
       const removeDataListener = window.electronAPI.onData(result.shellId, (data) => {
@@ -329,11 +413,16 @@ const Terminal = forwardRef<TerminalRef, TerminalProps>(function Terminal({ conn
       });
 
       // Listen for shell close
-      const removeCloseListener = window.electronAPI.onClose(result.shellId, () => {
+      const removeCloseListener = window.electronAPI.onClose(result.shellId, ({ reason }) => {
+        shellIdRef.current = null;
+        if (reason === 'dropped') {
+          xtermRef.current?.write(gapMarker(`Connection lost at ${new Date().toLocaleTimeString()}`));
+          setDroppedAt(Date.now());
+          return;
+        }
         if (xtermRef.current) {
           xtermRef.current.write('\r\n\x1b[31mShell closed.\x1b[0m\r\n');
         }
-        shellIdRef.current = null;
         setShellClosed(true);
       });
 
@@ -347,15 +436,6 @@ const Terminal = forwardRef<TerminalRef, TerminalProps>(function Terminal({ conn
         );
       }
 
-      // Send initial cd command if path provided
-      if (initialPath && initialPath !== '/') {
-        setTimeout(() => {
-          if (shellIdRef.current) {
-            window.electronAPI.write(shellIdRef.current, `cd "${initialPath}"\n`);
-          }
-        }, 500); // Wait for shell prompt to be ready
-      }
-
       return () => {
         removeDataListener();
         removeCloseListener();
@@ -365,12 +445,57 @@ const Terminal = forwardRef<TerminalRef, TerminalProps>(function Terminal({ conn
     }
   };
 
+  const resumeShell = async () => {
+    if (isResumingRef.current || droppedAt === null) return;
+    isResumingRef.current = true;
+    setShellClosed(false);
+    setError(null);
+    try {
+      await initializeShell(true);
+      if (shellIdRef.current) {
+        xtermRef.current?.write(gapMarker(`Reconnected at ${new Date().toLocaleTimeString()} after ${formatGap(Date.now() - droppedAt)}`));
+        setDroppedAt(null);
+      } else {
+        setShellClosed(true);
+      }
+    } finally {
+      isResumingRef.current = false;
+    }
+  };
+
+  // Follow the connection manager: resume when the connection is back, give up when it's lost
+  useEffect(() => {
+    window.electronAPI.getConnectionStates().then((statuses) => {
+      setConnectionStatus(prev => prev || statuses.find(s => s.connectionId === connectionId));
+    });
+    return window.electronAPI.onConnectionState((status) => {
+      if (status.connectionId === connectionId) {
+        setConnectionStatus(status.state === 'disconnected' ? undefined : status);
+      }
+    });
+  }, [connectionId]);
+
+  useEffect(() => {
+    if (droppedAt === null) return;
+    if (connectionStatus?.state === 'ready' || connectionStatus?.state === 'degraded') {
+      resumeShell();
+    } else if (connectionStatus?.state === 'lost') {
+      setShellClosed(true);
+    }
+  }, [droppedAt, connectionStatus]);
+
   const handleReconnect = async () => {
     setIsReconnecting(true);
     setShellClosed(false);
     setError(null);
 
     try {
+      // A dropped shell resumes in place; the connection is reopened on the way
+      if (droppedAt !== null) {
+        await resumeShell();
+        return;
+      }
+
       // Clear the terminal before reconnecting
       if (xtermRef.current) {
         xtermRef.current.write('\r\n\x1b[33mReconnecting...\x1b[0m\r\n');
@@ -385,6 +510,37 @@ const Terminal = forwardRef<TerminalRef, TerminalProps>(function Terminal({ conn
     }
   };
 
+  const startRecording = async () => {
+    if (!shellIdRef.current || !xtermRef.current || recordingRef.current) return;
+    const result = await window.electronAPI.recordingStart(shellIdRef.current, connectionId, xtermRef.current.cols, xtermRef.current.rows);
+    if (result.success && result.recordingId) {
+      recordingRef.current = { id: result.recordingId, startedAt: Date.now() };
+      setRecording(recordingRef.current);
+    } else {
+      setError(result.error || 'Failed to start recording');
+    }
+  };
+
+  const stopRecording = useCallback(async () => {
+    const current = recordingRef.current;
+    if (!current) return;
+    recordingRef.current = null;
+    setRecording(null);
+    await window.electronAPI.recordingStop(current.id);
+  }, []);
+
+  // Nothing left to record once the shell has ended for good
+  useEffect(() => {
+    if (shellClosed) stopRecording();
+  }, [shellClosed, stopRecording]);
+
+  useEffect(() => {
+    if (!recording) return;
+    setRecordingElapsed(0);
+    const timer = setInterval(() => setRecordingElapsed(Date.now() - recording.startedAt), 1000);
+    return () => clearInterval(timer);
+  }, [recording]);
+
   // Close context menu on click outside
   useEffect(() => {
     const handleClick = () => setShowCommandMenu(false);
@@ -463,8 +619,8 @@ const Terminal = forwardRef<TerminalRef, TerminalProps>(function Terminal({ conn
   // Paste from clipboard to terminal
   const pasteToTerminal = useCallback(() => {
     navigator.clipboard.readText().then(text => {
-      if (text && shellIdRef.current) {
-        window.electronAPI.write(shellIdRef.current, text);
+      if (text) {
+        sendInput(text);
       }
     }).catch(err => {
       console.error('Failed to paste:', err);
@@ -542,7 +698,7 @@ const Terminal = forwardRef<TerminalRef, TerminalProps>(function Terminal({ conn
           e.stopPropagation();
           navigator.clipboard.readText().then(text => {
             if (text) {
-              window.electronAPI.write(shellIdRef.current!, text);
+              sendInput(text);
             }
           });
         }
@@ -634,6 +790,15 @@ const Terminal = forwardRef<TerminalRef, TerminalProps>(function Terminal({ conn
           <span>Starting shell...</span>
         </div>
       )}
+      {droppedAt !== null && !shellClosed && (
+        <div className="terminal-resume-banner">
+          <div className="loading-spinner-small"></div>
+          <span>{getConnectionStateLabel(connectionStatus)} The session will resume here.</span>
+          <button onClick={() => window.electronAPI.connect(connectionId).catch(() => {})}>
+            Retry now
+          </button>
+        </div>
+      )}
       {shellClosed && (
         <div className="terminal-reconnect-overlay">
           <div className="reconnect-content">
@@ -642,7 +807,9 @@ const Terminal = forwardRef<TerminalRef, TerminalProps>(function Terminal({ conn
               <line x1="12" y1="2" x2="12" y2="12"></line>
             </svg>
             <span className="reconnect-title">Shell Disconnected</span>
-            <span className="reconnect-subtitle">The shell session has ended</span>
+            <span className="reconnect-subtitle">
+              {droppedAt !== null ? getConnectionStateLabel(connectionStatus) : 'The shell session has ended'}
+            </span>
             <button
               className="reconnect-btn"
               onClick={handleReconnect}
@@ -667,6 +834,12 @@ const Terminal = forwardRef<TerminalRef, TerminalProps>(function Terminal({ conn
           </div>
         </div>
       )}
+      {recording && (
+        <button className="terminal-recording-badge" onClick={stopRecording} title="Stop recording">
+          <span className="recording-dot"></span>
+          REC {formatGap(recordingElapsed)}
+        </button>
+      )}
       <div ref={terminalRef} className="terminal-view" onContextMenu={handleContextMenu} />
 
       {/* Context Menu */}
@@ -696,6 +869,35 @@ const Terminal = forwardRef<TerminalRef, TerminalProps>(function Terminal({ conn
             </svg>
             Paste
           </button>
+          <button
+            onClick={() => {
+              if (recording) {
+                stopRecording();
+              } else {
+                startRecording();
+              }
+              setShowCommandMenu(false);
+            }}
+            disabled={!recording && !isReady}
+          >
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              {recording ? (
+                <rect x="6" y="6" width="12" height="12" rx="1"></rect>
+              ) : (
+                <circle cx="12" cy="12" r="6"></circle>
+              )}
+            </svg>
+            {recording ? 'Stop Recording' : 'Start Recording'}
+          </button>
+          <button onClick={() => {
+            window.electronAPI.sessionLogShowFolder(connectionId);
+            setShowCommandMenu(false);
+          }}>
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M22 19a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h5l2 3h9a2 2 0 0 1 2 2z"></path>
+            </svg>
+            Open Log Folder
+          </button>
           <div className="context-menu-divider"></div>
           <button onClick={() => openSaveDialog()}>
             <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -8,6 +8,7 @@ interface Connection {
   host: string;
   port: number;
   username: string;
+  protocol?: 'ssh' | 'telnet';
   avatarIcon?: string;
   avatarColor?: string;
 }
@@ -40,8 +41,8 @@ function TunnelManager({
 
   const localPortRef = useRef<HTMLInputElement>(null);
 
-  // Get connected servers
-  const connectedServers = connections.filter(c => activeConnectionIds.includes(c.id));
+  // Get connected servers; port forwarding needs SSH
+  const connectedServers = connections.filter(c => activeConnectionIds.includes(c.id) && c.protocol !== 'telnet');
 
   // Load tunnels
   const loadTunnels = async () => {
@@ -0,0 +1,71 @@
+import { useState, useEffect } from 'react';
+import { VaultUnlockPromptRequest } from '../types/electron';
+import './KeyUnlockDialog.css';
+
+interface VaultUnlockDialogProps {
+  request: VaultUnlockPromptRequest;
+  onSubmit: (masterPassword?: string) => void;
+  onCancel: () => void;
+}
+
+function VaultUnlockDialog({ request, onSubmit, onCancel }: VaultUnlockDialogProps) {
+  const [masterPassword, setMasterPassword] = useState('');
+  const needsPassword = request.mode === 'master';
+
+  useEffect(() => {
+    setMasterPassword('');
+  }, [request.requestId]);
+
+  const handleSubmit = () => {
+    if (needsPassword && !masterPassword) return;
+    onSubmit(needsPassword ? masterPassword : undefined);
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content key-unlock-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>Unlock Credential Vault</h3>
+          <button className="modal-close" onClick={onCancel}>
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"></line>
+              <line x1="6" y1="6" x2="18" y2="18"></line>
+            </svg>
+          </button>
+        </div>
+        <div className="modal-body">
+          <p className="key-unlock-info">
+            Saved passwords are locked. {needsPassword
+              ? 'Enter your master password to use them.'
+              : 'Unlock the vault to use them.'}
+          </p>
+          {needsPassword && (
+            <div className="form-group">
+              <label>Master Password</label>
+              <input
+                type="password"
+                value={masterPassword}
+                onChange={(e) => setMasterPassword(e.target.value)}
+                placeholder="Enter master password"
+                autoFocus
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleSubmit();
+                  if (e.key === 'Escape') onCancel();
+                }}
+              />
+              {request.error && <span className="key-unlock-error">{request.error}</span>}
+            </div>
+          )}
+        </div>
+        <div className="modal-footer">
+          <button className="btn-secondary" onClick={onCancel}>Cancel</button>
+          <button className="btn-primary" onClick={handleSubmit} disabled={needsPassword && !masterPassword} autoFocus={!needsPassword}>
+            Unlock
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default VaultUnlockDialog;
@@ -4,10 +4,70 @@ export interface Connection {
   host: string;
   port: number;
   username: string;
-  password?: string;
+  protocol?: 'ssh' | 'telnet'; // Defaults to 'ssh'
+  password?: string; // Only set when entering a new password - saved ones live in the vault
+  passwordSecretId?: string;
   privateKey?: string;
+  certificate?: string; // OpenSSH certificate for privateKey (e.g. id_ed25519-cert.pub)
   avatarIcon?: string;
   avatarColor?: string;
+  jumpHosts?: string[]; // IDs of saved connections to hop through, in order
+  authMethod?: 'password' | 'key' | 'agent' | 'multiple'; // Defaults to 'key' when privateKey is set, else 'password'
+  authMethods?: AuthMethodEntry[]; // Tried in order when authMethod is 'multiple'
+  agentPath?: string; // Agent socket/pipe; falls back to SSH_AUTH_SOCK
+  agentForward?: boolean;
+  totpSecret?: string; // Base32 secret; auto-answers "Verification code" prompts
+  totpSecretId?: string;
+  folder?: string; // Sidebar folder path, nested with '/' (e.g. "Prod/EU")
+  tags?: string[]; // Free-form labels such as env:prod or role:db
+  advanced?: AdvancedSettings;
+  proxy?: ProxySettings; // Unset = default proxy from Preferences, type 'none' = direct
+  proxyPassword?: string; // Only set when entering a new password - saved ones live in the vault
+  proxyPasswordSecretId?: string;
+  env?: Record<string, string>;
+  startupScript?: string;
+  defaultDirectory?: string;
+  persistentSession?: 'tmux' | 'screen';
+  sessionLog?: SessionLogSettings; // Unset = no session logging
+}
+
+// One step of an ordered auth list; password and agent use the connection's own settings
+export type AuthMethodEntry =
+  | { type: 'key'; privateKey: string; certificate?: string }
+  | { type: 'agent' }
+  | { type: 'password' }
+  | { type: 'keyboard-interactive' };
+
+// Plain-text logging of terminal output (ANSI stripped), one file per terminal with rotation
+export interface SessionLogSettings {
+  timestamps?: boolean; // Prefix each line with its time
+  maxSizeMB?: number; // Start a new file past this size (default 10)
+  maxAgeHours?: number; // Start a new file once the current one is this old
+}
+
+// Per-connection transport tuning; algorithm lists use OpenSSH syntax (+append, -remove, ^prepend)
+export interface AdvancedSettings {
+  kexAlgorithms?: string;
+  ciphers?: string;
+  macs?: string;
+  hostKeyAlgorithms?: string;
+  compression?: boolean;
+  keepaliveInterval?: number; // Seconds, 0 disables keepalives
+  keepaliveCountMax?: number;
+  readyTimeout?: number; // Seconds
+}
+
+export interface ProxySettings {
+  type: 'none' | 'socks5' | 'http';
+  host: string;
+  port: number;
+  username?: string;
+}
+
+// Default proxy as configured in Preferences
+export interface DefaultProxy extends ProxySettings {
+  password?: string; // Only set when entering a new password
+  passwordSecretId?: string;
 }
 
 export interface FileInfo {
@@ -36,6 +96,16 @@ export interface PackageShortcut {
   category: 'container' | 'runtime' | 'tool' | 'custom';
 }
 
+// Program a Local Console tab runs
+export interface LocalProfile {
+  id: string;
+  name: string;
+  command?: string; // Empty for the default shell ($SHELL, or cmd.exe on Windows)
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string; // Starting folder unless one was saved from the console; ~ is expanded
+}
+
 export interface CommandResult {
   stdout: string;
   stderr: string;
@@ -49,6 +119,180 @@ export interface TabGroup {
   collapsed: boolean;
 }
 
+export interface PassphrasePromptRequest {
+  requestId: string;
+  connectionName: string;
+  keyPath: string;
+  error?: string; // Set when a previous attempt was wrong
+  canStore: boolean; // OS-level encryption (safeStorage) is available
+  canRemember?: boolean; // false during a connection test - the passphrase is used once
+}
+
+export interface PassphrasePromptResponse {
+  passphrase: string;
+  remember: 'none' | 'session' | 'store';
+}
+
+export interface KeyboardInteractivePromptRequest {
+  requestId: string;
+  connectionName: string;
+  name: string;
+  instructions: string;
+  prompts: { prompt: string; echo: boolean }[];
+}
+
+export interface HostKeyPromptRequest {
+  requestId: string;
+  connectionName: string;
+  host: string;
+  port: number;
+  keyType: string;
+  fingerprint: string;
+  status: 'new' | 'changed';
+  knownFingerprint?: string; // Trusted fingerprint when status is 'changed'
+}
+
+export interface KnownHostEntry {
+  host: string; // host:port
+  keyType: string;
+  fingerprint: string;
+  addedAt: number;
+  source?: 'app' | 'known_hosts';
+}
+
+// A keypair generated by the app's key manager (stored in the app data dir)
+export interface ManagedKey {
+  name: string;
+  type: string; // ssh-ed25519, ssh-rsa...
+  comment: string;
+  fingerprint: string;
+  privateKeyPath: string;
+  publicKey: string; // authorized_keys line
+  encrypted: boolean; // Protected with a passphrase
+  createdAt: number;
+}
+
+// A terminal session recording (<userData>/recordings/<fileName>)
+export interface RecordingInfo {
+  fileName: string;
+  title: string; // Connection name
+  startedAt: number;
+  duration: number; // Seconds
+  size: number; // Bytes
+  active: boolean; // Still being written
+}
+
+// Parsed asciicast v2 file: events are [seconds, code, data] with "o" output and "r" resize ("COLSxROWS")
+export interface CastRecording {
+  header: { version: 2; width: number; height: number; timestamp?: number; duration?: number; title?: string; env?: Record<string, string> };
+  events: [number, string, string][];
+}
+
+export interface SshConfigImportEntry {
+  connection: Connection;
+  duplicateOf?: string; // Name of the saved connection this host matches
+  viaProxyJump?: boolean; // Not a Host block itself, only referenced as a ProxyJump hop
+}
+
+export type InventoryImportField = 'name' | 'host' | 'port' | 'username' | 'privateKey' | 'folder' | 'tags';
+
+export interface InventoryImportOptions {
+  mapping: Partial<Record<InventoryImportField, string>>; // Field -> source column or inventory var
+  groupsAs: 'folders' | 'tags' | 'none'; // What Ansible groups turn into
+  parentFolder?: string; // Prepended to every imported folder
+}
+
+// One record of a bulk import dry run
+export interface InventoryImportEntry {
+  label: string; // "line 4" for CSV rows, the host name for inventories
+  action: 'add' | 'update' | 'unchanged' | 'skip';
+  connection?: Connection; // As it would be saved; updates keep the existing ID
+  existingName?: string;
+  changes?: { field: InventoryImportField; from?: string; to?: string }[];
+  reason?: string; // Why the record is skipped
+}
+
+export interface InventoryImportPreview {
+  success: boolean;
+  filePath: string;
+  format?: 'csv' | 'json' | 'ansible-ini' | 'ansible-yaml' | 'ansible-json';
+  columns: string[];
+  hasGroups?: boolean;
+  options?: InventoryImportOptions; // The options used, with the guessed mapping on first load
+  entries: InventoryImportEntry[];
+  error?: string;
+}
+
+export interface VaultStatus {
+  mode: 'safeStorage' | 'master' | null; // null until the vault is set up
+  locked: boolean;
+  safeStorageAvailable: boolean;
+  secretCount: number;
+  plaintextCount: number; // Connections still holding unencrypted secrets
+}
+
+// Options for ssh:shell. resume marks a terminal reopening after a connection drop.
+export interface ShellOpenOptions {
+  initialPath?: string;
+  cols?: number;
+  rows?: number;
+  sessionName?: string; // tmux/screen session for the pane (Connection.persistentSession)
+  resume?: boolean;
+}
+
+// Why a shell closed: the remote shell exited, or the connection dropped (the terminal can resume)
+export interface ShellCloseInfo {
+  reason: 'exit' | 'dropped';
+}
+
+export type ConnectionState = 'connecting' | 'ready' | 'degraded' | 'reconnecting' | 'lost' | 'disconnected';
+
+// Broadcast by main whenever a connection changes state; 'disconnected' means it's gone
+export interface ConnectionStatus {
+  connectionId: string;
+  state: ConnectionState;
+  attempt?: number; // Reconnect attempt, while reconnecting
+  nextRetryAt?: number; // Epoch ms of the next attempt, while reconnecting
+  error?: string;
+  authMethod?: string; // Auth method that got in (e.g. "key id_ed25519"), once ready
+}
+
+export interface CertificateInfo {
+  keyType: string; // Base key type, e.g. ssh-ed25519
+  certType: 'user' | 'host';
+  keyId: string;
+  serial: string;
+  principals: string[]; // Empty = valid for any principal
+  validAfter: number | null; // Epoch ms, null = no lower bound
+  validBefore: number | null; // Epoch ms, null = never expires
+  caFingerprint: string;
+}
+
+// problem: why the cert can't be used right now (expired, not yet valid, host cert)
+export interface CertificateInspection {
+  info?: CertificateInfo;
+  problem?: string;
+  error?: string;
+}
+
+export type DiagnosticStatus = 'pending' | 'running' | 'pass' | 'warn' | 'fail' | 'skipped';
+
+// One step of the connection test (ssh:test), updated live via onTestProgress
+export interface DiagnosticStage {
+  id: 'dns' | 'tcp' | 'banner' | 'algorithms' | 'hostKey' | 'authMethods' | 'auth';
+  label: string;
+  status: DiagnosticStatus;
+  detail?: string;
+  hint?: string; // What to check when the stage failed
+  durationMs?: number;
+}
+
+export interface VaultUnlockPromptRequest {
+  requestId: string;
+  mode: 'safeStorage' | 'master';
+  error?: string;
+}
+
 export interface ElectronAPI {
   minimize: () => Promise<void>;
   maximize: () => Promise<void>;
@@ -63,7 +307,11 @@ export interface ElectronAPI {
   connect: (connectionId: string) => Promise<{ success: boolean; connectionId: string }>;
   disconnect: (connectionId: string) => Promise<{ success: boolean }>;
   ensureReady: (connectionId: string) => Promise<{ success: boolean; connectionId: string }>;
-  shell: (connectionId: string, shellId?: string) => Promise<{ success: boolean; shellId: string }>;
+  getConnectionStates: () => Promise<ConnectionStatus[]>;
+  onConnectionState: (callback: (status: ConnectionStatus) => void) => () => void;
+  testConnection: (testId: string, connection: Connection) => Promise<DiagnosticStage[]>;
+  onTestProgress: (callback: (progress: { testId: string; stages: DiagnosticStage[] }) => void) => () => void;
+  shell: (connectionId: string, shellId?: string, options?: ShellOpenOptions) => Promise<{ success: boolean; shellId: string }>;
   shellClose: (shellId: string) => Promise<{ success: boolean }>;
   write: (shellId: string, data: string) => Promise<void>;
   resize: (shellId: string, cols: number, rows: number) => Promise<void>;
@@ -71,17 +319,20 @@ export interface ElectronAPI {
   execSudo: (connectionId: string, command: string, password?: string) => Promise<CommandResult>;
 
   onData: (shellId: string, callback: (data: string) => void) => () => void;
-  onClose: (shellId: string, callback: () => void) => () => void;
+  onClose: (shellId: string, callback: (info: ShellCloseInfo) => void) => () => void;
 
   // Local Shell (Personal Console)
-  localShell: () => Promise<{ success: boolean; shellId: string }>;
+  localShell: (profileId?: string, cols?: number, rows?: number) => Promise<{ success: boolean; shellId?: string; error?: string }>;
   localShellClose: (shellId: string) => Promise<{ success: boolean }>;
   localWrite: (shellId: string, data: string) => Promise<void>;
   localResize: (shellId: string, cols: number, rows: number) => Promise<void>;
   onLocalData: (shellId: string, callback: (data: string) => void) => () => void;
   onLocalClose: (shellId: string, callback: (code: number) => void) => () => void;
-  localSavePath: (dirPath: string) => Promise<{ success: boolean; path?: string; error?: string }>;
-  localGetSavedPath: () => Promise<string>;
+  localSavePath: (dirPath: string, profileId?: string) => Promise<{ success: boolean; path?: string; error?: string }>;
+  localGetSavedPath: (profileId?: string) => Promise<string>;
+  localProfilesGetAll: () => Promise<LocalProfile[]>;
+  localProfilesSave: (profile: LocalProfile) => Promise<LocalProfile[]>;
+  localProfilesDelete: (profileId: string) => Promise<LocalProfile[]>;
 
   sftpInit: (connectionId: string) => Promise<{ success: boolean }>;
   sftpList: (connectionId: string, path: string) => Promise<FileInfo[]>;
@@ -98,6 +349,8 @@ export interface ElectronAPI {
   openFileDialog: () => Promise<string[]>;
   saveFileDialog: (defaultName: string) => Promise<string | undefined>;
   selectPrivateKey: () => Promise<string | undefined>;
+  selectCertificate: (keyPath?: string) => Promise<string | undefined>;
+  inspectCertificate: (certPath: string) => Promise<CertificateInspection>;
   getTempPath: (fileName: string) => Promise<string>;
   saveTempFile: (fileName: string, data: number[]) => Promise<{ success: boolean; path?: string; error?: string }>;
   deleteTempFile: (filePath: string) => Promise<{ success: boolean; error?: string }>;
@@ -159,6 +412,52 @@ export interface ElectronAPI {
   // Terminal copy event
   onTerminalCopy: (callback: () => void) => () => void;
 
+  // Prompts from the main process (null response = cancelled)
+  onPassphrasePrompt: (callback: (request: PassphrasePromptRequest) => void) => () => void;
+  onKeyboardInteractivePrompt: (callback: (request: KeyboardInteractivePromptRequest) => void) => () => void;
+  onHostKeyPrompt: (callback: (request: HostKeyPromptRequest) => void) => () => void;
+  onVaultUnlockPrompt: (callback: (request: VaultUnlockPromptRequest) => void) => () => void;
+  respondToPrompt: (requestId: string, response: PassphrasePromptResponse | string[] | boolean | { masterPassword?: string } | null) => Promise<{ success: boolean }>;
+
+  // Credential vault
+  vaultStatus: () => Promise<VaultStatus>;
+  vaultSetup: (mode: 'safeStorage' | 'master', masterPassword?: string) => Promise<{ success: boolean; error?: string }>;
+  vaultUnlock: (masterPassword?: string) => Promise<{ success: boolean; error?: string }>;
+  vaultLock: () => Promise<{ success: boolean }>;
+  onVaultStatus: (callback: (status: VaultStatus) => void) => () => void;
+
+  // Default outbound proxy
+  proxyGetDefault: () => Promise<DefaultProxy | null>;
+  proxySetDefault: (proxy: DefaultProxy | null) => Promise<{ success: boolean }>;
+
+  // OpenSSH config import/export
+  sshConfigParse: (filePath?: string) => Promise<{ success: boolean; filePath: string; entries: SshConfigImportEntry[]; error?: string }>;
+  sshConfigExport: (connectionIds?: string[]) => Promise<{ success: boolean; filePath?: string; count?: number; canceled?: boolean; error?: string }>;
+
+  // Bulk import (CSV, JSON, Ansible inventory)
+  inventoryPreview: (filePath: string, options?: InventoryImportOptions) => Promise<InventoryImportPreview>;
+
+  // Known hosts
+  knownHostsGetAll: () => Promise<KnownHostEntry[]>;
+  knownHostsRemove: (host: string, keyType?: string) => Promise<{ success: boolean }>;
+  knownHostsImport: () => Promise<{ success: boolean; imported: number; skipped: number; error?: string }>;
+  keysList: () => Promise<ManagedKey[]>;
+  keysGenerate: (options: { name: string; type: 'ed25519' | 'rsa'; bits?: number; passphrase?: string; comment?: string }) => Promise<{ success: boolean; key?: ManagedKey; error?: string }>;
+  keysDelete: (name: string) => Promise<{ success: boolean; error?: string }>;
+  keysInstall: (name: string, connectionId: string) => Promise<{ success: boolean; alreadyInstalled?: boolean; connections?: Connection[]; error?: string }>;
+
+  // Session recordings (asciicast v2)
+  recordingStart: (shellId: string, connectionId: string, cols: number, rows: number) => Promise<{ success: boolean; recordingId?: string; fileName?: string; error?: string }>;
+  recordingAttach: (recordingId: string, shellId: string) => Promise<{ success: boolean }>;
+  recordingStop: (recordingId: string) => Promise<{ success: boolean; error?: string }>;
+  recordingList: () => Promise<RecordingInfo[]>;
+  recordingLoad: (fileName: string) => Promise<{ success: boolean; recording?: CastRecording; error?: string }>;
+  recordingDelete: (fileName: string) => Promise<{ success: boolean; error?: string }>;
+  recordingShowFolder: () => Promise<void>;
+
+  // Plain-text session logs
+  sessionLogShowFolder: (connectionId: string) => Promise<void>;
+
   // Tunnel management
   tunnelCreate: (connectionId: string, config: {
     type: 'local' | 'remote';
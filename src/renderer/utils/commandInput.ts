@@ -0,0 +1,58 @@
+// Text inputs for process settings: KEY=value environment lines and command-line arguments.
+
+// One KEY=value per line; blank lines and # comments are ignored
+export function parseEnvInput(text: string): { env: Record<string, string>; invalidLine?: string } {
+  const env: Record<string, string> = {};
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+    const eq = line.indexOf('=');
+    const key = eq === -1 ? line : line.slice(0, eq).trim();
+    if (eq === -1 || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) {
+      return { env, invalidLine: line };
+    }
+    env[key] = line.slice(eq + 1).trim();
+  }
+  return { env };
+}
+
+export function formatEnvInput(env: Record<string, string> | undefined): string {
+  return Object.entries(env || {}).map(([key, value]) => `${key}=${value}`).join('\n');
+}
+
+// Whitespace-separated, with "double" or 'single' quotes around arguments that contain spaces.
+// No escapes or expansion - the arguments go to the program as typed.
+export function parseArgsInput(text: string): { args: string[]; error?: string } {
+  const args: string[] = [];
+  let current = '';
+  let inArg = false;
+  let quote: string | null = null;
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inArg = true;
+    } else if (/\s/.test(char)) {
+      if (inArg) args.push(current);
+      current = '';
+      inArg = false;
+    } else {
+      current += char;
+      inArg = true;
+    }
+  }
+  if (quote) {
+    return { args, error: `Unclosed ${quote} quote` };
+  }
+  if (inArg) args.push(current);
+  return { args };
+}
+
+export function formatArgsInput(args: string[] | undefined): string {
+  return (args || []).map((arg) => (arg === '' || /[\s"']/.test(arg) ? (arg.includes('"') ? `'${arg}'` : `"${arg}"`) : arg)).join(' ');
+}
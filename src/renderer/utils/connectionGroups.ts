@@ -0,0 +1,98 @@
+// Folder and tag helpers shared by the Sidebar and the multi-server views. Folders are
+// '/'-separated paths stored on each connection ("Prod/EU"), tags are free-form ("env:prod").
+
+export interface GroupableConnection {
+  id: string;
+  name: string;
+  host: string;
+  folder?: string;
+  tags?: string[];
+}
+
+export interface FolderNode<T extends GroupableConnection> {
+  name: string;
+  path: string;
+  folders: FolderNode<T>[];
+  connections: T[];
+}
+
+export function normalizeFolder(folder?: string): string | undefined {
+  const path = (folder || '')
+    .split('/')
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .join('/');
+  return path || undefined;
+}
+
+export function parseTags(input: string): string[] {
+  const tags = input.split(/[,\s]+/).map((tag) => tag.trim()).filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+// Every whitespace-separated term has to match the name, host, folder or one of the tags
+export function matchesFilter(conn: GroupableConnection, query: string): boolean {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const fields = [conn.name, conn.host, conn.folder || '', ...(conn.tags || [])].map((f) => f.toLowerCase());
+  return terms.every((term) => fields.some((field) => field.includes(term)));
+}
+
+// Connections in this folder or any folder below it
+export function isInFolder(conn: GroupableConnection, folder: string): boolean {
+  return !!conn.folder && (conn.folder === folder || conn.folder.startsWith(`${folder}/`));
+}
+
+// All folder paths in use, including parents of nested folders
+export function getFolderPaths(connections: GroupableConnection[]): string[] {
+  const paths = new Set<string>();
+  for (const conn of connections) {
+    const parts = (conn.folder || '').split('/').filter(Boolean);
+    for (let i = 1; i <= parts.length; i++) {
+      paths.add(parts.slice(0, i).join('/'));
+    }
+  }
+  return Array.from(paths).sort((a, b) => a.localeCompare(b));
+}
+
+export function getTags(connections: GroupableConnection[]): string[] {
+  const tags = new Set<string>();
+  connections.forEach((conn) => conn.tags?.forEach((tag) => tags.add(tag)));
+  return Array.from(tags).sort((a, b) => a.localeCompare(b));
+}
+
+// Build the folder tree. Folders are sorted by name, connections keep their saved order.
+export function buildFolderTree<T extends GroupableConnection>(connections: T[]): FolderNode<T> {
+  const root: FolderNode<T> = { name: '', path: '', folders: [], connections: [] };
+
+  for (const conn of connections) {
+    let node = root;
+    for (const part of (conn.folder || '').split('/').filter(Boolean)) {
+      const path = node.path ? `${node.path}/${part}` : part;
+      let child = node.folders.find((f) => f.name === part);
+      if (!child) {
+        child = { name: part, path, folders: [], connections: [] };
+        node.folders.push(child);
+      }
+      node = child;
+    }
+    node.connections.push(conn);
+  }
+
+  const sortFolders = (node: FolderNode<T>) => {
+    node.folders.sort((a, b) => a.name.localeCompare(b.name));
+    node.folders.forEach(sortFolders);
+  };
+  sortFolders(root);
+  return root;
+}
+
+export function countConnections(node: FolderNode<GroupableConnection>): number {
+  return node.connections.length + node.folders.reduce((sum, f) => sum + countConnections(f), 0);
+}
+
+// Selector chip used by the multi-server views: a folder (with subfolders) or a tag
+export type ConnectionSelector = { type: 'folder' | 'tag'; value: string };
+
+export function matchesSelector(conn: GroupableConnection, selector: ConnectionSelector): boolean {
+  return selector.type === 'folder' ? isInFolder(conn, selector.value) : !!conn.tags?.includes(selector.value);
+}
@@ -0,0 +1,32 @@
+import { ConnectionStatus } from '../types/electron';
+
+// Labels for the live connection state dots (tabs, Sidebar, Dashboard). States come from the
+// connection manager in main via onConnectionState.
+
+export function getConnectionStateLabel(status?: ConnectionStatus): string {
+  switch (status?.state) {
+    case 'connecting':
+      return 'Connecting...';
+    case 'ready':
+      return status.authMethod ? `Connected via ${status.authMethod}` : 'Connected';
+    case 'degraded':
+      return status.error ? `Degraded: ${status.error}` : 'Degraded';
+    case 'reconnecting':
+      return status.attempt ? `Reconnecting (attempt ${status.attempt})...` : 'Reconnecting...';
+    case 'lost':
+      return status.error ? `Connection lost: ${status.error}` : 'Connection lost';
+    default:
+      return 'Not connected';
+  }
+}
+
+// Merge a state change into a connectionId -> status map
+export function applyConnectionStatus(statuses: Record<string, ConnectionStatus>, status: ConnectionStatus): Record<string, ConnectionStatus> {
+  const next = { ...statuses };
+  if (status.state === 'disconnected') {
+    delete next[status.connectionId];
+  } else {
+    next[status.connectionId] = status;
+  }
+  return next;
+}
@@ -0,0 +1,57 @@
+import { CastRecording } from '../types/electron';
+
+// Text search over an asciicast recording for the player. Output events are reduced to plain
+// text, so a match can be mapped back to the time its text was printed.
+
+export interface RecordingTextIndex {
+  text: string; // Lower-cased plain text of all output events
+  starts: number[]; // Offset in text where each indexed event begins
+  times: number[]; // Time of each indexed event, in seconds
+}
+
+const MAX_MATCHES = 500;
+
+function toPlainText(data: string): string {
+  return data
+    .replace(/\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b[()][0-9A-Za-z]|\x1b[=>]/g, '')
+    .replace(/[\x00-\x09\x0b-\x1f\x7f]/g, '');
+}
+
+export function buildTextIndex(recording: CastRecording): RecordingTextIndex {
+  const parts: string[] = [];
+  const starts: number[] = [];
+  const times: number[] = [];
+  let length = 0;
+  for (const [time, code, data] of recording.events) {
+    if (code !== 'o') continue;
+    const text = toPlainText(data).toLowerCase();
+    if (!text) continue;
+    starts.push(length);
+    times.push(time);
+    parts.push(text);
+    length += text.length;
+  }
+  return { text: parts.join(''), starts, times };
+}
+
+// Times (seconds) at which each match is complete on screen, in order, at most MAX_MATCHES
+export function findMatchTimes(index: RecordingTextIndex, query: string): number[] {
+  const needle = query.toLowerCase();
+  const times: number[] = [];
+  if (!needle) return times;
+  let event = 0;
+  for (let at = index.text.indexOf(needle); at !== -1 && times.length < MAX_MATCHES; at = index.text.indexOf(needle, at + 1)) {
+    // The match is on screen once the event holding its last character has been played
+    const end = at + needle.length - 1;
+    while (event + 1 < index.starts.length && index.starts[event + 1] <= end) event++;
+    times.push(index.times[event]);
+  }
+  return times;
+}
+
+export function formatPlaybackTime(seconds: number): string {
+  const total = Math.floor(seconds);
+  const minutes = Math.floor(total / 60);
+  const rest = String(total % 60).padStart(2, '0');
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+}